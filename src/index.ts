@@ -2,7 +2,20 @@
 
 import { program } from 'commander';
 import { OperatorManager, type OperatorManagerConfig } from './node/OperatorManager';
+import type { AutoJoinCharacter } from './node/BattleJoiner';
+import { getCardPlayStrategyNames, isTargetingPolicy, TARGETING_POLICIES, type TargetingPolicy } from './node/strategies';
+import { DEFAULT_SCENARIO, formatMatchReport, runMatches, type SimulationScenario } from './node/simulator';
 import { getDeployments } from './utils/deployments';
+import { isMapSourceKind, MAP_SOURCE_KINDS, type MapSourceKind } from './utils/mapSources';
+import {
+  HOUSEKEEPING_MODES,
+  HOUSEKEEPING_RULES,
+  isHousekeepingMode,
+  isHousekeepingRule,
+  type HousekeepingMode,
+  type HousekeepingRule
+} from './utils/partyHousekeeping';
+import { isRandomnessMode, RANDOMNESS_MODES, type RandomnessMode } from './utils/randomness';
 import { logConfiguration, createLogger } from './utils/logger';
 import * as dotenv from 'dotenv';
 import * as path from 'path';
@@ -17,6 +30,125 @@ const logger = createLogger({ operator: 'OperatorManager' });
 // Get deployment addresses
 const deployments = getDeployments();
 
+// Parses per-character settings such as CHARACTER_STRATEGIES, e.g. "0xabc...=random,0xdef...=random"
+function parseCharacterSettings(envVar: string): Record<string, string> {
+  const settings: Record<string, string> = {};
+  const value = process.env[envVar];
+  if (!value) return settings;
+
+  for (const entry of value.split(',')) {
+    const [character, setting] = entry.split('=').map(s => s.trim());
+    if (!character || !setting) {
+      logger.warn({ entry }, `Ignoring invalid ${envVar} entry`);
+      continue;
+    }
+    settings[character.toLowerCase()] = setting;
+  }
+  return settings;
+}
+
+function parseTargetingPolicy(value: string | undefined, source: string): TargetingPolicy | undefined {
+  if (!value) return undefined;
+  if (!isTargetingPolicy(value)) {
+    logger.error({ value, allowed: TARGETING_POLICIES }, `Invalid targeting policy in ${source}`);
+    process.exit(1);
+  }
+  return value;
+}
+
+function parseStrategyName(value: string | undefined, source: string): string | undefined {
+  if (!value) return undefined;
+  const allowed = getCardPlayStrategyNames();
+  if (!allowed.includes(value.toLowerCase())) {
+    logger.error({ value, allowed }, `Invalid card play strategy in ${source}`);
+    process.exit(1);
+  }
+  return value;
+}
+
+function parseCharacterStrategies(): Record<string, string> {
+  const strategies: Record<string, string> = {};
+  for (const [character, strategy] of Object.entries(parseCharacterSettings('CHARACTER_STRATEGIES'))) {
+    strategies[character] = parseStrategyName(strategy, 'CHARACTER_STRATEGIES')!;
+  }
+  return strategies;
+}
+
+function parseCharacterTargetingPolicies(): Record<string, TargetingPolicy> {
+  const policies: Record<string, TargetingPolicy> = {};
+  for (const [character, policy] of Object.entries(parseCharacterSettings('CHARACTER_TARGETING_POLICIES'))) {
+    policies[character] = parseTargetingPolicy(policy, 'CHARACTER_TARGETING_POLICIES')!;
+  }
+  return policies;
+}
+
+// Parses AUTO_JOIN_CHARACTERS, e.g. "0xabc...=A,0xdef...=B"
+function parseAutoJoinCharacters(): AutoJoinCharacter[] {
+  return Object.entries(parseCharacterSettings('AUTO_JOIN_CHARACTERS')).map(([character, team]) => {
+    if (team !== 'A' && team !== 'B') {
+      logger.error({ character, team }, 'Invalid team in AUTO_JOIN_CHARACTERS, expected A or B');
+      process.exit(1);
+    }
+    return { character, teamA: team === 'A' };
+  });
+}
+
+function parseOptionalInt(envVar: string, minimum: number = 0): number | undefined {
+  const value = process.env[envVar];
+  if (!value) return undefined;
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed < minimum) {
+    logger.error({ value }, minimum === 0
+      ? `Invalid ${envVar}, expected a non-negative integer`
+      : `Invalid ${envVar}, expected an integer of at least ${minimum}`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+function parseRandomnessMode(): RandomnessMode | undefined {
+  const value = process.env.RANDOMNESS_MODE;
+  if (!value) return undefined;
+  if (!isRandomnessMode(value)) {
+    logger.error({ value, allowed: RANDOMNESS_MODES }, 'Invalid RANDOMNESS_MODE');
+    process.exit(1);
+  }
+  return value;
+}
+
+function parseMapSource(): MapSourceKind | undefined {
+  const value = process.env.MAP_SOURCE;
+  if (!value) return undefined;
+  if (!isMapSourceKind(value)) {
+    logger.error({ value, allowed: MAP_SOURCE_KINDS }, 'Invalid MAP_SOURCE');
+    process.exit(1);
+  }
+  return value;
+}
+
+function parseHousekeepingMode(): HousekeepingMode | undefined {
+  const value = process.env.HOUSEKEEPING_MODE;
+  if (!value) return undefined;
+  if (!isHousekeepingMode(value)) {
+    logger.error({ value, allowed: HOUSEKEEPING_MODES }, 'Invalid HOUSEKEEPING_MODE');
+    process.exit(1);
+  }
+  return value;
+}
+
+// Parses HOUSEKEEPING_RULES, e.g. "cancelStaleParties,cleanupBattles"
+function parseHousekeepingRules(): HousekeepingRule[] | undefined {
+  const value = process.env.HOUSEKEEPING_RULES;
+  if (!value) return undefined;
+  const rules = value.split(',').map(rule => rule.trim()).filter(Boolean);
+  const invalid = rules.filter(rule => !isHousekeepingRule(rule));
+  if (invalid.length > 0) {
+    logger.error({ invalid, allowed: HOUSEKEEPING_RULES }, 'Invalid HOUSEKEEPING_RULES');
+    process.exit(1);
+  }
+  return rules as HousekeepingRule[];
+}
+
 function loadConfig(): OperatorManagerConfig {
   // Check for required environment variables
   const requiredEnvVars = [
@@ -43,7 +175,39 @@ function loadConfig(): OperatorManagerConfig {
     operatorAddress: process.env.OPERATOR_ADDRESS!,
     operatorPrivateKey: process.env.OPERATOR_PRIVATE_KEY!,
     relayerUrl: process.env.RELAYER_URL!,
-    erc2771ForwarderAddress: process.env.ERC2771_FORWARDER_ADDRESS!
+    erc2771ForwarderAddress: process.env.ERC2771_FORWARDER_ADDRESS!,
+    defaultStrategy: parseStrategyName(process.env.CARD_STRATEGY, 'CARD_STRATEGY'),
+    characterStrategies: parseCharacterStrategies(),
+    defaultTargetingPolicy: parseTargetingPolicy(process.env.TARGETING_POLICY, 'TARGETING_POLICY'),
+    characterTargetingPolicies: parseCharacterTargetingPolicies(),
+    autoJoinCharacters: parseAutoJoinCharacters(),
+    autoJoinDeckId: process.env.AUTO_JOIN_DECK_ID ? BigInt(parseOptionalInt('AUTO_JOIN_DECK_ID')!) : undefined,
+    autoJoinHealth: parseOptionalInt('AUTO_JOIN_HEALTH'),
+    autoJoinEnergy: parseOptionalInt('AUTO_JOIN_ENERGY'),
+    randomnessMode: parseRandomnessMode(),
+    randomnessAuditFile: process.env.RANDOMNESS_AUDIT_FILE || undefined,
+    randomnessStateDir: process.env.RANDOMNESS_STATE_DIR || undefined,
+    journalDir: process.env.JOURNAL_DIR || undefined,
+    // 0 would flag every active battle as stuck right away
+    stuckTurnMultiple: parseOptionalInt('STUCK_TURN_MULTIPLE', 1),
+    alertWebhookUrl: process.env.ALERT_WEBHOOK_URL || undefined,
+    mapSource: parseMapSource(),
+    mapDirectory: process.env.MAP_DIRECTORY || undefined,
+    mapCacheDir: process.env.MAP_CACHE_DIR || undefined,
+    // 0 would refetch the map back to back
+    mapRefreshIntervalMs: process.env.MAP_REFRESH_SECONDS ? parseOptionalInt('MAP_REFRESH_SECONDS', 1)! * 1000 : undefined,
+    battleRoomMonsterSlots: parseOptionalInt('BATTLE_ROOM_MONSTER_SLOTS', 1),
+    housekeepingMode: parseHousekeepingMode(),
+    housekeepingRules: parseHousekeepingRules(),
+    // 0 would run housekeeping back to back
+    housekeepingIntervalMs: process.env.HOUSEKEEPING_INTERVAL_SECONDS ? parseOptionalInt('HOUSEKEEPING_INTERVAL_SECONDS', 1)! * 1000 : undefined,
+    staleCreatedPartyMs: process.env.STALE_PARTY_SECONDS ? parseOptionalInt('STALE_PARTY_SECONDS')! * 1000 : undefined,
+    goalGraceMs: process.env.GOAL_GRACE_SECONDS ? parseOptionalInt('GOAL_GRACE_SECONDS')! * 1000 : undefined,
+    housekeepingMaxParties: parseOptionalInt('HOUSEKEEPING_MAX_PARTIES', 1),
+    housekeepingStateDir: process.env.HOUSEKEEPING_STATE_DIR || undefined,
+    rafApiUrl: process.env.RAF_API_URL || undefined,
+    rafApiUsername: process.env.RAF_API_USERNAME || undefined,
+    rafApiPassword: process.env.RAF_API_PASSWORD || undefined
   };
 }
 
@@ -98,16 +262,52 @@ async function startOperator() {
 async function getStatus() {
   const config = loadConfig();
   const manager = new OperatorManager(config);
-  
-  // Start temporarily to get status
-  await manager.start();
+
+  // Not started: starting would run operators, sending transactions and using hash chain values
+  // next to a running operator. Live operator status is only known to the running process.
   const status = manager.getStatus();
-  await manager.stop();
-  
+
   console.log('Operator Status:');
   console.log(JSON.stringify(status, null, 2));
 }
 
+function parsePositiveInt(value: string, source: string): number {
+  const parsed = Number(value);
+  if (!Number.isSafeInteger(parsed) || parsed < 1) {
+    logger.error({ value }, `Invalid ${source}, expected a positive integer`);
+    process.exit(1);
+  }
+  return parsed;
+}
+
+async function simulate(options: {
+  strategyA: string;
+  strategyB: string;
+  targetingA?: string;
+  targetingB?: string;
+  matches: string;
+  seed: string;
+  scenario?: string;
+}) {
+  // Validate every option before playing, so typos fail fast instead of mid-run
+  const strategyA = { name: parseStrategyName(options.strategyA, '--strategy-a')!, targeting: parseTargetingPolicy(options.targetingA, '--targeting-a') };
+  const strategyB = { name: parseStrategyName(options.strategyB, '--strategy-b')!, targeting: parseTargetingPolicy(options.targetingB, '--targeting-b') };
+  const matches = parsePositiveInt(options.matches, '--matches');
+  const seed = parsePositiveInt(options.seed, '--seed');
+
+  try {
+    const scenario: SimulationScenario = options.scenario
+      ? JSON.parse(fs.readFileSync(options.scenario, 'utf8'))
+      : DEFAULT_SCENARIO;
+
+    const report = await runMatches({ scenario, strategyA, strategyB, matches, seed });
+    console.log(formatMatchReport(report));
+  } catch (error: any) {
+    logger.error({ error: error.message, scenario: options.scenario }, 'Simulation failed');
+    process.exit(1);
+  }
+}
+
 // Set up CLI commands
 program
   .name('battle-bot')
@@ -121,9 +321,21 @@ program
 
 program
   .command('status')
-  .description('Get the current status of operators')
+  .description('Show the operator configuration without starting any operators')
   .action(getStatus);
 
+program
+  .command('simulate')
+  .description('Compare two card play strategies in seeded offline matches under heuristic combat rules')
+  .option('--strategy-a <name>', 'Strategy for team A', 'random')
+  .option('--strategy-b <name>', 'Strategy for team B', 'random')
+  .option('--targeting-a <policy>', 'Targeting policy for team A')
+  .option('--targeting-b <policy>', 'Targeting policy for team B')
+  .option('--matches <count>', 'Number of matches to play', '1000')
+  .option('--seed <seed>', 'Seed for reproducible results', '1')
+  .option('--scenario <path>', 'JSON file describing the teams and decks')
+  .action(simulate);
+
 program
   .command('init')
   .description('Initialize configuration file')
@@ -144,6 +356,52 @@ OPERATOR_PRIVATE_KEY=0x...
 # Meta-transaction infrastructure
 RELAYER_URL=https://your-relayer-url
 ERC2771_FORWARDER_ADDRESS=0x...
+
+# Act maps: raf, directory or actFile
+MAP_SOURCE=raf
+MAP_DIRECTORY=
+MAP_CACHE_DIR=map-cache
+MAP_REFRESH_SECONDS=300
+# Monster slots of the deployed BattleRoomData, 3 for BattleRooms with elite rooms. Default: the bundled ABI's
+BATTLE_ROOM_MONSTER_SLOTS=
+
+# RAF API configuration for fetching map data
+RAF_API_URL=
+RAF_API_USERNAME=
+RAF_API_PASSWORD=
+
+# Card play strategies (optional)
+CARD_STRATEGY=random
+CHARACTER_STRATEGIES=
+TARGETING_POLICY=random
+CHARACTER_TARGETING_POLICIES=
+
+# Auto-join battles waiting for players (optional)
+AUTO_JOIN_CHARACTERS=
+AUTO_JOIN_DECK_ID=0
+AUTO_JOIN_HEALTH=30
+AUTO_JOIN_ENERGY=3
+
+# Randomness for startGame and nextTurn (optional)
+RANDOMNESS_MODE=crypto
+RANDOMNESS_AUDIT_FILE=
+RANDOMNESS_STATE_DIR=randomness-state
+
+# Directory battle timelines are written to (optional)
+JOURNAL_DIR=journal
+
+# Stuck battle alerts (optional)
+STUCK_TURN_MULTIPLE=3
+ALERT_WEBHOOK_URL=
+
+# Party housekeeping: off, dryRun or enforce (optional)
+HOUSEKEEPING_MODE=dryRun
+HOUSEKEEPING_RULES=cancelStaleParties,endGoalParties,cleanupBattles
+HOUSEKEEPING_INTERVAL_SECONDS=600
+STALE_PARTY_SECONDS=86400
+GOAL_GRACE_SECONDS=3600
+HOUSEKEEPING_MAX_PARTIES=100
+HOUSEKEEPING_STATE_DIR=housekeeping
 `;
 
     const envPath = path.join(process.cwd(), '.env.example');
@@ -152,8 +410,11 @@ ERC2771_FORWARDER_ADDRESS=0x...
     console.log('Copy it to .env and fill in your configuration values');
   });
 
-// Parse command line arguments
-program.parse();
+// Parse command line arguments, async so the actions' rejections are not left unhandled
+program.parseAsync().catch(error => {
+  logger.error({ error: error.message }, 'Command failed');
+  process.exit(1);
+});
 
 // Show help if no command specified
 if (!process.argv.slice(2).length) {
@@ -1,12 +1,33 @@
-import { createPublicClient, createWalletClient, encodeFunctionData, encodeAbiParameters, type Abi } from "viem";
+import { createPublicClient, createWalletClient, encodeFunctionData, type Abi } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { arbitrum } from "viem/chains";
 import ActABI from "../contracts/abis/Act.json";
 import BattleRoomABI from "../contracts/abis/BattleRoom.json";
+import MonsterRegistryABI from "../contracts/abis/MonsterRegistry.json";
 import { forwardTransaction } from "../forwarder/forwardTransaction";
-import { createGraphQLClient, GraphQLQueries, PartyState, type Party, type ActRoom } from "../utils/graphql";
+import { createGraphQLClient, GraphQLQueries, PartyState, queryAllPages, type Party, type ActRoom } from "../utils/graphql";
 import { createAuthenticatedHttpTransport } from "../utils/rpc";
 import { createLogger } from "../utils/logger";
+import type { MapRoom } from "../utils/actMap";
+import { createBattleRoomDataLayout, getBattleRoomDataLayout, type BattleRoomDataField } from "../utils/battleRoomData";
+import { getRoomTypeHandler, type RoomTypeHandler } from "../utils/roomTypes";
+import { validateMap, type MapLimits, type MapValidationReport } from "../utils/mapValidation";
+import { createMapSource, type MapLocation, type MapSource, type MapSourceKind } from "../utils/mapSources";
+import { hashMapRooms, MapCache, type CachedMap } from "../utils/mapCache";
+import {
+  DEFAULT_HOUSEKEEPING_CONFIG,
+  planHousekeeping,
+  readCompletedRooms,
+  readPartyBattleRooms,
+  SettledPartyStore,
+  type HousekeepingAction,
+  type HousekeepingActionResult,
+  type HousekeepingConfig,
+  type HousekeepingMode,
+  type HousekeepingReport,
+  type HousekeepingRule,
+  type PartySnapshot
+} from "../utils/partyHousekeeping";
 import type { Logger } from "pino";
 
 import type { EventAggregator } from "./EventAggregator";
@@ -15,28 +36,17 @@ import type { EventAggregator } from "./EventAggregator";
 interface Room {
   roomType: number; // uint16
   nextRooms: number[]; // uint32[6] array  
-  roomData: `0x${string}`; // bytes - ABI encoded BattleRoomData
+  roomData: `0x${string}`; // bytes - encoded by the room type's handler
 }
 
 // Internal room data before encoding
 interface RoomInternal {
   roomType: number;
-  monsterIndex1: number;
-  monsterIndex2: number;
-  monsterIndex3: number;
+  handler: RoomTypeHandler; // Encodes the room's roomData
+  data: unknown; // roomData as parsed by the handler
   nextRooms: number[];
 }
 
-// Map room from the JSON - flat array structure
-interface MapRoom {
-  id: number;
-  roomType: number; // 0=NULL, 1=BATTLE, 2=GOAL
-  roomData: {
-    monsterIndex1: number;
-  } | null; // Room data with monster index for BATTLE rooms, null otherwise
-  nextRooms: number[]; // Array of 6 room IDs, with 0 meaning no connection
-}
-
 export interface ActOperatorConfig {
   ethRpcUrl: string;
   ethWsRpcUrl: string;
@@ -50,6 +60,18 @@ export interface ActOperatorConfig {
   rafApiUrl?: string;
   rafApiUsername?: string;
   rafApiPassword?: string;
+  mapSource?: MapSourceKind; // Where the act's map is loaded from. Default: raf
+  mapDirectory?: string; // Root of the directory and actFile map sources
+  mapCacheDir?: string; // Directory accepted maps are cached in. Default: map-cache
+  mapRefreshIntervalMs?: number; // How often the map is checked for changes. Default: 300000
+  battleRoomMonsterSlots?: number; // Monster slots of the deployed BattleRoomData. Default: those of the bundled BattleRoom ABI
+  housekeepingMode?: HousekeepingMode; // Whether housekeeping calls are only reported or sent. Default: dryRun
+  housekeepingRules?: HousekeepingRule[]; // Housekeeping rules applied to parties. Default: all
+  housekeepingIntervalMs?: number; // How often housekeeping runs. Default: 600000
+  staleCreatedPartyMs?: number; // How long after creation a CREATED party is cancelled. Default: 86400000
+  goalGraceMs?: number; // How long a party may sit in a completed goal room before it is ended. Default: 3600000
+  housekeepingMaxParties?: number; // Ended parties whose battles are read per housekeeping run. Default: 100
+  housekeepingStateDir?: string; // Directory the parties with nothing left to clean up are kept in. Default: housekeeping
 }
 
 export class ActOperator {
@@ -64,160 +86,306 @@ export class ActOperator {
   private roomMap: Map<number, RoomInternal> = new Map(); // Cache of room ID to Room struct
   private startingRoomId?: number; // Cache the starting room ID
   private battleRoomAddress?: string; // Cache the BattleRoom contract address
+  private mapReport?: MapValidationReport; // Validation report of the last fetched map
+  private mapRejectedAt?: number; // When the map source configuration was rejected
+  private mapSource?: MapSource;
+  private mapLocation?: MapLocation;
+  private mapLimits?: MapLimits;
+  private mapCache: MapCache;
+  private acceptedMap?: CachedMap; // The map the act is operated with, its hash is pinned for the act's lifetime
+  private rejectedMapHash?: string; // Hash of the last map rejected for differing from the accepted one
+  private isRefreshingMap: boolean = false;
+  private mapRefreshIntervalId?: NodeJS.Timeout;
+  private battleRoomDataLayout: BattleRoomDataField[];
+  private housekeepingIntervalId?: NodeJS.Timeout;
+  private isHousekeeping: boolean = false;
+  private housekeepingReport?: HousekeepingReport; // Report of the last housekeeping run
+  private goalCompletedSince: Map<string, number> = new Map(); // Party ID -> when it was first seen in a completed goal room
+  private settledPartyStore: SettledPartyStore;
+  private settledParties: Set<string>; // Ended parties the BattleRoom holds no battles for anymore
+  private housekeepingCursor: number = 0; // Where the next run continues reading ended parties
+  private cleanupBattlesUnsupported: boolean = false; // Set once cleanupParty turned out not to free the rooms
 
   constructor(config: ActOperatorConfig) {
     this.config = config;
     this.logger = createLogger({ operator: 'ActOperator', actAddress: config.actAddress });
+    this.mapCache = new MapCache(config.mapCacheDir ?? 'map-cache');
+    this.settledPartyStore = new SettledPartyStore(config.housekeepingStateDir ?? 'housekeeping');
+    this.settledParties = this.settledPartyStore.read(config.actAddress);
+    // The bundled ABI may lag behind the deployed BattleRoom, whose struct is configured then
+    this.battleRoomDataLayout = config.battleRoomMonsterSlots
+      ? createBattleRoomDataLayout(config.battleRoomMonsterSlots)
+      : getBattleRoomDataLayout();
   }
 
 
 
 
 
-  private async fetchAndProcessMap(): Promise<void> {
+  /**
+   * Creates the map source and reads what loading and validating the act's map needs
+   * @returns Whether the map can be loaded
+   */
+  private async loadMapContext(): Promise<boolean> {
+    let mapSource: MapSource;
     try {
-      // Get environment variables with fallbacks
-      const rafApiUrl = this.config.rafApiUrl || process.env.RAF_API_URL;
-      const rafApiUsername = this.config.rafApiUsername || process.env.RAF_API_USERNAME;
-      const rafApiPassword = this.config.rafApiPassword || process.env.RAF_API_PASSWORD;
+      // The RAF API settings fall back to environment variables
+      mapSource = createMapSource(this.config.mapSource, {
+        rafApiUrl: this.config.rafApiUrl || process.env.RAF_API_URL,
+        rafApiUsername: this.config.rafApiUsername || process.env.RAF_API_USERNAME,
+        rafApiPassword: this.config.rafApiPassword || process.env.RAF_API_PASSWORD,
+        directory: this.config.mapDirectory
+      });
+    } catch (error: any) {
+      // Retrying will not help until the configuration is fixed
+      this.mapRejectedAt = Date.now();
+      this.logger.error(error.message);
+      return false;
+    }
 
-      if (!rafApiUrl || !rafApiUsername || !rafApiPassword) {
-        this.logger.error("Missing RAF API configuration. Please set RAF_API_URL, RAF_API_USERNAME, and RAF_API_PASSWORD");
-        return;
-      }
+    // Get the starting room ID from the contract
+    const publicClient = createPublicClient({
+      chain: arbitrum,
+      transport: createAuthenticatedHttpTransport(this.config.ethRpcUrl, { ETH_RPC_URL: this.config.ethRpcUrl })
+    });
 
-      // Get the starting room ID from the contract
-      const publicClient = createPublicClient({
-        chain: arbitrum,
-        transport: createAuthenticatedHttpTransport(this.config.ethRpcUrl, { ETH_RPC_URL: this.config.ethRpcUrl })
-      });
+    this.startingRoomId = Number(await publicClient.readContract({
+      address: this.config.actAddress as `0x${string}`,
+      abi: ActABI as Abi,
+      functionName: 'STARTING_ROOM_ID'
+    }));
 
-      this.startingRoomId = Number(await publicClient.readContract({
-        address: this.config.actAddress as `0x${string}`,
-        abi: ActABI as Abi,
-        functionName: 'STARTING_ROOM_ID'
-      }));
+    this.logger.info(`Starting room ID: ${this.startingRoomId}`);
+    
+    // Get the BattleRoom contract address
+    this.battleRoomAddress = await publicClient.readContract({
+      address: this.config.actAddress as `0x${string}`,
+      abi: ActABI as Abi,
+      functionName: 'battleRoom'
+    }) as string;
+    
+    this.logger.info(`BattleRoom address: ${this.battleRoomAddress}`);
+
+    // Read the limits the map has to fit in
+    const monsterRegistryAddress = await publicClient.readContract({
+      address: this.battleRoomAddress as `0x${string}`,
+      abi: BattleRoomABI as Abi,
+      functionName: 'monsterRegistry'
+    }) as `0x${string}`;
+    const [maxDoors, maxDoorCount, monsterCount] = await publicClient.multicall({
+      contracts: [
+        { address: this.config.actAddress as `0x${string}`, abi: ActABI as Abi, functionName: 'MAX_DOORS' },
+        { address: this.config.actAddress as `0x${string}`, abi: ActABI as Abi, functionName: 'MAX_DOOR_COUNT' },
+        { address: monsterRegistryAddress, abi: MonsterRegistryABI as Abi, functionName: 'monsterCount' }
+      ],
+      allowFailure: false
+    });
+
+    const location: MapLocation = { actAddress: this.config.actAddress };
+    if (mapSource.needsSeason) {
+      const season = await this.getSeasonInfo();
+      if (!season) return false;
+      location.seasonName = season.seasonName;
+      location.actIndex = season.actIndex;
+    }
 
-      this.logger.info(`Starting room ID: ${this.startingRoomId}`);
-      
-      // Get the BattleRoom contract address
-      this.battleRoomAddress = await publicClient.readContract({
-        address: this.config.actAddress as `0x${string}`,
-        abi: ActABI as Abi,
-        functionName: 'battleRoom'
-      }) as string;
-      
-      this.logger.info(`BattleRoom address: ${this.battleRoomAddress}`);
+    this.mapSource = mapSource;
+    this.mapLocation = location;
+    this.mapLimits = {
+      startingRoomId: this.startingRoomId,
+      maxDoors: Number(maxDoors),
+      maxDoorCount: Number(maxDoorCount),
+      monsterCount: Number(monsterCount),
+      maxMonstersPerRoom: this.battleRoomDataLayout.length
+    };
+    return true;
+  }
 
-      // Query GraphQL to get season name and act index for this act
-      const graphqlClient = createGraphQLClient({ GRAPHQL_URL: this.config.graphqlUrl });
-      
-      // First get the seasonAct to find the season and act index
-      const seasonActQuery = `
-        query GetSeasonActInfo($actAddress: String!) {
-          seasonActs(where: { actAddress: $actAddress }) {
-            items {
-              seasonAddress
-              actIndex
-              actAddress
-            }
-          }
-        }
-      `;
-      
-      const seasonActResult = await graphqlClient.query<{ seasonActs: { items: any[] } }>(seasonActQuery, {
-        actAddress: this.config.actAddress.toLowerCase()
-      });
+  /**
+   * Loads the act's map if it has changed since the accepted one, falling back to the cached map
+   * when there is none yet. Runs at start and then in the background.
+   */
+  private async refreshMap(): Promise<void> {
+    if (this.isRefreshingMap) return;
+    this.isRefreshingMap = true;
 
-      if (!seasonActResult.seasonActs.items || seasonActResult.seasonActs.items.length === 0) {
-        this.logger.error(`SeasonAct not found in GraphQL for address ${this.config.actAddress}`);
-        return;
-      }
+    try {
+      if (!this.mapLimits && !(await this.loadMapContext())) return;
 
-      const seasonActInfo = seasonActResult.seasonActs.items[0];
-      const actIndex = seasonActInfo.actIndex;
-      
-      // Now get the season name
-      const seasonQuery = `
-        query GetSeasonInfo($seasonAddress: String!) {
-          seasons(where: { address: $seasonAddress }) {
-            items {
-              address
-              name
-            }
-          }
+      if (!this.acceptedMap) {
+        const cached = this.mapCache.read(this.config.actAddress);
+        if (cached) {
+          this.logger.info({ hash: cached.hash, source: cached.source, fetchedAt: cached.fetchedAt }, "Using cached map");
+          this.acceptMap(cached);
         }
-      `;
-      
-      const seasonResult = await graphqlClient.query<{ seasons: { items: any[] } }>(seasonQuery, {
-        seasonAddress: seasonActInfo.seasonAddress.toLowerCase()
-      });
+      }
 
-      if (!seasonResult.seasons.items || seasonResult.seasons.items.length === 0) {
-        this.logger.error(`Season not found in GraphQL for address ${seasonActInfo.seasonAddress}`);
+      const description = this.mapSource!.describe(this.mapLocation!);
+      this.logger.info(`Fetching map from: ${description}`);
+      const loaded = await this.mapSource!.load(this.mapLocation!, this.acceptedMap);
+      if (!loaded) {
+        this.logger.debug("Map has not changed");
         return;
       }
+      this.logger.info(`Processing ${loaded.rooms.length} rooms from map`);
 
-      const seasonName = seasonResult.seasons.items[0].name;
-      
-      this.logger.info(`Act info: season=${seasonName}, actIndex=${actIndex}`);
+      const fetched: CachedMap = {
+        actAddress: this.config.actAddress.toLowerCase(),
+        hash: hashMapRooms(loaded.rooms),
+        etag: loaded.etag,
+        lastModified: loaded.lastModified,
+        source: description,
+        fetchedAt: Date.now(),
+        rooms: loaded.rooms
+      };
 
-      // Fetch the map JSON with new URL structure
-      const mapUrl = `${rafApiUrl}/season/${seasonName}/act/${actIndex}/map.json`;
-      
-      this.logger.info(`Fetching map from: ${mapUrl}`);
-      
-      const auth = btoa(`${rafApiUsername}:${rafApiPassword}`);
-      const response = await fetch(mapUrl, {
-        headers: {
-          'Authorization': `Basic ${auth}`
+      // Parties are already walking the accepted map, swapping rooms under them could strand them
+      if (this.acceptedMap && fetched.hash !== this.acceptedMap.hash) {
+        if (this.rejectedMapHash !== fetched.hash) {
+          this.logger.error({
+            acceptedHash: this.acceptedMap.hash,
+            fetchedHash: fetched.hash,
+            source: description
+          }, "Map changed mid-act, rejecting it and keeping the accepted map");
         }
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to fetch map: ${response.status} ${response.statusText}`);
+        this.rejectedMapHash = fetched.hash;
+        return;
       }
 
-      const mapResponse: any = await response.json();
-      this.logger.info(`Map data fetched successfully - raw response type: ${typeof mapResponse}, isArray: ${Array.isArray(mapResponse)}`);
-      
-      // The response should be a direct array of rooms
-      if (!Array.isArray(mapResponse)) {
-        this.logger.error(`Expected array but got: ${JSON.stringify(mapResponse).substring(0, 500)}`);
-        throw new Error(`Map response is not an array`);
+      if (this.acceptMap(fetched)) {
+        await this.mapCache.write(fetched);
       }
-      
-      const mapData = mapResponse as MapRoom[];
-      this.logger.info(`Processing ${mapData.length} rooms from map`);
-      
-      // Log first room to check structure
-      if (mapData.length > 0) {
-        this.logger.info({ structure: JSON.stringify(mapData[0], null, 2) }, `First room structure:`);
-      }
-
-      // Process the flat array of rooms into room ID -> Room struct mapping
-      this.processMapRooms(mapData);
-      this.logger.info(`Processed ${this.roomMap.size} rooms from map`);
-
     } catch (error: any) {
       this.logger.error({
         message: error.message,
         stack: error.stack,
-        rafApiUrl: this.config.rafApiUrl || process.env.RAF_API_URL,
+        mapSource: this.config.mapSource ?? 'raf',
         actAddress: this.config.actAddress,
         error: error.toString()
       }, `Error fetching or processing map: ${error.message || error}`);
+    } finally {
+      this.isRefreshingMap = false;
     }
   }
 
+  /**
+   * Swaps in a map if it is valid, a map with the accepted hash only updates the version
+   * @returns Whether the map was accepted
+   */
+  private acceptMap(map: CachedMap): boolean {
+    if (this.acceptedMap?.hash === map.hash) {
+      this.acceptedMap = map;
+      return true;
+    }
+
+    // Log first room to check structure
+    if (map.rooms.length > 0) {
+      this.logger.info({ structure: JSON.stringify(map.rooms[0], null, 2) }, `First room structure:`);
+    }
+
+    // Refuse maps that would strand parties or make enterRoom revert
+    const limits = this.mapLimits!;
+    this.mapReport = validateMap(map.rooms, limits);
+    for (const warning of this.mapReport.warnings) {
+      this.logger.warn({ code: warning.code, roomId: warning.roomId }, warning.message);
+    }
+    if (!this.mapReport.valid) {
+      this.logger.error({
+        limits,
+        hash: map.hash,
+        errors: this.mapReport.errors,
+        roomCount: this.mapReport.roomCount,
+        reachableRoomCount: this.mapReport.reachableRoomCount
+      }, `Map has ${this.mapReport.errors.length} errors, not operating act with it`);
+      return false;
+    }
+    this.logger.info({
+      hash: map.hash,
+      roomCount: this.mapReport.roomCount,
+      reachableRoomCount: this.mapReport.reachableRoomCount,
+      reachableGoalRoomIds: this.mapReport.reachableGoalRoomIds,
+      warnings: this.mapReport.warnings.length
+    }, "Map is valid");
+
+    // Process the flat array of rooms into room ID -> Room struct mapping
+    this.processMapRooms(map.rooms);
+    this.acceptedMap = map;
+    this.logger.info(`Processed ${this.roomMap.size} rooms from map`);
+    return true;
+  }
+
+  /**
+   * Looks up the season name and act index the RAF API and directory map sources lay maps out by
+   */
+  private async getSeasonInfo(): Promise<{ seasonName: string; actIndex: string } | undefined> {
+    // Query GraphQL to get season name and act index for this act
+    const graphqlClient = createGraphQLClient({ GRAPHQL_URL: this.config.graphqlUrl });
+    
+    // First get the seasonAct to find the season and act index
+    const seasonActQuery = `
+      query GetSeasonActInfo($actAddress: String!) {
+        seasonActs(where: { actAddress: $actAddress }) {
+          items {
+            seasonAddress
+            actIndex
+            actAddress
+          }
+        }
+      }
+    `;
+    
+    const seasonActResult = await graphqlClient.query<{ seasonActs: { items: any[] } }>(seasonActQuery, {
+      actAddress: this.config.actAddress.toLowerCase()
+    });
+
+    if (!seasonActResult.seasonActs.items || seasonActResult.seasonActs.items.length === 0) {
+      this.logger.error(`SeasonAct not found in GraphQL for address ${this.config.actAddress}`);
+      return undefined;
+    }
+
+    const seasonActInfo = seasonActResult.seasonActs.items[0];
+    const actIndex = seasonActInfo.actIndex;
+    
+    // Now get the season name
+    const seasonQuery = `
+      query GetSeasonInfo($seasonAddress: String!) {
+        seasons(where: { address: $seasonAddress }) {
+          items {
+            address
+            name
+          }
+        }
+      }
+    `;
+    
+    const seasonResult = await graphqlClient.query<{ seasons: { items: any[] } }>(seasonQuery, {
+      seasonAddress: seasonActInfo.seasonAddress.toLowerCase()
+    });
+
+    if (!seasonResult.seasons.items || seasonResult.seasons.items.length === 0) {
+      this.logger.error(`Season not found in GraphQL for address ${seasonActInfo.seasonAddress}`);
+      return undefined;
+    }
+
+    const seasonName = seasonResult.seasons.items[0].name;
+    
+    this.logger.info(`Act info: season=${seasonName}, actIndex=${actIndex}`);
+    return { seasonName, actIndex };
+  }
+
   private processMapRooms(mapRooms: MapRoom[]): void {
+    // Built aside and swapped in at once, so parties never see half of a map
+    const roomMap = new Map<number, RoomInternal>();
+
     // Process each room in the flat array
     for (const mapRoom of mapRooms) {
-      // roomType is already a number: 0=NULL, 1=BATTLE, 2=GOAL
+      // The room type's handler parses its roomData, validation already refused unknown types
       const roomTypeNum = mapRoom.roomType;
-      
-      // Extract monsterIndex1 from roomData for BATTLE rooms
-      const monsterIndex = mapRoom.roomData?.monsterIndex1 ?? 0;
+      const handler = getRoomTypeHandler(roomTypeNum);
+      if (!handler) {
+        throw new Error(`Room ${mapRoom.id} has unknown room type ${roomTypeNum}`);
+      }
+      const data = handler.parseRoomData(mapRoom.roomData);
       
       // Ensure nextRooms array is exactly 6 elements
       if (!mapRoom.nextRooms) {
@@ -234,18 +402,17 @@ export class ActOperator {
       // Create the internal room struct
       const room: RoomInternal = {
         roomType: roomTypeNum,
-        monsterIndex1: monsterIndex,
-        monsterIndex2: 0, // Not used in current map format
-        monsterIndex3: 0, // Not used in current map format
+        handler,
+        data,
         nextRooms: nextRooms
       };
       
       // Store the room by its ID
-      this.roomMap.set(mapRoom.id, room);
+      roomMap.set(mapRoom.id, room);
       
-      const roomTypeStr = roomTypeNum === 0 ? 'NULL' : roomTypeNum === 1 ? 'BATTLE' : roomTypeNum === 2 ? 'GOAL' : 'UNKNOWN';
-      this.logger.info(`Stored room: id=${mapRoom.id}, type=${roomTypeStr}(${roomTypeNum}), monster=${monsterIndex}, nextRooms=[${nextRooms.filter(r => r > 0).join(',')}]`);
+      this.logger.info(`Stored room: id=${mapRoom.id}, type=${handler.name}(${roomTypeNum}), data=${handler.describeRoomData(data)}, nextRooms=[${nextRooms.filter(r => r > 0).join(',')}]`);
     }
+    this.roomMap = roomMap;
   }
 
 
@@ -260,16 +427,28 @@ export class ActOperator {
     this.logger.info("Starting...");
 
     // Fetch and process the map data
-    await this.fetchAndProcessMap();
-    
-    // Log the state of roomMap after fetching
-    this.logger.info(`Map fetching complete. roomMap size: ${this.roomMap.size}`);
+    await this.refreshMap();
+
+    if (this.mapRejectedAt) {
+      this.logger.error("Refusing to operate act without a map source");
+      this.isRunning = false;
+      return;
+    }
+
+    const mapRefreshIntervalMs = this.config.mapRefreshIntervalMs ?? 300000;
     if (this.roomMap.size === 0) {
-      this.logger.error("WARNING: roomMap is empty after fetchAndProcessMap!");
+      this.logger.error(`No valid map yet, parties wait until one is loaded. Retrying every ${mapRefreshIntervalMs / 1000}s`);
     } else {
+      // Log the state of roomMap after fetching
+      this.logger.info(`Map fetching complete. roomMap size: ${this.roomMap.size}`);
       this.logger.info(`Room IDs in map: ${Array.from(this.roomMap.keys()).join(', ')}`);
     }
 
+    // Check the map for changes in the background
+    this.mapRefreshIntervalId = setInterval(() => {
+      this.refreshMap();
+    }, mapRefreshIntervalMs);
+
     // Subscribe to events
     this.subscribeToEvents();
 
@@ -280,6 +459,14 @@ export class ActOperator {
     this.intervalId = setInterval(() => {
       this.performPeriodicCheck();
     }, 5000);
+
+    // Housekeeping reports, or in enforce mode applies, its rules right away and then periodically
+    if ((this.config.housekeepingMode ?? 'dryRun') !== 'off') {
+      this.performHousekeeping();
+      this.housekeepingIntervalId = setInterval(() => {
+        this.performHousekeeping();
+      }, this.config.housekeepingIntervalMs ?? 600000);
+    }
   }
 
 
@@ -409,6 +596,49 @@ export class ActOperator {
       clearInterval(this.intervalId);
       this.intervalId = undefined;
     }
+    if (this.mapRefreshIntervalId) {
+      clearInterval(this.mapRefreshIntervalId);
+      this.mapRefreshIntervalId = undefined;
+    }
+    if (this.housekeepingIntervalId) {
+      clearInterval(this.housekeepingIntervalId);
+      this.housekeepingIntervalId = undefined;
+    }
+  }
+
+  /**
+   * @returns The validation report of the last validated map, undefined until one was loaded
+   */
+  getMapReport(): MapValidationReport | undefined {
+    return this.mapReport;
+  }
+
+  /**
+   * @returns When the map source configuration was rejected, undefined when it was not
+   */
+  getMapRejectedAt(): number | undefined {
+    return this.mapRejectedAt;
+  }
+
+  /**
+   * @returns Hash of the map the act is operated with, undefined until one is accepted
+   */
+  getMapHash(): string | undefined {
+    return this.acceptedMap?.hash;
+  }
+
+  /**
+   * @returns Hash of the last map rejected for changing mid-act
+   */
+  getRejectedMapHash(): string | undefined {
+    return this.rejectedMapHash;
+  }
+
+  /**
+   * @returns The report of the last housekeeping run, listing what was planned, sent or failed
+   */
+  getHousekeepingReport(): HousekeepingReport | undefined {
+    return this.housekeepingReport;
   }
 
   isAlive(): boolean {
@@ -424,6 +654,10 @@ export class ActOperator {
 
   private async performPeriodicCheck() {
     this.lastCheckTime = Date.now();
+    if (this.roomMap.size === 0) {
+      this.logger.debug("Waiting for a valid map before checking parties");
+      return;
+    }
     
     try {
       const hasActiveParties = await this.checkAllPartiesProgress();
@@ -517,6 +751,12 @@ export class ActOperator {
 
   private async checkParty(partyId: bigint, partyGraphQLData: Party): Promise<void> {
     const partyKey = partyId.toString();
+
+    // Parties wait until a valid map is loaded
+    if (this.roomMap.size === 0) {
+      this.logger.info(`No valid map yet, party ${partyId} waits`);
+      return;
+    }
     
     // Check if party is already being processed
     if (this.processingParties.has(partyKey)) {
@@ -616,20 +856,206 @@ export class ActOperator {
     }
   }
 
-  private encodeRoomForContract(roomInternal: RoomInternal): Room {
-    // Encode BattleRoomData struct as bytes
-    let roomData: `0x${string}`;
-    
-    if (roomInternal.roomType === 1) { // BATTLE room
-      // Encode BattleRoomData { uint16 monsterIndex1 }
-      roomData = encodeAbiParameters(
-        [{ type: 'uint16', name: 'monsterIndex1' }],
-        [roomInternal.monsterIndex1]
-      ) as `0x${string}`;
-    } else {
-      // For non-battle rooms, use empty bytes
-      roomData = '0x' as `0x${string}`;
+  /**
+   * Applies the housekeeping rules to the act's parties. In dryRun mode the calls they plan are
+   * only reported, in enforce mode they are forwarded one after another.
+   */
+  private async performHousekeeping(): Promise<void> {
+    const mode = this.config.housekeepingMode ?? 'dryRun';
+    if (mode === 'off' || this.isHousekeeping) return;
+    this.isHousekeeping = true;
+
+    try {
+      const config: HousekeepingConfig = {
+        rules: this.config.housekeepingRules ?? DEFAULT_HOUSEKEEPING_CONFIG.rules,
+        staleCreatedMs: this.config.staleCreatedPartyMs ?? DEFAULT_HOUSEKEEPING_CONFIG.staleCreatedMs,
+        goalGraceMs: this.config.goalGraceMs ?? DEFAULT_HOUSEKEEPING_CONFIG.goalGraceMs
+      };
+      const parties = await this.getHousekeepingSnapshots(config.rules);
+      const actions = planHousekeeping(parties, config, Date.now());
+
+      const results: HousekeepingActionResult[] = [];
+      for (const action of actions) {
+        if (mode !== 'enforce') {
+          results.push({ ...action, outcome: 'planned' });
+          this.logger.info({ rule: action.rule, partyId: action.partyId, roomIds: action.roomIds }, `Dry run, would call ${action.functionName}: ${action.reason}`);
+          continue;
+        }
+        try {
+          const hash = await this.forwardHousekeepingCall(action);
+          if (action.rule === 'cleanupBattles') {
+            await this.verifyCleanup(action);
+          }
+          results.push({ ...action, outcome: 'sent', hash });
+          this.logger.info({ rule: action.rule, partyId: action.partyId, roomIds: action.roomIds, hash }, `Called ${action.functionName}: ${action.reason}`);
+        } catch (error: any) {
+          results.push({ ...action, outcome: 'failed', error: error.message });
+          this.logger.error({ rule: action.rule, partyId: action.partyId, error: error.message }, `Housekeeping ${action.functionName} failed`);
+        }
+      }
+
+      this.housekeepingReport = { mode, generatedAt: Date.now(), partiesChecked: parties.length, actions: results };
+      this.logger.info({
+        mode,
+        partiesChecked: parties.length,
+        planned: results.filter(result => result.outcome === 'planned').length,
+        sent: results.filter(result => result.outcome === 'sent').length,
+        failed: results.filter(result => result.outcome === 'failed').length
+      }, "Housekeeping complete");
+    } catch (error: any) {
+      this.logger.error({ error: error.message, stack: error.stack }, "Error in housekeeping:");
+    } finally {
+      this.isHousekeeping = false;
+    }
+  }
+
+  /**
+   * Collects what the enabled housekeeping rules need to know about the act's parties. Chain reads
+   * are batched into one multicall per rule, and at most housekeepingMaxParties ended parties are
+   * read per run, the next run continuing where this one stopped.
+   */
+  private async getHousekeepingSnapshots(rules: HousekeepingRule[]): Promise<PartySnapshot[]> {
+    const graphqlClient = createGraphQLClient({ GRAPHQL_URL: this.config.graphqlUrl });
+    const publicClient = this.getHousekeepingPublicClient();
+    const actAddress = this.config.actAddress as `0x${string}`;
+    const getParties = (state: PartyState) => queryAllPages<{ items: Party[] }>(graphqlClient, GraphQLQueries.getPartiesByActWithState, {
+      actAddress: actAddress.toLowerCase(),
+      state: state.toString()
+    });
+    const snapshots: PartySnapshot[] = [];
+
+    if (rules.includes('cancelStaleParties')) {
+      for (const party of await getParties(PartyState.CREATED)) {
+        snapshots.push({ partyId: party.partyId, state: PartyState.CREATED, createdAt: Number(party.createdAt) });
+      }
+    }
+
+    if (rules.includes('endGoalParties')) {
+      const inGoalRooms = (await getParties(PartyState.IN_ROOM)).filter(party => this.roomMap.get(Number(party.roomId))?.handler.isGoal);
+      const completed = await readCompletedRooms(publicClient, actAddress, inGoalRooms.map(party => party.partyId));
+      for (const party of inGoalRooms) {
+        if (!completed.has(party.partyId)) continue;
+        if (!this.goalCompletedSince.has(party.partyId)) {
+          this.goalCompletedSince.set(party.partyId, Date.now());
+        }
+        snapshots.push({
+          partyId: party.partyId,
+          state: PartyState.IN_ROOM,
+          createdAt: Number(party.createdAt),
+          goalCompletedSince: this.goalCompletedSince.get(party.partyId)
+        });
+      }
+      // Parties that left their goal room start over when they complete another one
+      for (const partyId of this.goalCompletedSince.keys()) {
+        if (!completed.has(partyId)) this.goalCompletedSince.delete(partyId);
+      }
+    }
+
+    if (rules.includes('cleanupBattles') && this.battleRoomAddress && !this.cleanupBattlesUnsupported) {
+      const ended: Party[] = [];
+      for (const state of [PartyState.ESCAPED, PartyState.CANCELLED]) {
+        for (const party of await getParties(state)) {
+          const fought = (party.roomBattles?.items.length ?? 0) > 0;
+          if (!fought) this.settledParties.add(party.partyId);
+          if (!this.settledParties.has(party.partyId)) ended.push(party);
+        }
+      }
+
+      const maxParties = this.config.housekeepingMaxParties ?? 100;
+      const start = this.housekeepingCursor < ended.length ? this.housekeepingCursor : 0;
+      const batch = ended.slice(start, start + maxParties);
+      this.housekeepingCursor = start + batch.length;
+
+      const battleRooms = await readPartyBattleRooms(publicClient, this.battleRoomAddress as `0x${string}`, actAddress, batch.map(party => ({
+        partyId: party.partyId,
+        roomIds: Array.from(new Set(party.roomBattles!.items.map(roomBattle => Number(roomBattle.roomId))))
+      })));
+      for (const party of batch) {
+        const rooms = battleRooms.get(party.partyId);
+        if (!rooms) continue;
+        if (!rooms.holdsBattles) {
+          this.settledParties.add(party.partyId);
+          continue;
+        }
+        snapshots.push({ partyId: party.partyId, state: Number(party.state), createdAt: Number(party.createdAt), uncleanedRoomIds: rooms.uncleanedRoomIds });
+      }
+      await this.settledPartyStore.write(actAddress, this.settledParties);
+    }
+
+    return snapshots;
+  }
+
+  /**
+   * Checks that cleanupParty freed the party's rooms. cleanupParty takes no act, so the BattleRoom may
+   * clean up for its caller only, which is the Act contract and not the operator.
+   * @throws When the BattleRoom still holds battles in the rooms
+   */
+  private async verifyCleanup(action: HousekeepingAction): Promise<void> {
+    const rooms = await readPartyBattleRooms(
+      this.getHousekeepingPublicClient(),
+      this.battleRoomAddress as `0x${string}`,
+      this.config.actAddress as `0x${string}`,
+      [{ partyId: action.partyId, roomIds: action.roomIds ?? [] }]
+    );
+    const partyRooms = rooms.get(action.partyId);
+    if (!partyRooms) {
+      throw new Error(`Could not read the battles of party ${action.partyId} after cleanupParty`);
+    }
+    if (partyRooms.holdsBattles) {
+      this.cleanupBattlesUnsupported = true;
+      throw new Error(`cleanupParty left the battles of party ${action.partyId} in place, the BattleRoom does not clean up for the operator. cleanupBattles is off for this act until restart`);
+    }
+  }
+
+  private getHousekeepingPublicClient(): any {
+    return createPublicClient({
+      chain: arbitrum,
+      transport: createAuthenticatedHttpTransport(this.config.ethRpcUrl, { ETH_RPC_URL: this.config.ethRpcUrl })
+    });
+  }
+
+  /**
+   * Forwards a housekeeping call and waits for it to be mined
+   * @returns The transaction hash
+   * @throws When forwarding fails or the call reverts
+   */
+  private async forwardHousekeepingCall(action: HousekeepingAction): Promise<string> {
+    const to = (action.contract === 'act' ? this.config.actAddress : this.battleRoomAddress) as `0x${string}`;
+    const data = action.functionName === 'cleanupParty'
+      ? encodeFunctionData({ abi: BattleRoomABI as Abi, functionName: 'cleanupParty', args: [BigInt(action.partyId), action.roomIds ?? []] })
+      : encodeFunctionData({ abi: ActABI as Abi, functionName: action.functionName, args: [BigInt(action.partyId)] });
+
+    const account = privateKeyToAccount(this.config.operatorPrivateKey as `0x${string}`);
+    const transport = createAuthenticatedHttpTransport(this.config.ethRpcUrl, { ETH_RPC_URL: this.config.ethRpcUrl });
+    const walletClient = createWalletClient({ account, chain: arbitrum, transport });
+    const hash = await forwardTransaction(
+      {
+        to,
+        data,
+        rpcUrl: this.config.ethRpcUrl,
+        relayerUrl: this.config.relayerUrl,
+        env: { ETH_RPC_URL: this.config.ethRpcUrl } as any
+      },
+      walletClient,
+      this.config.erc2771ForwarderAddress as `0x${string}`
+    );
+    if (!hash) {
+      throw new Error(`No transaction hash received for ${action.functionName}`);
     }
+
+    const publicClient = createPublicClient({ chain: arbitrum, transport });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== 'success') {
+      throw new Error(`${action.functionName} reverted in ${hash}`);
+    }
+    return hash;
+  }
+
+  private encodeRoomForContract(roomInternal: RoomInternal): Room {
+    // The room type's handler encodes roomData as the contracts decode it, e.g. BattleRoomData for BATTLE rooms
+    const roomData = roomInternal.handler.encodeRoomData(roomInternal.data, {
+      battleRoomDataLayout: this.battleRoomDataLayout
+    });
     
     return {
       roomType: roomInternal.roomType,
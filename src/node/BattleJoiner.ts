@@ -0,0 +1,269 @@
+import { createPublicClient, createWalletClient, encodeFunctionData, type Abi } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { arbitrum } from "viem/chains";
+import BattleABI from "../contracts/abis/Battle.json";
+import { forwardTransaction } from "../forwarder/forwardTransaction";
+import { createGraphQLClient, GraphQLQueries, queryAllPages } from "../utils/graphql";
+import { createAuthenticatedHttpTransport } from "../utils/rpc";
+import { getBattleRules } from "../utils/battleRules";
+import { getJoinLocationCandidates, type BattleLocation, type LocatedPlayer } from "../utils/battleLocations";
+import { encodePlayerStats, PlayerStatType } from "../utils/playerStats";
+import { createLogger } from "../utils/logger";
+import type { Logger } from "pino";
+
+export interface AutoJoinCharacter {
+  character: string; // Character contract address
+  teamA: boolean;
+}
+
+export interface BattleJoinerConfig {
+  ethRpcUrl: string;
+  graphqlUrl: string;
+  operatorPrivateKey: string;
+  relayerUrl: string;
+  erc2771ForwarderAddress: string;
+  characters: AutoJoinCharacter[];
+  deckId?: bigint; // Deck joined with. Default: 0
+  health?: number; // Starting health. Default: 30
+  energy?: number; // Starting energy. Default: 3
+  deadlineMarginSeconds?: number; // Skip battles whose join deadline is closer than this. Default: 30
+}
+
+interface OpenBattlePlayer {
+  playerId: string;
+  teamA: boolean;
+  character: { id: string } | null;
+}
+
+interface OpenBattle {
+  id: string;
+  players: { items: OpenBattlePlayer[] } | null;
+}
+
+// Join errors after which another location may still work
+const LOCATION_ERRORS = [
+  'LocationIsOccupiedError',
+  'StartingLocationMustBeBesideTeammateError',
+  'FirstPlayerMustBeAtStartingLocationError',
+  'LocationOutOfBoundsError'
+];
+
+// Join errors after which the battle cannot be joined at all
+const CLOSED_ERRORS = ['GameHasStartedError', 'JoinDeadlineHasPassedError'];
+
+const MAX_JOIN_ATTEMPTS = 5;
+
+/**
+ * Joins configured characters to battles that are still waiting for players.
+ *
+ * Each character waits in at most one lobby at a time. Locations follow the battle's joining rules
+ * (see getJoinLocationCandidates) and every join is simulated before it is forwarded, so a location
+ * taken since the indexer last updated is skipped without spending a relayed transaction.
+ */
+export class BattleJoiner {
+  private config: BattleJoinerConfig;
+  private logger: Logger;
+  // Character -> battle joined, until the indexer reports the player
+  private pendingJoins: Map<string, string> = new Map();
+
+  constructor(config: BattleJoinerConfig) {
+    this.config = config;
+    this.logger = createLogger({ operator: 'BattleJoiner' });
+  }
+
+  async checkOpenBattles(): Promise<void> {
+    if (this.config.characters.length === 0) return;
+
+    const graphqlClient = createGraphQLClient({ GRAPHQL_URL: this.config.graphqlUrl });
+    const battles = await queryAllPages<{ items: OpenBattle[] }>(graphqlClient, GraphQLQueries.getOpenBattles);
+
+    // A character already in a lobby waits for that battle to start
+    const waitingCharacters = new Set<string>();
+    for (const battle of battles) {
+      for (const player of battle.players?.items || []) {
+        if (player.character) waitingCharacters.add(player.character.id.toLowerCase());
+      }
+    }
+    const openBattleIds = new Set(battles.map(battle => battle.id.toLowerCase()));
+    for (const [character, battleId] of this.pendingJoins) {
+      if (waitingCharacters.has(character) || !openBattleIds.has(battleId)) {
+        this.pendingJoins.delete(character);
+      }
+    }
+
+    const idleCharacters = this.config.characters.filter(({ character }) => {
+      const key = character.toLowerCase();
+      return !waitingCharacters.has(key) && !this.pendingJoins.has(key);
+    });
+    if (idleCharacters.length === 0 || battles.length === 0) {
+      this.logger.debug({ battles: battles.length, idleCharacters: idleCharacters.length }, 'Nothing to join');
+      return;
+    }
+
+    const publicClient = createPublicClient({
+      chain: arbitrum,
+      transport: createAuthenticatedHttpTransport(this.config.ethRpcUrl, { ETH_RPC_URL: this.config.ethRpcUrl })
+    });
+    const joinable = await this.getJoinableBattles(publicClient, battles);
+    this.logger.info({ openBattles: battles.length, joinable: joinable.length, idleCharacters: idleCharacters.length }, 'Checked open battles');
+
+    for (const battle of joinable) {
+      for (const autoJoin of idleCharacters) {
+        const key = autoJoin.character.toLowerCase();
+        if (this.pendingJoins.has(key)) continue;
+        try {
+          const joined = await this.joinBattle(publicClient, battle, autoJoin);
+          if (joined) {
+            this.pendingJoins.set(key, battle.id.toLowerCase());
+            // Later joins to the same battle must see this player
+            battle.players = { items: [...(battle.players?.items || []), joined] };
+          }
+        } catch (error: any) {
+          this.logger.error({ error: error?.message || error, stack: error?.stack, battle: battle.id, character: autoJoin.character }, 'Error joining battle');
+        }
+      }
+    }
+  }
+
+  private async getJoinableBattles(publicClient: any, battles: OpenBattle[]): Promise<OpenBattle[]> {
+    const calls = battles.flatMap(battle => [
+      { address: battle.id as `0x${string}`, abi: BattleABI as Abi, functionName: 'isWaitingForPlayers' },
+      { address: battle.id as `0x${string}`, abi: BattleABI as Abi, functionName: 'joinDeadlineAt' }
+    ]);
+    const results: any[] = await publicClient.multicall({ contracts: calls, allowFailure: true });
+    const latestJoinAt = BigInt(Math.floor(Date.now() / 1000) + (this.config.deadlineMarginSeconds ?? 30));
+
+    return battles.filter((battle, index) => {
+      const [waiting, deadline] = [results[index * 2], results[index * 2 + 1]];
+      if (waiting.status !== 'success' || deadline.status !== 'success') {
+        this.logger.warn({ battle: battle.id }, 'Could not read join state');
+        return false;
+      }
+      // A deadline of 0 means the battle waits for players indefinitely
+      const deadlineAt = deadline.result as bigint;
+      return waiting.result === true && (deadlineAt === 0n || deadlineAt > latestJoinAt);
+    });
+  }
+
+  /**
+   * Joins one character to a battle, trying each legal location in turn
+   * @returns The new player, undefined when the character could not join
+   */
+  private async joinBattle(publicClient: any, battle: OpenBattle, autoJoin: AutoJoinCharacter): Promise<OpenBattlePlayer | undefined> {
+    const battleAddress = battle.id as `0x${string}`;
+    const rules = await getBattleRules(publicClient, battleAddress);
+    const existingPlayers = battle.players?.items || [];
+
+    const teamSize = existingPlayers.filter(player => player.teamA === autoJoin.teamA).length;
+    if (rules.maxTeamSize > 0n && BigInt(teamSize) >= rules.maxTeamSize) {
+      this.logger.debug({ battle: battle.id, teamA: autoJoin.teamA }, 'Team is full');
+      return undefined;
+    }
+
+    const players = await this.locatePlayers(publicClient, battleAddress, existingPlayers);
+    const candidates = getJoinLocationCandidates(autoJoin.teamA, rules.startingLocation, players);
+    let playerId = existingPlayers.reduce((max, player) => BigInt(player.playerId) > max ? BigInt(player.playerId) : max, 0n) + 1n;
+
+    const account = privateKeyToAccount(this.config.operatorPrivateKey as `0x${string}`);
+    let attempts = 0;
+    for (let index = 0; index < candidates.length && attempts < MAX_JOIN_ATTEMPTS; attempts++) {
+      const location = candidates[index];
+      const args = this.getJoinArgs(playerId, location, autoJoin);
+      try {
+        await publicClient.simulateContract({
+          account: account.address,
+          address: battleAddress,
+          abi: BattleABI as Abi,
+          functionName: 'join',
+          args
+        });
+      } catch (error: any) {
+        const message: string = error?.message || '';
+        if (message.includes('PlayerIdAlreadyJoined')) {
+          // The indexer has not seen the latest player yet
+          playerId++;
+          continue;
+        }
+        if (LOCATION_ERRORS.some(name => message.includes(name))) {
+          this.logger.info({ battle: battle.id, location: { x: location.x, y: location.y.toString() }, error: message.substring(0, 100) }, 'Location not available, trying the next one');
+          index++;
+          continue;
+        }
+        if (CLOSED_ERRORS.some(name => message.includes(name))) {
+          this.logger.info({ battle: battle.id }, 'Battle is no longer open');
+          return undefined;
+        }
+        throw error;
+      }
+
+      const walletClient = createWalletClient({
+        account,
+        chain: arbitrum,
+        transport: createAuthenticatedHttpTransport(this.config.ethRpcUrl, { ETH_RPC_URL: this.config.ethRpcUrl })
+      });
+      const hash = await forwardTransaction(
+        {
+          to: battleAddress,
+          data: encodeFunctionData({ abi: BattleABI as Abi, functionName: 'join', args }),
+          rpcUrl: this.config.ethRpcUrl,
+          relayerUrl: this.config.relayerUrl,
+          env: { ETH_RPC_URL: this.config.ethRpcUrl } as any
+        },
+        walletClient,
+        this.config.erc2771ForwarderAddress as `0x${string}`
+      );
+      await publicClient.waitForTransactionReceipt({ hash });
+
+      this.logger.info({
+        battle: battle.id,
+        character: autoJoin.character,
+        playerId: playerId.toString(),
+        teamA: autoJoin.teamA,
+        location: { x: location.x, y: location.y.toString() },
+        tx: hash
+      }, 'Joined battle');
+      return { playerId: playerId.toString(), teamA: autoJoin.teamA, character: { id: autoJoin.character } };
+    }
+
+    this.logger.info({ battle: battle.id, teamA: autoJoin.teamA, candidates: candidates.length }, 'No free location to join at');
+    return undefined;
+  }
+
+  private async locatePlayers(publicClient: any, battleAddress: `0x${string}`, players: OpenBattlePlayer[]): Promise<LocatedPlayer[]> {
+    if (players.length === 0) return [];
+
+    const locations = await publicClient.multicall({
+      allowFailure: false,
+      contracts: players.map(player => ({
+        address: battleAddress,
+        abi: BattleABI as Abi,
+        functionName: 'playerLocations',
+        args: [BigInt(player.playerId)]
+      }))
+    }) as (readonly [bigint, bigint])[];
+
+    return players.map((player, index) => ({
+      teamA: player.teamA,
+      x: locations[index][0],
+      y: locations[index][1]
+    }));
+  }
+
+  private getJoinArgs(playerId: bigint, location: BattleLocation, autoJoin: AutoJoinCharacter) {
+    const stats: number[] = [];
+    stats[PlayerStatType.HEALTH] = this.config.health ?? 30;
+    stats[PlayerStatType.ENERGY] = this.config.energy ?? 3;
+    return [
+      playerId,
+      location.x,
+      location.y,
+      autoJoin.character as `0x${string}`,
+      this.config.deckId ?? 0n,
+      {
+        teamA: autoJoin.teamA,
+        turn: 0,
+        stats: encodePlayerStats(stats)
+      }
+    ] as const;
+  }
+}
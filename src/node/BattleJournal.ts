@@ -0,0 +1,309 @@
+import * as fs from "fs";
+import * as path from "path";
+import BattleABI from "../contracts/abis/Battle.json";
+import { EventAggregator } from "./EventAggregator";
+import { createLogger } from "../utils/logger";
+import { findDeploymentBlock, getContractEventsInChunks } from "../utils/rpc";
+import type { Logger } from "pino";
+
+export interface BattleJournalConfig {
+  directory: string; // One <battleAddress>.jsonl timeline per battle is written here
+  eventAggregator: EventAggregator;
+  publicClient?: any; // Backfills the events missed while the battle was not journaled when set
+}
+
+/**
+ * Something the bot decided to do in a battle
+ */
+export interface JournalDecision {
+  operator: 'CharacterOperator' | 'BattleOperator';
+  action: 'updatePlayerHand' | 'playCard' | 'endTurn' | 'startGame' | 'nextTurn' | 'commitRandomness';
+  playerId?: string;
+  turn?: bigint;
+  // Why and how, e.g. the card, its target and the strategy that picked it
+  details?: Record<string, unknown>;
+  transactionHash?: string;
+  error?: string;
+}
+
+export type JournalEntry =
+  | {
+      type: 'event';
+      seq: number;
+      at: number;
+      eventName: string;
+      args: Record<string, unknown>;
+      blockNumber?: string;
+      logIndex?: number;
+      transactionHash?: string;
+      // The decision that sent this event's transaction, when it was the bot's
+      decisionSeq?: number;
+      // Read from the chain when the battle was tracked rather than received live
+      backfilled?: boolean;
+    }
+  | ({
+      type: 'decision';
+      seq: number;
+      at: number;
+      // Events already journaled from this decision's transaction
+      eventSeqs?: number[];
+    } & Omit<JournalDecision, 'turn'> & { turn?: string });
+
+export const JOURNAL_EVENTS = [
+  'GameStartedEvent',
+  'PlayerJoinedEvent',
+  'PlayerActionEvent',
+  'PlayerEliminatedEvent',
+  'NextTurnEvent',
+  'GameEndedEvent'
+] as const;
+
+interface BattleTimeline {
+  seq: number;
+  unsubscribes: (() => void)[];
+  // Transaction hash -> seq of the decision or events seen for it
+  decisionsByTx: Map<string, number>;
+  eventsByTx: Map<string, number[]>;
+  // `${blockNumber}:${logIndex}` of every journaled event, so backfilled and live events are written once
+  seenLogs: Set<string>;
+  lastBlock?: bigint;
+  // Live events arriving during a backfill wait here so the timeline stays in chain order
+  pending?: { eventName: string; log: any }[];
+  backfill?: Promise<void>;
+  // Appends are chained so entries land in seq order
+  writes: Promise<void>;
+}
+
+// Event args hold bigints and nested structs, neither of which JSON.stringify handles as we want
+function toJson(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return value.map(toJson);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toJson(entry)]));
+  }
+  return value;
+}
+
+/**
+ * Records the timeline of every operated battle.
+ *
+ * Lifecycle events and the bot's own decisions are appended to one JSONL file per battle, in the
+ * order they are observed. An event whose transaction was sent by the bot points at the decision
+ * behind it, and a decision journaled after its events lists them, so disputes can be traced from
+ * either side.
+ */
+export class BattleJournal {
+  private config: BattleJournalConfig;
+  private timelines: Map<string, BattleTimeline> = new Map();
+  private logger: Logger;
+
+  constructor(config: BattleJournalConfig) {
+    this.config = config;
+    this.logger = createLogger({ operator: 'BattleJournal' });
+    fs.mkdirSync(config.directory, { recursive: true });
+  }
+
+  /**
+   * Starts journaling a battle's events, does nothing if it is already journaled
+   */
+  track(battleAddress: string) {
+    const key = battleAddress.toLowerCase();
+    if (this.timelines.get(key)?.unsubscribes.length) return;
+
+    const timeline = this.getTimeline(key);
+    if (this.config.publicClient) {
+      timeline.pending = [];
+    }
+    timeline.unsubscribes = JOURNAL_EVENTS.map(eventName => this.config.eventAggregator.subscribe({
+      eventName,
+      abi: BattleABI as any[],
+      address: battleAddress,
+      onEvent: (logs: any[]) => {
+        for (const log of logs) {
+          if (timeline.pending) {
+            timeline.pending.push({ eventName, log });
+          } else {
+            this.recordEvent(key, eventName, log);
+          }
+        }
+      }
+    }));
+    this.logger.info({ battleAddress: key, file: this.getFilePath(key) }, 'Journaling battle');
+
+    if (timeline.pending) {
+      timeline.backfill = this.backfill(key, timeline);
+    }
+  }
+
+  /**
+   * Waits until the events missed before a battle was tracked are journaled
+   */
+  async waitForBackfill(battleAddress: string): Promise<void> {
+    await this.timelines.get(battleAddress.toLowerCase())?.backfill;
+  }
+
+  /**
+   * Stops journaling a battle once it has ended, already written entries are kept
+   */
+  untrack(battleAddress: string) {
+    const key = battleAddress.toLowerCase();
+    const timeline = this.timelines.get(key);
+    if (!timeline) return;
+    for (const unsubscribe of timeline.unsubscribes) {
+      unsubscribe();
+    }
+    timeline.unsubscribes = [];
+    // Forget the battle once its last entries are written
+    Promise.resolve(timeline.backfill).then(() => timeline.writes).then(() => {
+      if (this.timelines.get(key) === timeline && timeline.unsubscribes.length === 0) {
+        this.timelines.delete(key);
+      }
+    });
+  }
+
+  getTrackedCount(): number {
+    return Array.from(this.timelines.values()).filter(timeline => timeline.unsubscribes.length > 0).length;
+  }
+
+  recordEvent(battleAddress: string, eventName: string, log: any, backfilled = false) {
+    const timeline = this.getTimeline(battleAddress.toLowerCase());
+    if (log.blockNumber !== undefined && log.blockNumber !== null) {
+      const logKey = `${log.blockNumber}:${log.logIndex}`;
+      if (timeline.seenLogs.has(logKey)) return;
+      timeline.seenLogs.add(logKey);
+      const blockNumber = BigInt(log.blockNumber);
+      if (timeline.lastBlock === undefined || blockNumber > timeline.lastBlock) {
+        timeline.lastBlock = blockNumber;
+      }
+    }
+    const seq = ++timeline.seq;
+    const transactionHash: string | undefined = log.transactionHash?.toLowerCase();
+
+    if (transactionHash) {
+      timeline.eventsByTx.set(transactionHash, [...(timeline.eventsByTx.get(transactionHash) ?? []), seq]);
+    }
+    this.append(battleAddress, {
+      type: 'event',
+      seq,
+      at: Date.now(),
+      eventName,
+      args: toJson(log.args ?? {}) as Record<string, unknown>,
+      blockNumber: log.blockNumber?.toString(),
+      logIndex: log.logIndex ?? undefined,
+      transactionHash,
+      decisionSeq: transactionHash ? timeline.decisionsByTx.get(transactionHash) : undefined,
+      backfilled: backfilled || undefined
+    });
+  }
+
+  recordDecision(battleAddress: string, decision: JournalDecision) {
+    const timeline = this.getTimeline(battleAddress.toLowerCase());
+    const seq = ++timeline.seq;
+    const transactionHash = decision.transactionHash?.toLowerCase();
+
+    if (transactionHash) {
+      timeline.decisionsByTx.set(transactionHash, seq);
+    }
+    this.append(battleAddress, {
+      type: 'decision',
+      seq,
+      at: Date.now(),
+      ...decision,
+      turn: decision.turn?.toString(),
+      details: decision.details ? toJson(decision.details) as Record<string, unknown> : undefined,
+      transactionHash,
+      eventSeqs: transactionHash ? timeline.eventsByTx.get(transactionHash) : undefined
+    });
+  }
+
+  /**
+   * Waits for every pending write, e.g. before shutting down
+   */
+  async flush(): Promise<void> {
+    await Promise.all(Array.from(this.timelines.values()).map(async timeline => {
+      await timeline.backfill;
+      await timeline.writes;
+    }));
+  }
+
+  getFilePath(battleAddress: string): string {
+    return path.join(this.config.directory, `${battleAddress.toLowerCase()}.jsonl`);
+  }
+
+  private getTimeline(key: string): BattleTimeline {
+    let timeline = this.timelines.get(key);
+    if (!timeline) {
+      timeline = { seq: 0, unsubscribes: [], decisionsByTx: new Map(), eventsByTx: new Map(), seenLogs: new Set(), writes: Promise.resolve() };
+      this.readExisting(key, timeline);
+      this.timelines.set(key, timeline);
+    }
+    return timeline;
+  }
+
+  // Continue numbering after a restart instead of reusing seqs, and resume backfilling from the last journaled block
+  private readExisting(key: string, timeline: BattleTimeline) {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.getFilePath(key), 'utf8');
+    } catch {
+      return;
+    }
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const entry = JSON.parse(line) as JournalEntry;
+        timeline.seq = Math.max(timeline.seq, entry.seq ?? 0);
+        if (entry.type === 'event' && entry.blockNumber !== undefined) {
+          timeline.seenLogs.add(`${entry.blockNumber}:${entry.logIndex}`);
+          const blockNumber = BigInt(entry.blockNumber);
+          if (timeline.lastBlock === undefined || blockNumber > timeline.lastBlock) {
+            timeline.lastBlock = blockNumber;
+          }
+        }
+      } catch {
+        // A line cut short by a crash, later lines are still read
+      }
+    }
+  }
+
+  // Reads the battle's events from the last journaled block, or from its creation when nothing was
+  // journaled yet, then journals the live events that arrived meanwhile
+  private async backfill(key: string, timeline: BattleTimeline) {
+    const publicClient = this.config.publicClient;
+    try {
+      const latestBlock: bigint = await publicClient.getBlockNumber();
+      const fromBlock = timeline.lastBlock ?? await findDeploymentBlock(publicClient, key as `0x${string}`, latestBlock);
+      if (fromBlock !== undefined) {
+        const logs = await getContractEventsInChunks(publicClient, { address: key, abi: BattleABI }, fromBlock, latestBlock);
+        const missed = logs
+          .filter(log => (JOURNAL_EVENTS as readonly string[]).includes(log.eventName))
+          .sort((a, b) => a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : (a.blockNumber < b.blockNumber ? -1 : 1));
+        for (const log of missed) {
+          this.recordEvent(key, log.eventName, log, true);
+        }
+        if (missed.length) {
+          this.logger.info({ battleAddress: key, fromBlock: fromBlock.toString(), events: missed.length }, 'Backfilled battle events');
+        }
+      }
+    } catch (error: any) {
+      this.logger.warn({ error: error?.message || error, battleAddress: key }, 'Could not backfill battle events, the journal may miss events');
+    } finally {
+      const pending = timeline.pending ?? [];
+      timeline.pending = undefined;
+      for (const { eventName, log } of pending) {
+        this.recordEvent(key, eventName, log);
+      }
+    }
+  }
+
+  private append(battleAddress: string, entry: JournalEntry) {
+    const key = battleAddress.toLowerCase();
+    const timeline = this.getTimeline(key);
+    const line = `${JSON.stringify(entry)}\n`;
+    timeline.writes = timeline.writes
+      .then(() => fs.promises.appendFile(this.getFilePath(key), line))
+      .catch((error: any) => {
+        this.logger.error({ error: error?.message || error, battleAddress: key }, 'Could not write journal entry');
+      });
+  }
+}
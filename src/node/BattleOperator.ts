@@ -5,7 +5,11 @@ import BattleABI from "../contracts/abis/Battle.json";
 import { forwardTransaction } from "../forwarder/forwardTransaction";
 import { createGraphQLClient, GraphQLQueries, type Battle } from "../utils/graphql";
 import { createAuthenticatedHttpTransport } from "../utils/rpc";
+import { getBattleRules } from "../utils/battleRules";
+import { CryptoRandomnessProvider, type RandomnessProvider } from "../utils/randomness";
 import { EventAggregator } from "./EventAggregator";
+import type { BattleState, BattleStatePoller } from "./BattleStatePoller";
+import type { BattleJournal, JournalDecision } from "./BattleJournal";
 import { createLogger } from "../utils/logger";
 import type { Logger } from "pino";
 
@@ -19,18 +23,96 @@ export interface BattleOperatorConfig {
   erc2771ForwarderAddress: string;
   gameAddress: string;
   eventAggregator: EventAggregator;
+  randomness?: RandomnessProvider; // Source of startGame and nextTurn random numbers. Default: CSPRNG
+  statePoller?: BattleStatePoller; // Shared per-block state reads, the operator reads on its own without one
+  journal?: BattleJournal; // Records startGame and nextTurn calls next to the battle's events
+}
+
+// What a check needs to know, from the poller or the operator's own read
+type TurnCheckState = Pick<BattleState, 'isTurnOver' | 'gameState' | 'winner' | 'turnEndsAt' | 'turnTimerEnabled' | 'currentTurn'> & {
+  blockTimestamp?: bigint;
+};
+
+export interface GameStartState {
+  isSufficientPlayers: boolean;
+  joinDeadlineAt: bigint; // 0 when players may join indefinitely
+  teamACount: bigint;
+  teamBCount: bigint;
+  maxTeamSize: bigint; // 0 when teams are unbounded
+  nowSeconds: bigint; // Chain time
+}
+
+/**
+ * Decides whether a battle waiting for players should be started.
+ *
+ * A battle starts once both teams have enough players and either the join deadline has passed or
+ * both teams are full, so players still on their way are not locked out. Battles without a join
+ * deadline start as soon as they have enough players.
+ * @param state - The battle's lobby state
+ * @returns Whether to call startGame and why
+ */
+export function getGameStartDecision(state: GameStartState): { start: boolean; reason: string } {
+  if (!state.isSufficientPlayers) {
+    return { start: false, reason: 'waiting for players' };
+  }
+  if (state.joinDeadlineAt === 0n) {
+    return { start: true, reason: 'no join deadline' };
+  }
+  if (state.nowSeconds >= state.joinDeadlineAt) {
+    return { start: true, reason: 'join deadline passed' };
+  }
+  const teamsFull = state.maxTeamSize > 0n && state.teamACount >= state.maxTeamSize && state.teamBCount >= state.maxTeamSize;
+  if (teamsFull) {
+    return { start: true, reason: 'teams full' };
+  }
+  return { start: false, reason: 'waiting for the join deadline' };
+}
+
+// Longest gap between checks, catches turn ends and joins whose events were missed
+const SAFETY_CHECK_MS = 30000;
+// Delay before retrying after a failed read or transaction
+const RETRY_DELAY_MS = 5000;
+// Polled states older than this are read again, the poller may have fallen behind
+const POLLED_STATE_MAX_AGE_MS = 5000;
+// Block timestamps lag the wall clock slightly, so checks wait a little past the deadline
+const DEADLINE_GRACE_MS = 500;
+
+/**
+ * How long to wait before checking a chain deadline such as currentTurnEndsAt, capped by the safety interval
+ * @param deadline - Chain timestamp in seconds
+ * @param nowSeconds - Current chain time
+ * @returns Delay in milliseconds
+ */
+export function getDeadlineCheckDelayMs(deadline: bigint, nowSeconds: bigint): number {
+  const delayMs = Number(deadline - nowSeconds) * 1000 + DEADLINE_GRACE_MS;
+  return Math.min(Math.max(delayMs, DEADLINE_GRACE_MS), SAFETY_CHECK_MS);
 }
 
 export class BattleOperator {
   private config: BattleOperatorConfig;
-  private intervalId?: NodeJS.Timeout;
+  private checkTimeoutId?: NodeJS.Timeout;
   private isRunning: boolean = false;
   private lastCheckTime: number = 0;
-  private eventUnsubscribe?: () => void;
+  private isChecking: boolean = false;
+  private recheckRequested: boolean = false;
+  // Set by each check, how long until the next one
+  private nextCheckDelayMs: number = SAFETY_CHECK_MS;
+  // Set when a check failed, polled states wait for the retry instead of cutting the back-off short
+  private isRetrying: boolean = false;
+  private eventUnsubscribes: (() => void)[] = [];
   private logger: Logger;
+  private randomness: RandomnessProvider;
+  private publicClient?: any;
+  private polledState?: BattleState;
+  private polledStateReceivedAt: number = 0;
+  // Last polled state onBattleState compared against
+  private wakeState?: BattleState;
+  // Polled states read before our last transaction landed are stale
+  private minPolledBlock: bigint = 0n;
 
   constructor(config: BattleOperatorConfig) {
     this.config = config;
+    this.randomness = config.randomness ?? new CryptoRandomnessProvider();
     this.logger = createLogger({ operator: 'BattleOperator', battleAddress: config.gameAddress });
   }
 
@@ -44,8 +126,11 @@ export class BattleOperator {
     this.isRunning = true;
     this.logger.info("Starting...");
 
+    // Commit to the battle's random numbers before any of them is needed
+    this.randomness.open(this.config.gameAddress);
+
     // Subscribe to EndedTurnEvent
-    this.eventUnsubscribe = this.config.eventAggregator.subscribe({
+    this.eventUnsubscribes.push(this.config.eventAggregator.subscribe({
       eventName: "EndedTurnEvent",
       abi: BattleABI as any[],
       address: this.config.gameAddress,
@@ -61,17 +146,33 @@ export class BattleOperator {
           }, "EndedTurnEvent details");
         }
         // Trigger turn advancement check
-        this.checkAndAdvanceTurn();
+        this.requestCheck();
       }
-    });
+    }));
 
-    // Initial check
-    this.checkAndAdvanceTurn();
+    // A new player may be the one the battle was waiting for
+    this.eventUnsubscribes.push(this.config.eventAggregator.subscribe({
+      eventName: "PlayerJoinedEvent",
+      abi: BattleABI as any[],
+      address: this.config.gameAddress,
+      onEvent: async (logs: any[]) => {
+        for (const log of logs) {
+          this.logger.info({
+            playerId: log.args?.playerId?.toString(),
+            character: log.args?.character,
+            transactionHash: log.transactionHash
+          }, "PlayerJoinedEvent details");
+        }
+        this.requestCheck();
+      }
+    }));
 
-    // Set up periodic checks every second
-    this.intervalId = setInterval(() => {
-      this.checkAndAdvanceTurn();
-    }, 1000);
+    if (this.config.statePoller) {
+      this.eventUnsubscribes.push(this.config.statePoller.subscribe(this.config.gameAddress, state => this.onBattleState(state)));
+    }
+
+    // Initial check, later checks are scheduled from the turn deadline
+    this.requestCheck();
   }
 
   stop() {
@@ -83,15 +184,15 @@ export class BattleOperator {
     this.logger.info("Stopping...");
     this.isRunning = false;
 
-    if (this.intervalId) {
-      clearInterval(this.intervalId);
-      this.intervalId = undefined;
+    if (this.checkTimeoutId) {
+      clearTimeout(this.checkTimeoutId);
+      this.checkTimeoutId = undefined;
     }
 
-    if (this.eventUnsubscribe) {
-      this.eventUnsubscribe();
-      this.eventUnsubscribe = undefined;
+    for (const unsubscribe of this.eventUnsubscribes) {
+      unsubscribe();
     }
+    this.eventUnsubscribes = [];
   }
 
   isAlive(): boolean {
@@ -99,113 +200,52 @@ export class BattleOperator {
     
     const timeSinceLastCheck = Date.now() - this.lastCheckTime;
     
-    // Consider dead if no check in 30 seconds
-    if (timeSinceLastCheck > 30000) return false;
+    // Consider dead if two safety checks in a row were missed
+    if (timeSinceLastCheck > SAFETY_CHECK_MS * 2) return false;
     
     return true;
   }
 
-  private async checkAndAdvanceTurn() {
-    this.lastCheckTime = Date.now();
-    
-    const publicClient = createPublicClient({
-      chain: arbitrum,
-      transport: createAuthenticatedHttpTransport(this.config.ethRpcUrl, { ETH_RPC_URL: this.config.ethRpcUrl })
-    });
+  /**
+   * Runs a check now, or straight after the one in progress
+   */
+  private async requestCheck() {
+    if (!this.isRunning) return;
+    if (this.isChecking) {
+      this.recheckRequested = true;
+      return;
+    }
 
+    this.isChecking = true;
+    if (this.checkTimeoutId) {
+      clearTimeout(this.checkTimeoutId);
+      this.checkTimeoutId = undefined;
+    }
     try {
-      // Use GraphQL to get battle state and recent turn data
-      const graphqlClient = createGraphQLClient({ GRAPHQL_URL: this.config.graphqlUrl });
-      
-      // Get specific battle data from GraphQL
-      const battleResult = await graphqlClient.query<{ battle: Battle | null }>(GraphQLQueries.getBattleById, {
-        battleId: this.config.gameAddress.toLowerCase()
-      });
-      
-      const battle = battleResult.battle;
-      
-      if (!battle) {
-        this.logger.info("Battle not found in GraphQL, checking contract state");
-        // Fallback to contract check
-        const gameState = await publicClient.readContract({
-          address: this.config.gameAddress as `0x${string}`,
-          abi: BattleABI as Abi,
-          functionName: 'getGameState'
-        }) as bigint;
-        
-        if (gameState > 2n) {
-          this.logger.info("Game has ended, stopping operator");
-          this.stop();
-          return;
-        } else if (gameState == 1n) {
-          this.logger.info("Game has not started, delaying");
-          return;
-        }
-      } else if (!battle.gameStartedAt) {
-        this.logger.info("Game has not started according to GraphQL, delaying");
-        return;
-      }
-
-      // Check turn status and game state using multicall (real-time data)
-      const multicallResults = await publicClient.multicall({
-        contracts: [
-          {
-            address: this.config.gameAddress as `0x${string}`,
-            abi: BattleABI as Abi,
-            functionName: 'isTurnOver'
-          },
-          {
-            address: this.config.gameAddress as `0x${string}`,
-            abi: BattleABI as Abi,
-            functionName: 'getGameState'
-          },
-          {
-            address: this.config.gameAddress as `0x${string}`,
-            abi: BattleABI as Abi,
-            functionName: 'winner'
-          }
-        ]
-      });
+      await this.checkAndAdvanceTurn();
+    } finally {
+      this.isChecking = false;
+    }
 
-      if (multicallResults[0].status === 'failure' || multicallResults[1].status === 'failure' || multicallResults[2].status === 'failure') {
-        this.logger.error({
-          isTurnOver: multicallResults[0].status === 'failure' ? multicallResults[0].error?.message || multicallResults[0].error : multicallResults[0].result,
-          gameState: multicallResults[1].status === 'failure' ? multicallResults[1].error?.message || multicallResults[1].error : multicallResults[1].result?.toString(),
-          winner: multicallResults[2].status === 'failure' ? multicallResults[2].error?.message || multicallResults[2].error : multicallResults[2].result?.toString()
-        }, "Multicall failed");
-        
-        // If game state check succeeded but shows ended, stop the operator
-        if (multicallResults[1].status === 'success') {
-          const gameState = multicallResults[1].result as bigint;
-          if (gameState > 2n) {
-            this.logger.info({ gameState: gameState.toString() }, "Game has ended despite multicall partial failure, stopping operator");
-            this.stop();
-            return;
-          }
-        }
-        
-        // Also check winner field
-        if (multicallResults[2].status === 'success') {
-          const winner = multicallResults[2].result as bigint;
-          if (winner !== 0n) {
-            this.logger.info({ winner: winner.toString() }, "Game has a winner, stopping operator");
-            this.stop();
-            return;
-          }
-        }
-        
-        return;
-      }
+    if (!this.isRunning) return;
+    const delayMs = this.recheckRequested ? 0 : Math.min(Math.max(this.nextCheckDelayMs, 0), SAFETY_CHECK_MS);
+    this.recheckRequested = false;
+    this.logger.debug({ delayMs }, "Next check scheduled");
+    this.checkTimeoutId = setTimeout(() => this.requestCheck(), delayMs);
+  }
 
-      const isTurnOver = multicallResults[0].result as boolean;
-      const gameState = multicallResults[1].result as bigint;
-      const winner = multicallResults[2].result as bigint;
+  private async checkAndAdvanceTurn() {
+    this.lastCheckTime = Date.now();
+    this.nextCheckDelayMs = SAFETY_CHECK_MS;
+    this.isRetrying = false;
+    
+    const publicClient = this.getPublicClient();
 
-      this.logger.info({
-        isTurnOver,
-        gameState: gameState.toString(),
-        winner: winner.toString()
-      }, "Multicall results");
+    try {
+      // The shared poller usually has this block's state, otherwise read it ourselves
+      const state = this.getRecentPolledState() ?? await this.readBattleState(publicClient);
+      if (!state) return;
+      const { isTurnOver, gameState, winner } = state;
 
       // Check if there's a winner (game has ended)
       if (winner !== 0n) {
@@ -222,7 +262,7 @@ export class BattleOperator {
       }
 
       if (gameState == 1n) {
-        this.logger.info("Game has not started (state == 1), delaying");
+        await this.checkAndStartGame(publicClient);
         return;
       }
 
@@ -241,8 +281,9 @@ export class BattleOperator {
           transport: createAuthenticatedHttpTransport(this.config.ethRpcUrl, { ETH_RPC_URL: this.config.ethRpcUrl })
         });
 
-        // Generate a random number for nextTurn
-        const randomNumber = BigInt(Math.floor(Math.random() * Number.MAX_SAFE_INTEGER));
+        // Generate a random number for nextTurn, it seeds the next turn's card draws
+        const randomNumber = this.randomness.next({ battleAddress: this.config.gameAddress, purpose: 'nextTurn', turn: state.currentTurn });
+        this.logger.info({ randomNumber: randomNumber.toString(), mode: this.randomness.mode }, "Random number for nextTurn");
         
         // Encode the nextTurn function call
         const data = encodeFunctionData({
@@ -270,34 +311,346 @@ export class BattleOperator {
             this.config.erc2771ForwarderAddress as `0x${string}`
           );
         } catch (error: any) {
-          console.error(error);
-          console.error("I SHOUDL BE ABLE TO SEE THIS");
           this.logger.error({ error: error?.message || error, stack: error?.stack }, "Error forwarding transaction");
+          this.recordDecision({ action: 'nextTurn', details: { randomNumber }, error: error?.message?.substring(0, 200) });
+          this.retryLater();
           return;
         }
 
         this.logger.info({ hash }, "Next turn transaction forwarded");
+        this.recordDecision({ action: 'nextTurn', details: { randomNumber, randomnessMode: this.randomness.mode }, transactionHash: hash });
 
         // Wait for transaction receipt only if we have a valid hash
         if (hash) {
           try {
             const receipt = await publicClient.waitForTransactionReceipt({ hash });
+            if (receipt.status === 'reverted') {
+              // The value was not used on chain, so it stays reserved for the retry
+              this.logger.error({ hash, blockNumber: receipt.blockNumber.toString() }, "Next turn transaction reverted");
+              this.recordDecision({ action: 'nextTurn', details: { randomNumber }, transactionHash: hash, error: 'Transaction reverted' });
+              this.retryLater();
+              return;
+            }
             this.logger.info({ receipt }, "Next turn transaction confirmed");
+            this.randomness.confirm(this.config.gameAddress);
+            this.discardPolledStateBefore(receipt.blockNumber);
           } catch (error: any) {
             this.logger.error({ error: error?.message || error, stack: error?.stack }, "Error waiting for transaction receipt");
+            this.retryLater();
             return;
           }
         } else {
           this.logger.error({ gameAddress: this.config.gameAddress }, "No transaction hash received from forwardTransaction for game");
+          this.retryLater();
           return;
         }
 
         this.logger.info("Turn successfully advanced");
+        // Check again straight away to pick up the new turn's deadline
+        this.nextCheckDelayMs = 0;
       } else {
-        this.logger.info("Turn has not ended yet");
+        const { turnEndsAt, turnTimerEnabled } = state;
+        if (turnTimerEnabled && turnEndsAt > 0n) {
+          const nowSeconds = state.blockTimestamp ?? (await publicClient.getBlock()).timestamp;
+          this.scheduleCheckAt(turnEndsAt, nowSeconds);
+        }
+        // Without a timer the turn only ends when every player ends theirs, EndedTurnEvent wakes us then
+        this.logger.info({ turnEndsAt: turnEndsAt.toString(), nextCheckDelayMs: this.nextCheckDelayMs }, "Turn has not ended yet");
       }
     } catch (error: any) {
       this.logger.error({ error: error?.message || error, stack: error?.stack }, "Error in checkAndAdvanceTurn");
+      this.retryLater();
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Reads the battle's state when the poller has nothing recent, handling battles that have not
+   * started or whose reads partly failed
+   * @returns The state, undefined when the check is already handled
+   */
+  private async readBattleState(publicClient: any): Promise<TurnCheckState | undefined> {
+    // Use GraphQL to get battle state and recent turn data
+    const graphqlClient = createGraphQLClient({ GRAPHQL_URL: this.config.graphqlUrl });
+    
+    // Get specific battle data from GraphQL
+    const battleResult = await graphqlClient.query<{ battle: Battle | null }>(GraphQLQueries.getBattleById, {
+      battleId: this.config.gameAddress.toLowerCase()
+    });
+    
+    const battle = battleResult.battle;
+    
+    if (!battle || !battle.gameStartedAt) {
+      this.logger.info(battle ? "Game has not started according to GraphQL, checking contract state" : "Battle not found in GraphQL, checking contract state");
+      // Fallback to contract check, the indexer may lag behind a start
+      const gameState = await publicClient.readContract({
+        address: this.config.gameAddress as `0x${string}`,
+        abi: BattleABI as Abi,
+        functionName: 'getGameState'
+      }) as bigint;
+      
+      if (gameState > 2n) {
+        this.logger.info("Game has ended, stopping operator");
+        this.stop();
+        return;
+      } else if (gameState == 1n) {
+        await this.checkAndStartGame(publicClient);
+        return;
+      }
+    }
+
+    // Check turn status and game state using multicall (real-time data)
+    const multicallResults = await publicClient.multicall({
+      contracts: [
+        {
+          address: this.config.gameAddress as `0x${string}`,
+          abi: BattleABI as Abi,
+          functionName: 'isTurnOver'
+        },
+        {
+          address: this.config.gameAddress as `0x${string}`,
+          abi: BattleABI as Abi,
+          functionName: 'getGameState'
+        },
+        {
+          address: this.config.gameAddress as `0x${string}`,
+          abi: BattleABI as Abi,
+          functionName: 'winner'
+        },
+        {
+          address: this.config.gameAddress as `0x${string}`,
+          abi: BattleABI as Abi,
+          functionName: 'currentTurnEndsAt'
+        },
+        {
+          address: this.config.gameAddress as `0x${string}`,
+          abi: BattleABI as Abi,
+          functionName: 'turnTimerEnabled'
+        },
+        {
+          address: this.config.gameAddress as `0x${string}`,
+          abi: BattleABI as Abi,
+          functionName: 'currentTurn'
+        }
+      ]
+    });
+
+    // The turn identifies the nextTurn value across retries, so it is needed as much as the game state
+    if (multicallResults[0].status === 'failure' || multicallResults[1].status === 'failure' || multicallResults[2].status === 'failure' || multicallResults[5].status === 'failure') {
+      this.logger.error({
+        isTurnOver: multicallResults[0].status === 'failure' ? multicallResults[0].error?.message || multicallResults[0].error : multicallResults[0].result,
+        gameState: multicallResults[1].status === 'failure' ? multicallResults[1].error?.message || multicallResults[1].error : multicallResults[1].result?.toString(),
+        winner: multicallResults[2].status === 'failure' ? multicallResults[2].error?.message || multicallResults[2].error : multicallResults[2].result?.toString(),
+        currentTurn: multicallResults[5].status === 'failure' ? multicallResults[5].error?.message || multicallResults[5].error : multicallResults[5].result?.toString()
+      }, "Multicall failed");
+      
+      // If game state check succeeded but shows ended, stop the operator
+      if (multicallResults[1].status === 'success') {
+        const gameState = multicallResults[1].result as bigint;
+        if (gameState > 2n) {
+          this.logger.info({ gameState: gameState.toString() }, "Game has ended despite multicall partial failure, stopping operator");
+          this.stop();
+          return;
+        }
+      }
+      
+      // Also check winner field
+      if (multicallResults[2].status === 'success') {
+        const winner = multicallResults[2].result as bigint;
+        if (winner !== 0n) {
+          this.logger.info({ winner: winner.toString() }, "Game has a winner, stopping operator");
+          this.stop();
+          return;
+        }
+      }
+      
+      this.retryLater();
+      return;
+    }
+
+    return {
+      isTurnOver: multicallResults[0].result as boolean,
+      gameState: multicallResults[1].result as bigint,
+      winner: multicallResults[2].result as bigint,
+      turnEndsAt: multicallResults[3].status === 'success' ? multicallResults[3].result as bigint : 0n,
+      turnTimerEnabled: multicallResults[4].status === 'success' && multicallResults[4].result === true,
+      currentTurn: multicallResults[5].result as bigint
+    };
+  }
+
+  private getPublicClient(): any {
+    if (!this.publicClient) {
+      this.publicClient = createPublicClient({
+        chain: arbitrum,
+        transport: createAuthenticatedHttpTransport(this.config.ethRpcUrl, { ETH_RPC_URL: this.config.ethRpcUrl })
+      });
+    }
+    return this.publicClient;
+  }
+
+  /**
+   * Returns the poller's latest state for this battle unless it is stale
+   */
+  private getRecentPolledState(): TurnCheckState | undefined {
+    if (!this.polledState || Date.now() - this.polledStateReceivedAt > POLLED_STATE_MAX_AGE_MS) {
+      return undefined;
+    }
+    return this.polledState;
+  }
+
+  private recordDecision(decision: Omit<JournalDecision, 'operator'>) {
+    this.config.journal?.recordDecision(this.config.gameAddress, { operator: 'BattleOperator', ...decision });
+  }
+
+  private discardPolledStateBefore(blockNumber: bigint) {
+    this.polledState = undefined;
+    this.minPolledBlock = blockNumber;
+  }
+
+  private retryLater() {
+    this.nextCheckDelayMs = RETRY_DELAY_MS;
+    this.isRetrying = true;
+  }
+
+  /**
+   * Wakes the operator when the poller sees the battle end or its turn end. A state that stays the
+   * same over several blocks wakes it once, and not while a check is running or a retry is pending.
+   */
+  private onBattleState(state: BattleState) {
+    if (state.blockNumber < this.minPolledBlock) return;
+    this.polledState = state;
+    this.polledStateReceivedAt = Date.now();
+
+    // Compared with the last state that could wake us, so a change seen during a check wakes us after it
+    if (this.isChecking || this.isRetrying) return;
+    const previous = this.wakeState;
+    this.wakeState = state;
+    const gameStateChanged = previous?.gameState !== state.gameState;
+    const changed = gameStateChanged
+      || previous.winner !== state.winner
+      || previous.isTurnOver !== state.isTurnOver
+      || previous.currentTurn !== state.currentTurn;
+
+    const ended = state.winner !== 0n || state.gameState > 2n;
+    const turnOver = state.gameState == 2n && state.isTurnOver;
+    if (changed && (ended || turnOver || gameStateChanged)) {
+      this.requestCheck();
+    }
+  }
+
+  /**
+   * Schedules the next check just after a chain timestamp
+   * @param timestamp - Chain time to check at
+   * @param nowSeconds - Current chain time, e.g. the latest block's timestamp
+   */
+  private scheduleCheckAt(timestamp: bigint, nowSeconds: bigint) {
+    this.nextCheckDelayMs = getDeadlineCheckDelayMs(timestamp, nowSeconds);
+  }
+
+  /**
+   * Starts the game once the lobby is ready, see getGameStartDecision
+   */
+  private async checkAndStartGame(publicClient: any) {
+    try {
+      const gameAddress = this.config.gameAddress as `0x${string}`;
+      const [isSufficientPlayers, joinDeadlineAt, teamACount, teamBCount] = await publicClient.multicall({
+        allowFailure: false,
+        contracts: ['isSufficientPlayers', 'joinDeadlineAt', 'teamACount', 'teamBCount'].map(functionName => ({
+          address: gameAddress,
+          abi: BattleABI as Abi,
+          functionName
+        }))
+      }) as [boolean, bigint, bigint, bigint];
+      const rules = await getBattleRules(publicClient, gameAddress);
+      const block = await publicClient.getBlock();
+
+      const decision = getGameStartDecision({
+        isSufficientPlayers,
+        joinDeadlineAt,
+        teamACount,
+        teamBCount,
+        maxTeamSize: rules.maxTeamSize,
+        nowSeconds: block.timestamp
+      });
+      this.logger.info({
+        ...decision,
+        teamACount: teamACount.toString(),
+        teamBCount: teamBCount.toString(),
+        joinDeadlineAt: joinDeadlineAt.toString()
+      }, "Game has not started (state == 1)");
+      if (!decision.start) {
+        // Joins wake us through PlayerJoinedEvent, otherwise the deadline is the next thing to wait for
+        if (isSufficientPlayers && joinDeadlineAt > block.timestamp) {
+          this.scheduleCheckAt(joinDeadlineAt, block.timestamp);
+        }
+        return;
+      }
+
+      const account = privateKeyToAccount(this.config.operatorPrivateKey as `0x${string}`);
+      // The starting team comes from the same audited value as the random number, which is handed
+      // out again for retries until the start is mined
+      const randomNumber = this.randomness.next({ battleAddress: gameAddress, purpose: 'startGame' });
+      const teamAStarts = (randomNumber >> 255n) === 1n;
+
+      // Simulate first so a start that would revert is not relayed
+      try {
+        await publicClient.simulateContract({
+          account: account.address,
+          address: gameAddress,
+          abi: BattleABI as Abi,
+          functionName: 'startGame',
+          args: [teamAStarts, randomNumber]
+        });
+      } catch (error: any) {
+        if (error.message?.includes('GameHasStartedError')) {
+          this.logger.info("Game was already started");
+          return;
+        }
+        if (error.message?.includes('BothTeamsMustHavePlayersError')) {
+          this.logger.info("Both teams need players before the game can start, waiting for more joins");
+          return;
+        }
+        throw error;
+      }
+
+      const walletClient = createWalletClient({
+        account,
+        chain: arbitrum,
+        transport: createAuthenticatedHttpTransport(this.config.ethRpcUrl, { ETH_RPC_URL: this.config.ethRpcUrl })
+      });
+      const hash = await forwardTransaction(
+        {
+          to: gameAddress,
+          data: encodeFunctionData({
+            abi: BattleABI as Abi,
+            functionName: 'startGame',
+            args: [teamAStarts, randomNumber]
+          }),
+          rpcUrl: this.config.ethRpcUrl,
+          relayerUrl: this.config.relayerUrl,
+          env: { ETH_RPC_URL: this.config.ethRpcUrl } as any
+        },
+        walletClient,
+        this.config.erc2771ForwarderAddress as `0x${string}`
+      );
+      this.recordDecision({ action: 'startGame', details: { teamAStarts, randomNumber, randomnessMode: this.randomness.mode }, transactionHash: hash });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      if (receipt.status !== 'reverted') {
+        this.randomness.confirm(gameAddress);
+      }
+      this.discardPolledStateBefore(receipt.blockNumber);
+      this.logger.info({ hash, teamAStarts }, "Game started");
+      // Check again straight away to pick up the first turn's deadline
+      this.nextCheckDelayMs = 0;
+    } catch (error: any) {
+      // The lobby may have changed between the simulation and the relayed transaction
+      if (error?.message?.includes('GameHasStartedError')) {
+        this.logger.info("Game was already started");
+      } else if (error?.message?.includes('BothTeamsMustHavePlayersError')) {
+        this.logger.info("Both teams need players before the game can start, waiting for more joins");
+      } else {
+        this.logger.error({ error: error?.message || error, stack: error?.stack }, "Error in checkAndStartGame");
+        this.retryLater();
+      }
+    }
+  }
+}
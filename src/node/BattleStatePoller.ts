@@ -0,0 +1,208 @@
+import { createPublicClient, type Abi } from "viem";
+import { arbitrum } from "viem/chains";
+import BattleABI from "../contracts/abis/Battle.json";
+import { createAuthenticatedHttpTransport } from "../utils/rpc";
+import { createLogger } from "../utils/logger";
+import type { Logger } from "pino";
+
+export interface BattleStatePollerConfig {
+  ethRpcUrl: string;
+  pollingIntervalMs?: number; // How often to look for a new block. Default: 1000
+  chunkSize?: number; // Battles per multicall. Default: 100
+}
+
+/**
+ * What a BattleOperator needs to decide whether to act, read at one block
+ */
+export interface BattleState {
+  battleAddress: string;
+  isTurnOver: boolean;
+  gameState: bigint;
+  winner: bigint;
+  turnEndsAt: bigint;
+  turnTimerEnabled: boolean;
+  currentTurn: bigint;
+  turnDuration: bigint;
+  blockNumber: bigint;
+  blockTimestamp: bigint;
+}
+
+export type BattleStateListener = (state: BattleState) => void;
+
+const STATE_FUNCTIONS = ['isTurnOver', 'getGameState', 'winner', 'currentTurnEndsAt', 'turnTimerEnabled', 'currentTurn', 'turnDuration'] as const;
+
+/**
+ * Reads the state of many battles at one block in a single multicall
+ * @param publicClient - Viem public client
+ * @param battleAddresses - Battles to read
+ * @param block - Block to read at
+ * @returns State by lowercased battle address, battles whose game state or winner could not be read are missing
+ */
+export async function readBattleStates(
+  publicClient: any,
+  battleAddresses: string[],
+  block: { number: bigint; timestamp: bigint }
+): Promise<Map<string, BattleState>> {
+  const contracts = battleAddresses.flatMap(address => STATE_FUNCTIONS.map(functionName => ({
+    address: address as `0x${string}`,
+    abi: BattleABI as Abi,
+    functionName
+  })));
+  const results: any[] = await publicClient.multicall({ contracts, allowFailure: true, blockNumber: block.number });
+
+  const states = new Map<string, BattleState>();
+  battleAddresses.forEach((address, index) => {
+    const [isTurnOver, gameState, winner, turnEndsAt, turnTimerEnabled, currentTurn, turnDuration] = results.slice(index * STATE_FUNCTIONS.length, (index + 1) * STATE_FUNCTIONS.length);
+    if (gameState?.status !== 'success' || winner?.status !== 'success') return;
+
+    // isTurnOver reverts before the game has started, the turn reads are only needed for scheduling and the watchdog
+    states.set(address.toLowerCase(), {
+      battleAddress: address.toLowerCase(),
+      isTurnOver: isTurnOver?.status === 'success' && isTurnOver.result === true,
+      gameState: BigInt(gameState.result),
+      winner: BigInt(winner.result),
+      turnEndsAt: turnEndsAt?.status === 'success' ? BigInt(turnEndsAt.result) : 0n,
+      turnTimerEnabled: turnTimerEnabled?.status === 'success' && turnTimerEnabled.result === true,
+      currentTurn: currentTurn?.status === 'success' ? BigInt(currentTurn.result) : 0n,
+      turnDuration: turnDuration?.status === 'success' ? BigInt(turnDuration.result) : 0n,
+      blockNumber: block.number,
+      blockTimestamp: block.timestamp
+    });
+  });
+  return states;
+}
+
+/**
+ * Polls the state of every battle being operated, once per new block.
+ *
+ * Battles are read in chunked multicalls pinned to the same block, and each state is handed to
+ * the listeners subscribed for that battle. This replaces a client and a multicall per
+ * BattleOperator per tick, so one process can operate thousands of battles.
+ */
+export class BattleStatePoller {
+  private config: BattleStatePollerConfig;
+  private publicClient: any;
+  private listeners: Map<string, Set<BattleStateListener>> = new Map();
+  private intervalId?: NodeJS.Timeout;
+  private isRunning: boolean = false;
+  private isPolling: boolean = false;
+  private lastBlockNumber?: bigint;
+  private lastPollTime: number = 0;
+  private logger: Logger;
+
+  constructor(config: BattleStatePollerConfig, publicClient?: any) {
+    this.config = config;
+    this.publicClient = publicClient ?? createPublicClient({
+      chain: arbitrum,
+      transport: createAuthenticatedHttpTransport(config.ethRpcUrl, { ETH_RPC_URL: config.ethRpcUrl })
+    });
+    this.logger = createLogger({ operator: 'BattleStatePoller' });
+  }
+
+  start() {
+    if (this.isRunning) {
+      this.logger.info("Already running");
+      return;
+    }
+
+    this.isRunning = true;
+    this.lastPollTime = Date.now();
+    this.intervalId = setInterval(() => this.poll(), this.config.pollingIntervalMs ?? 1000);
+    this.logger.info("Started");
+  }
+
+  stop() {
+    if (!this.isRunning) return;
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+    this.listeners.clear();
+    this.logger.info("Stopped");
+  }
+
+  isAlive(): boolean {
+    if (!this.isRunning) return false;
+    // A poll stuck for 30 seconds means the RPC endpoint is not answering
+    return Date.now() - this.lastPollTime < 30000;
+  }
+
+  /**
+   * Hands each new state of a battle to a listener
+   * @returns A function that stops the updates
+   */
+  subscribe(battleAddress: string, listener: BattleStateListener): () => void {
+    const key = battleAddress.toLowerCase();
+    let listeners = this.listeners.get(key);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(key, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      const current = this.listeners.get(key);
+      if (!current) return;
+      current.delete(listener);
+      if (current.size === 0) {
+        this.listeners.delete(key);
+      }
+    };
+  }
+
+  getBattleCount(): number {
+    return this.listeners.size;
+  }
+
+  getLastBlockNumber(): bigint | undefined {
+    return this.lastBlockNumber;
+  }
+
+  /**
+   * Reads every subscribed battle if a new block has been produced
+   */
+  async poll(): Promise<void> {
+    if (this.isPolling) return;
+    if (this.listeners.size === 0) {
+      this.lastPollTime = Date.now();
+      return;
+    }
+
+    this.isPolling = true;
+    try {
+      const block = await this.publicClient.getBlock();
+      if (block.number === this.lastBlockNumber) return;
+      this.lastBlockNumber = block.number;
+
+      const battleAddresses = Array.from(this.listeners.keys());
+      const chunkSize = this.config.chunkSize ?? 100;
+      for (let start = 0; start < battleAddresses.length; start += chunkSize) {
+        const chunk = battleAddresses.slice(start, start + chunkSize);
+        const states = await readBattleStates(this.publicClient, chunk, block);
+        if (states.size < chunk.length) {
+          this.logger.debug({ missing: chunk.length - states.size, blockNumber: block.number.toString() }, "Some battle states could not be read");
+        }
+        for (const [battleAddress, state] of states) {
+          this.notify(battleAddress, state);
+        }
+      }
+    } catch (error: any) {
+      this.logger.error({ error: error?.message || error, stack: error?.stack }, "Error polling battle states");
+    } finally {
+      this.isPolling = false;
+      this.lastPollTime = Date.now();
+    }
+  }
+
+  private notify(battleAddress: string, state: BattleState) {
+    for (const listener of this.listeners.get(battleAddress) ?? []) {
+      try {
+        listener(state);
+      } catch (error: any) {
+        this.logger.error({ error: error?.message || error, battleAddress }, "Battle state listener failed");
+      }
+    }
+  }
+}
@@ -0,0 +1,162 @@
+import type { BattleState, BattleStatePoller } from "./BattleStatePoller";
+import type { Alert, AlertSink } from "../utils/alerts";
+import { createLogger } from "../utils/logger";
+import type { Logger } from "pino";
+
+export interface BattleWatchdogConfig {
+  statePoller: BattleStatePoller;
+  alertSink: AlertSink;
+  turnMultiple?: number; // A turn is stuck once it has lasted this many turn durations. Default: 3
+}
+
+/**
+ * An active battle whose turn has not advanced for too long
+ */
+export interface StuckBattle {
+  battleAddress: string;
+  turn: string;
+  isTurnOver: boolean;
+  turnDuration: string;
+  turnStartedAt: string; // Block timestamp the turn was first seen at, or started at when known
+  stalledForSeconds: number;
+  flaggedAt: number;
+}
+
+interface WatchedBattle {
+  unsubscribe: () => void;
+  turn?: bigint;
+  turnStartedAt: bigint;
+  stuck?: StuckBattle;
+}
+
+/**
+ * Flags operated battles whose turn has stopped advancing.
+ *
+ * A battle can sit with `isTurnOver == true` while its BattleOperator looks alive, e.g. when the
+ * relayer keeps rejecting `nextTurn`. The watchdog follows each battle's turn through the shared
+ * BattleStatePoller and raises an alert once a turn has lasted `turnMultiple` turn durations, then
+ * again when the battle moves on. Battles without a turn timer are only flagged while their turn is
+ * over, since their players may legitimately take their time.
+ */
+export class BattleWatchdog {
+  private config: BattleWatchdogConfig;
+  private battles: Map<string, WatchedBattle> = new Map();
+  private logger: Logger;
+
+  constructor(config: BattleWatchdogConfig) {
+    this.config = config;
+    this.logger = createLogger({ operator: 'BattleWatchdog' });
+  }
+
+  /**
+   * Starts following a battle's turns, does nothing if it is already followed
+   */
+  watch(battleAddress: string) {
+    const key = battleAddress.toLowerCase();
+    if (this.battles.has(key)) return;
+
+    this.battles.set(key, {
+      unsubscribe: this.config.statePoller.subscribe(key, state => this.observe(state)),
+      turnStartedAt: 0n
+    });
+  }
+
+  unwatch(battleAddress: string) {
+    const key = battleAddress.toLowerCase();
+    const battle = this.battles.get(key);
+    if (!battle) return;
+    battle.unsubscribe();
+    this.battles.delete(key);
+  }
+
+  stop() {
+    for (const key of Array.from(this.battles.keys())) {
+      this.unwatch(key);
+    }
+  }
+
+  getWatchedCount(): number {
+    return this.battles.size;
+  }
+
+  isStuck(battleAddress: string): boolean {
+    return !!this.battles.get(battleAddress.toLowerCase())?.stuck;
+  }
+
+  getStuckBattles(): StuckBattle[] {
+    return Array.from(this.battles.values())
+      .map(battle => battle.stuck)
+      .filter((stuck): stuck is StuckBattle => !!stuck);
+  }
+
+  /**
+   * Updates a watched battle from a polled state, raising or clearing its alert
+   */
+  observe(state: BattleState) {
+    const battle = this.battles.get(state.battleAddress.toLowerCase());
+    if (!battle) return;
+
+    if (state.gameState !== 2n) {
+      if (battle.stuck) this.recover(battle, 'battle is no longer active');
+      battle.turn = undefined;
+      return;
+    }
+
+    if (battle.turn === undefined) {
+      // currentTurnEndsAt is the turn's start plus its duration, so a restart does not reset the clock
+      const startedAt = state.turnEndsAt - state.turnDuration;
+      battle.turnStartedAt = state.turnEndsAt > 0n && startedAt <= state.blockTimestamp ? startedAt : state.blockTimestamp;
+    } else if (battle.turn !== state.currentTurn) {
+      battle.turnStartedAt = state.blockTimestamp;
+      if (battle.stuck) this.recover(battle, `turn advanced to ${state.currentTurn}`);
+    }
+    battle.turn = state.currentTurn;
+
+    if (state.turnDuration === 0n) return;
+    const stalledForSeconds = Number(state.blockTimestamp - battle.turnStartedAt);
+    const threshold = Number(state.turnDuration) * (this.config.turnMultiple ?? 3);
+    if (stalledForSeconds < threshold || (!state.turnTimerEnabled && !state.isTurnOver)) return;
+
+    if (battle.stuck) {
+      battle.stuck.isTurnOver = state.isTurnOver;
+      battle.stuck.stalledForSeconds = stalledForSeconds;
+      return;
+    }
+
+    battle.stuck = {
+      battleAddress: state.battleAddress.toLowerCase(),
+      turn: state.currentTurn.toString(),
+      isTurnOver: state.isTurnOver,
+      turnDuration: state.turnDuration.toString(),
+      turnStartedAt: battle.turnStartedAt.toString(),
+      stalledForSeconds,
+      flaggedAt: Date.now()
+    };
+    this.raise({
+      kind: 'stuckBattle',
+      message: `Battle ${battle.stuck.battleAddress} has been on turn ${battle.stuck.turn} for ${stalledForSeconds}s (turn duration ${state.turnDuration}s)`,
+      battleAddress: battle.stuck.battleAddress,
+      details: { ...battle.stuck },
+      raisedAt: Date.now()
+    });
+  }
+
+  private recover(battle: WatchedBattle, reason: string) {
+    const stuck = battle.stuck!;
+    battle.stuck = undefined;
+    this.raise({
+      kind: 'battleRecovered',
+      message: `Battle ${stuck.battleAddress} is no longer stuck: ${reason}`,
+      battleAddress: stuck.battleAddress,
+      details: { turn: stuck.turn, reason },
+      raisedAt: Date.now()
+    });
+  }
+
+  private raise(alert: Alert) {
+    this.logger.info({ battleAddress: alert.battleAddress, kind: alert.kind, sink: this.config.alertSink.name }, "Raising alert");
+    this.config.alertSink.send(alert).catch((error: any) => {
+      this.logger.error({ error: error?.message || error, battleAddress: alert.battleAddress }, "Alert sink failed");
+    });
+  }
+}
@@ -3,12 +3,40 @@ import { privateKeyToAccount } from "viem/accounts";
 import { arbitrum } from "viem/chains";
 import BattleABI from "../contracts/abis/Battle.json";
 import PlayerDeckManagerABI from "../contracts/abis/PlayerDeckManager.json";
+import DeckConfigurationABI from "../contracts/abis/DeckConfiguration.json";
 import { forwardTransaction } from "../forwarder/forwardTransaction";
 import { createGraphQLClient, GraphQLQueries, type BattlePlayer } from "../utils/graphql";
-import { getPlayerEnergy } from "../utils/playerStats";
+import { decodePlayerStats, PlayerStatType } from "../utils/playerStats";
 import { cardPileBitsToArray } from "../utils/cardPiles";
+import { getCardCatalog, type CardDefinition } from "../utils/cardCatalog";
+import { encodeActionParams } from "../utils/actionParams";
+import { DEFAULT_DRAW_COUNT, getBattleRules, getHandDrawCount, type BattleRules } from "../utils/battleRules";
+import { TurnStateLoader, type PileState, type PlayerRead, type TurnState } from "../utils/turnState";
 import { createAuthenticatedHttpTransport } from "../utils/rpc";
+import { CONTRACT_ADDRESSES } from "../utils/deployments";
 import { EventAggregator } from "./EventAggregator";
+import { DeckTracker } from "./DeckTracker";
+import { PlayerTurnTracker } from "./PlayerTurnTracker";
+import type { BattleJournal, JournalDecision } from "./BattleJournal";
+import { computeTurnBudget, TxLatencyEstimator, type TurnBudget } from "./TurnBudget";
+import {
+  buildBattlefield,
+  createCardPlayStrategy,
+  getActiveEnemies,
+  getPlayableCards,
+  getTargetableEnemies,
+  isBudgetConstrained,
+  isPlainAttack,
+  isSetupCard,
+  type CardPlayStrategy,
+  type HandCard,
+  type PlayerSnapshot,
+  type TargetingPolicy,
+  type TeamPlan,
+  type TurnAction,
+  type TurnSnapshot
+} from "./strategies";
+import type { TeamCoordinator } from "./TeamCoordinator";
 import { createLogger } from "../utils/logger";
 import type { Logger } from "pino";
 
@@ -24,17 +52,33 @@ export interface CharacterOperatorConfig {
   playerId: string;
   teamA: boolean;
   eventAggregator: EventAggregator;
+  strategy?: string; // Name of the card play strategy, defaults to "random"
+  targetingPolicy?: TargetingPolicy; // How the strategy picks enemies, defaults to "random"
+  teamCoordinator?: TeamCoordinator; // Shared with the other characters the bot controls on this team
+  journal?: BattleJournal; // Records the character's decisions next to the battle's events
 }
 
+// How often a character waiting for teammates' setup cards checks again
+const TEAM_HOLD_POLL_MS = 1000;
+// How many times a character checks again before attacking anyway, in case the coordinator's hold never ends
+const TEAM_HOLD_MAX_POLLS = 15;
+
 export class CharacterOperator {
   private config: CharacterOperatorConfig;
   private intervalId?: NodeJS.Timeout;
   private isRunning: boolean = false;
   private lastCheckTime: number = 0;
   private lastActionTime: number = 0;
-  private eventUnsubscribe?: () => void;
+  private eventUnsubscribes: (() => void)[] = [];
   private logger: Logger;
   private isExecuting: boolean = false;
+  private strategy: CardPlayStrategy;
+  private cardDefinitions: Map<string, CardDefinition> = new Map(); // `${deckId}-${cardId}` -> definition
+  private deckLogicAddresses: Map<string, string> = new Map(); // deck address -> deck logic address
+  private txLatency: TxLatencyEstimator = new TxLatencyEstimator();
+  private turnStateLoader?: TurnStateLoader;
+  private deckTracker?: DeckTracker;
+  private playerTurnTracker: PlayerTurnTracker = new PlayerTurnTracker();
 
   constructor(config: CharacterOperatorConfig) {
     this.config = config;
@@ -43,6 +87,7 @@ export class CharacterOperator {
       gameAddress: config.gameAddress,
       playerId: config.playerId
     });
+    this.strategy = createCardPlayStrategy(config.strategy, { targeting: config.targetingPolicy });
   }
 
 
@@ -54,9 +99,10 @@ export class CharacterOperator {
 
     this.isRunning = true;
     this.logger.info("Starting...");
+    this.config.teamCoordinator?.join(this.config.playerId);
 
     // Subscribe to NextTurnEvent
-    this.eventUnsubscribe = this.config.eventAggregator.subscribe({
+    this.eventUnsubscribes.push(this.config.eventAggregator.subscribe({
       eventName: "NextTurnEvent",
       abi: BattleABI as any[],
       address: this.config.gameAddress,
@@ -73,7 +119,31 @@ export class CharacterOperator {
         // Trigger turn check immediately when it's our turn
         this.performPeriodicCheck();
       }
-    });
+    }));
+
+    // Follow hand draws and card plays ourselves, the indexer can lag behind
+    this.eventUnsubscribes.push(this.config.eventAggregator.subscribe({
+      eventName: "PlayerHandDrawn",
+      abi: BattleABI as any[],
+      address: this.config.gameAddress,
+      onEvent: (logs: any[]) => {
+        this.playerTurnTracker.handleHandDrawnLogs(logs);
+        this.logger.debug({
+          lastTurnHandDrawn: this.playerTurnTracker.getLastTurnHandDrawn(this.config.playerId)?.toString()
+        }, "PlayerHandDrawn received");
+      }
+    }));
+
+    this.eventUnsubscribes.push(this.config.eventAggregator.subscribe({
+      eventName: "PlayerActionEvent",
+      abi: BattleABI as any[],
+      address: this.config.gameAddress,
+      onEvent: (logs: any[]) => {
+        this.playerTurnTracker.handleActionLogs(logs);
+      }
+    }));
+
+    this.preloadCardCatalog();
 
     // Initial check
     this.performPeriodicCheck();
@@ -92,12 +162,13 @@ export class CharacterOperator {
 
     this.logger.info("Stopping...");
     this.isRunning = false;
+    this.config.teamCoordinator?.leave(this.config.playerId);
 
     // Unsubscribe from events
-    if (this.eventUnsubscribe) {
-      this.eventUnsubscribe();
-      this.eventUnsubscribe = undefined;
+    for (const unsubscribe of this.eventUnsubscribes) {
+      unsubscribe();
     }
+    this.eventUnsubscribes = [];
 
     if (this.intervalId) {
       clearInterval(this.intervalId);
@@ -177,21 +248,7 @@ export class CharacterOperator {
         return true;
       }
 
-      // Check if it's our team's turn
-      const isTeamATurn = await publicClient.readContract({
-        address: this.config.gameAddress as `0x${string}`,
-        abi: BattleABI as Abi,
-        functionName: 'isTeamATurn'
-      }) as boolean;
-
-      this.logger.info(`Turn check: isTeamATurn=${isTeamATurn}, botTeamA=${this.config.teamA}, match=${isTeamATurn === this.config.teamA}`);
-      
-      if (isTeamATurn === this.config.teamA) {
-        this.logger.info("It's our turn to play!");
-        await this.playTurn(publicClient);
-      } else {
-        this.logger.info("Not time to play yet");
-      }
+      await this.playTurn(publicClient);
 
       return true;
     } catch (error: any) {
@@ -215,39 +272,28 @@ export class CharacterOperator {
       transport: createAuthenticatedHttpTransport(this.config.ethRpcUrl, { ETH_RPC_URL: this.config.ethRpcUrl })
     });
 
+    const turnStateLoader = this.getTurnStateLoader(publicClient);
+
+    // Load the whole turn state in one multicall
+    let state = await turnStateLoader.load();
+
     // First check if the game is still active
-    const winner = await publicClient.readContract({
-      address: gameAddress,
-      abi: BattleABI as Abi,
-      functionName: 'winner'
-    }) as any;
-
-    if (winner !== 0n) {
-      this.logger.info({ winner: winner.toString() }, 'Game has ended with winner');
+    if (state.winner !== 0n) {
+      this.logger.info({ winner: state.winner.toString() }, 'Game has ended with winner');
       return;
     }
 
-    // Get current turn
-    const currentTurn = await publicClient.readContract({
-      address: gameAddress,
-      abi: BattleABI as Abi,
-      functionName: 'currentTurn'
-    }) as bigint;
-
-    // Get the PlayerDeckManager address from the Battle contract first
-    const playerDeckManagerAddress = await publicClient.readContract({
-      address: gameAddress,
-      abi: BattleABI as Abi,
-      functionName: 'playerDeckManager'
-    }) as `0x${string}`;
-
-    // Get the player's deckId from the Battle contract
-    let deckId = await publicClient.readContract({
-      address: gameAddress,
-      abi: BattleABI as Abi,
-      functionName: 'playerDeckIds',
-      args: [playerId]
-    }) as bigint;
+    // Check if it's our team's turn, the turn state already read isTeamATurn
+    this.logger.info(`Turn check: isTeamATurn=${state.isTeamATurn}, botTeamA=${this.config.teamA}, match=${state.isTeamATurn === this.config.teamA}`);
+    if (state.isTeamATurn !== this.config.teamA) {
+      this.logger.info("Not time to play yet");
+      return;
+    }
+    this.logger.info("It's our turn to play!");
+
+    const currentTurn = state.currentTurn;
+    let deckId = state.deckId;
+    const playerDeckManagerAddress = turnStateLoader.getPlayerDeckManagerAddress() as `0x${string}`;
 
     this.logger.info(`Player ${playerId} has deckId: ${deckId}`);
 
@@ -257,29 +303,18 @@ export class CharacterOperator {
       return;
     }
 
-    // Get lastTurnHandDrawn from GraphQL to check if we need to draw a new hand
-    let lastTurnHandDrawn: bigint | undefined;
-    try {
-      const graphqlClient = createGraphQLClient({ GRAPHQL_URL: this.config.graphqlUrl });
-      const battlePlayersResult = await graphqlClient.query<{ battlePlayers: { items: BattlePlayer[] } }>(GraphQLQueries.getBattlePlayers, {
-        battleId: gameAddress.toLowerCase()
-      });
-      
-      const thisPlayer = battlePlayersResult.battlePlayers.items.find(
-        p => p.playerId === playerId.toString()
-      );
-      
-      if (thisPlayer?.lastTurnHandDrawn) {
-        lastTurnHandDrawn = BigInt(thisPlayer.lastTurnHandDrawn);
-        this.logger.info(`Player's lastTurnHandDrawn: ${lastTurnHandDrawn}, currentTurn: ${currentTurn}`);
-      }
-    } catch (error: any) {
-      this.logger.warn({ error: error.message }, 'Could not get lastTurnHandDrawn from GraphQL');
-    }
+    // Draw count and adjacency, a battle's rules never change so they are only read once
+    const rules = await this.loadBattleRules(publicClient);
+    const drawCount = getHandDrawCount(rules);
 
-    // Determine if we need to draw a new hand or just get the current state
-    let pileState: { drawPile: `0x${string}`, hand: `0x${string}`, discardPile: `0x${string}` };
-    
+    // Work out the chain clock offset so the turn deadline can be tracked locally
+    const clockOffsetMs = await this.getClockOffsetMs(publicClient);
+
+    // Work out which turn our hand was last drawn for, from events or the indexer as a fallback
+    const lastTurnHandDrawn = await this.getLastTurnHandDrawn();
+    this.logger.info(`Player's lastTurnHandDrawn: ${lastTurnHandDrawn}, currentTurn: ${currentTurn}`);
+
+    // Draw a new hand if it has not been drawn for this turn yet
     if (lastTurnHandDrawn === undefined || lastTurnHandDrawn !== currentTurn) {
       // Hand needs to be drawn for this turn - use computeDiscardAndDrawHand
       this.logger.info(`Computing new hand for turn ${currentTurn} (lastTurnHandDrawn: ${lastTurnHandDrawn}`);
@@ -291,14 +326,13 @@ export class CharacterOperator {
         functionName: 'getCurrentTurnRandomNumber'
       }) as bigint;
       
-      const handSize = 5n; // Standard hand size
-      
-      pileState = await publicClient.readContract({
+      const predictedPileState = await publicClient.readContract({
         address: playerDeckManagerAddress,
         abi: PlayerDeckManagerABI as Abi,
         functionName: 'computeDiscardAndDrawHand',
-        args: [deckId, handSize, randomSeed]
-      }) as { drawPile: `0x${string}`, hand: `0x${string}`, discardPile: `0x${string}` };
+        args: [deckId, drawCount, randomSeed]
+      }) as PileState;
+      this.logger.info({ cards: cardPileBitsToArray(BigInt(predictedPileState.hand)) }, 'Predicted hand cards');
       
       // Now update the player's hand in the Battle contract
       const updateHandData = encodeFunctionData({
@@ -308,305 +342,414 @@ export class CharacterOperator {
       });
 
       try {
-        const updateHash = await forwardTransaction(
-          {
-            to: gameAddress,
-            data: updateHandData,
-            rpcUrl: this.config.ethRpcUrl,
-            relayerUrl: this.config.relayerUrl,
-            env: { ETH_RPC_URL: this.config.ethRpcUrl } as any
-          },
-          walletClient,
-          this.config.erc2771ForwarderAddress as `0x${string}`
-        );
+        const updateHash = await this.sendTransaction(publicClient, walletClient, updateHandData);
         this.logger.info({ tx: updateHash }, `Updated player hand in Battle contract`);
-        await publicClient.waitForTransactionReceipt({ hash: updateHash });
+        this.recordDecision({ action: 'updatePlayerHand', turn: currentTurn, transactionHash: updateHash });
+        // Don't wait for our own PlayerHandDrawn event, the receipt already proves the draw
+        this.playerTurnTracker.recordHandDrawn(this.config.playerId, currentTurn);
       } catch (error: any) {
         this.logger.warn({ error: error.message?.substring(0, 100) }, 'updatePlayerHand failed (continuing anyway)');
+        this.recordDecision({ action: 'updatePlayerHand', turn: currentTurn, error: error.message?.substring(0, 200) });
       }
     } else {
-      // Hand is already drawn for this turn - just get the current state
       this.logger.info(`Using existing hand for turn ${currentTurn}`);
-      pileState = await publicClient.readContract({
-        address: playerDeckManagerAddress,
-        abi: PlayerDeckManagerABI as Abi,
-        functionName: 'getPileState',
-        args: [deckId]
-      }) as { drawPile: `0x${string}`, hand: `0x${string}`, discardPile: `0x${string}` };
-    }
-
-    // Now get the current energy AFTER drawing the hand
-    // This ensures we have the correct energy for the current turn
-    const playerStats = await publicClient.readContract({
-      address: gameAddress,
-      abi: BattleABI as Abi,
-      functionName: 'getPlayerStats',
-      args: [playerId]
-    }) as any;
-
-    const statsBytes = playerStats.stats as string;
-    this.logger.info({ stats: playerStats }, 'Raw player stats');
-    
-    let currentEnergy = getPlayerEnergy(statsBytes);
-    this.logger.info({ energy: currentEnergy }, 'Current energy');
-
-    // Convert hand bits to array of card IDs
-    const handBits = BigInt(pileState.hand);
-    let handCards = cardPileBitsToArray(handBits);
-    this.logger.info({ cards: handCards }, 'Hand cards');
-
-    // Calculate energy requirements for all cards at the beginning
-    const cardEnergyRequirements: Map<number, bigint> = new Map();
-    for (let i = 0; i < handCards.length; i++) {
-      const energyRequired = await publicClient.readContract({
-        address: gameAddress,
-        abi: BattleABI as Abi,
-        functionName: 'energyRequired',
-        args: [playerId, BigInt(i)]
-      }) as bigint;
-      cardEnergyRequirements.set(i, energyRequired);
-      this.logger.info(`Card ${handCards[i]} at index ${i} requires ${energyRequired} energy`);
     }
 
     // Play cards while turn has not ended
     let actionsThisTurn = 0;
     const attemptedCardIndices = new Set<number>(); // Track which cards we've tried
-    
-    // Check if turn has ended
-    let hasEndedTurn = await publicClient.readContract({
-      address: gameAddress,
-      abi: BattleABI as Abi,
-      functionName: 'playerEndedTurn',
-      args: [playerId, currentTurn]
-    }) as boolean;
+    let teamHoldPolls = 0;
+    let handCards: number[] = state.handCards;
+    let currentEnergy = state.energy;
     
     this.logger.info({
       currentTurn: currentTurn.toString(),
       currentEnergy,
       handCardsLength: handCards.length,
       actionsThisTurn,
-      hasEndedTurn
+      hasEndedTurn: state.hasEndedTurn
     }, 'Starting card play loop');
     
-    while (!hasEndedTurn) {
-      // Re-check deckId in case it was created during the game
-      if (deckId === 0n) {
-        const currentDeckId = await publicClient.readContract({
-          address: gameAddress,
-          abi: BattleABI as Abi,
-          functionName: 'playerDeckIds',
-          args: [playerId]
-        }) as bigint;
-        
-        if (currentDeckId === 0n) {
-          this.logger.info(`Deck still not created for player ${playerId}, cannot play cards`);
+    const teamCoordinator = this.config.teamCoordinator;
+    let releaseTeamLock: (() => void) | undefined;
+
+    // The roster is read once per turn, eliminations show up as 0 health in the turn state reads
+    const battlePlayers = await this.getBattlePlayers();
+    const playerReads: PlayerRead[] = battlePlayers.map(player => ({
+      playerId: BigInt(player.playerId),
+      // Adjacency only matters for enemies, and only when the battle enforces it
+      adjacency: rules.enforceAdjacency && player.teamA !== this.config.teamA
+    }));
+
+    try {
+      while (true) {
+        releaseTeamLock?.();
+        releaseTeamLock = undefined;
+
+        // Re-read the turn state before each card play, this picks up the new hand, energy, deck and every player's stats
+        state = await turnStateLoader.load(currentTurn, Math.max(handCards.length, Number(drawCount)), playerReads);
+
+        if (state.hasEndedTurn || state.currentTurn !== currentTurn) {
           break;
         }
-        // Update deckId if it was just created
-        deckId = currentDeckId;
-      }
-
-      // Re-read hand state before each card play
-      const freshPileState = await publicClient.readContract({
-        address: playerDeckManagerAddress,
-        abi: PlayerDeckManagerABI as Abi,
-        functionName: 'getPileState',
-        args: [deckId]
-      }) as { drawPile: `0x${string}`, hand: `0x${string}`, discardPile: `0x${string}` };
 
-      const freshHandBits = BigInt(freshPileState.hand);
-      handCards = cardPileBitsToArray(freshHandBits);
-      this.logger.info({ cards: handCards }, 'Refreshed hand cards');
+        if (state.deckId === 0n) {
+          this.logger.info(`Deck still not created for player ${playerId}, cannot play cards`);
+          break;
+        }
+        deckId = state.deckId;
+
+        handCards = state.handCards;
+        currentEnergy = state.energy;
+        const deckTracker = this.getDeckTracker(drawCount);
+        deckTracker.update(currentTurn, {
+          drawPile: state.drawPileCards,
+          hand: state.handCards,
+          discardPile: state.discardPileCards,
+          exhausted: state.exhaustedCards
+        });
+        this.logger.info({ cards: handCards, energy: currentEnergy }, 'Refreshed hand cards');
 
-      // Find all playable cards (those we can afford with current energy and haven't tried yet)
-      const playableCards: { handIndex: number; cardId: number; energyCost: bigint }[] = [];
+        // Find all playable cards (those we can afford with current energy and haven't tried yet)
+        const playableCards: { handIndex: number; cardId: number; energyCost: bigint }[] = [];
+        const handEnergyRequirements = state.energyRequirements;
       
-      for (let handIndex = 0; handIndex < handCards.length; handIndex++) {
-        const cardId = handCards[handIndex];
+        for (let handIndex = 0; handIndex < handCards.length; handIndex++) {
+          const cardId = handCards[handIndex];
+          const energyRequired = handEnergyRequirements.get(handIndex);
         
-        // Skip cards we've already attempted this turn (by card ID, not hand index)
-        if (attemptedCardIndices.has(cardId)) {
-          continue;
+          // Skip cards we've already attempted this turn (by card ID, not hand index)
+          if (attemptedCardIndices.has(cardId) || energyRequired === undefined) {
+            continue;
+          }
+
+          if (energyRequired <= currentEnergy) {
+            playableCards.push({ handIndex, cardId, energyCost: energyRequired });
+          }
         }
-        
-        // Get the current energy requirement for this hand position
-        const energyRequired = await publicClient.readContract({
-          address: gameAddress,
-          abi: BattleABI as Abi,
-          functionName: 'energyRequired',
-          args: [playerId, BigInt(handIndex)]
-        }) as bigint;
 
-        if (energyRequired <= currentEnergy) {
-          playableCards.push({ handIndex, cardId, energyCost: energyRequired });
+        // Filter out cards we've already attempted
+        const untriedPlayableCards = playableCards.filter(card => !attemptedCardIndices.has(card.cardId));
+
+        // Leave enough time to end the turn, a forfeited turn costs more than an unplayed card
+        const budget = this.getTurnBudget(state, clockOffsetMs);
+        const outOfTime = budget.maxActions === 0;
+        if (outOfTime && untriedPlayableCards.length > 0) {
+          this.logger.warn({ budget, untriedCount: untriedPlayableCards.length }, 'Not enough time left to play another card, ending turn');
         }
-      }
 
-      // Filter out cards we've already attempted
-      const untriedPlayableCards = playableCards.filter(card => !attemptedCardIndices.has(card.cardId));
+        // Ask the strategy for the next action while there is something left to play
+        let action: TurnAction = { type: 'endTurn' };
+        const hand: HandCard[] = [];
+        if (untriedPlayableCards.length > 0 && !outOfTime) {
+          // Teammates take turns so each decision sees the result of the previous play
+          if (teamCoordinator) {
+            releaseTeamLock = await teamCoordinator.acquire();
+          }
+
+          for (let handIndex = 0; handIndex < handCards.length; handIndex++) {
+            const cardId = handCards[handIndex];
+            hand.push({
+              handIndex,
+              cardId,
+              energyCost: handEnergyRequirements.get(handIndex) ?? 0n,
+              attempted: attemptedCardIndices.has(cardId),
+              definition: await this.getCardDefinition(publicClient, playerDeckManagerAddress, deckId, cardId)
+            });
+          }
+          const snapshot = this.buildTurnSnapshot(state, battlePlayers, hand, budget, rules.enforceAdjacency);
+          snapshot.deck = deckTracker.getOutlook();
+
+          if (teamCoordinator) {
+            snapshot.team = this.getTeamPlan(teamCoordinator, snapshot);
+            const hasNonAttacks = getPlayableCards(snapshot).some(card => !isPlainAttack(card));
+            if (snapshot.team.holdAttacks && !hasNonAttacks && !isBudgetConstrained(snapshot) && teamHoldPolls < TEAM_HOLD_MAX_POLLS) {
+              teamHoldPolls++;
+              this.logger.info('Waiting for teammates to play their setup cards');
+              releaseTeamLock?.();
+              releaseTeamLock = undefined;
+              await new Promise(resolve => setTimeout(resolve, TEAM_HOLD_POLL_MS));
+              continue;
+            }
+          }
+
+          action = await this.strategy.chooseAction(snapshot);
+          this.logger.info({ strategy: this.strategy.name, action, budget }, 'Strategy selected action');
+        }
       
-      // If no cards can be played or all playable cards have been tried, end the turn
-      if (playableCards.length === 0 || untriedPlayableCards.length === 0) {
-        this.logger.info({
-          currentTurn: currentTurn.toString(),
-          currentEnergy,
-          playableCardsCount: playableCards.length,
-          untriedCount: untriedPlayableCards.length,
-          attemptedCount: attemptedCardIndices.size,
-          attemptedCards: Array.from(attemptedCardIndices)
-        }, 'No more playable cards');
+        // If no cards can be played, all playable cards have been tried or the strategy is done, end the turn
+        if (action.type === 'endTurn') {
+          this.logger.info({
+            currentTurn: currentTurn.toString(),
+            currentEnergy,
+            playableCardsCount: playableCards.length,
+            untriedCount: untriedPlayableCards.length,
+            attemptedCount: attemptedCardIndices.size,
+            attemptedCards: Array.from(attemptedCardIndices)
+          }, 'No more cards to play');
         
-        // Check if it's still our turn before ending
-        const isStillOurTurn = await publicClient.readContract({
-          address: gameAddress,
-          abi: BattleABI as Abi,
-          functionName: 'isTeamATurn'
-        }) as boolean;
+          // Check if it's still our turn before ending
+          if (state.isTeamATurn !== this.config.teamA) {
+            this.logger.info('Turn has already changed, not ending turn');
+            break;
+          }
         
-        if (isStillOurTurn !== this.config.teamA) {
-          this.logger.info('Turn has already changed, not ending turn');
+          // End the turn
+          const endTurnData = encodeFunctionData({
+            abi: BattleABI as Abi,
+            functionName: 'endTurn',
+            args: [playerId]
+          });
+
+          try {
+            const hash = await this.sendTransaction(publicClient, walletClient, endTurnData);
+            this.logger.info({ tx: hash }, 'Ended turn');
+            this.recordDecision({ action: 'endTurn', turn: currentTurn, transactionHash: hash });
+          } catch (error: any) {
+            this.recordDecision({ action: 'endTurn', turn: currentTurn, error: error.message?.substring(0, 200) });
+            if (error.message?.includes('GameHasNotStartedError')) {
+              this.logger.info('Game has ended, cannot end turn');
+            } else {
+              throw error;
+            }
+          }
           break;
         }
-        
-        // End the turn
-        const endTurnData = encodeFunctionData({
+
+        // Make sure the strategy picked a card we can actually play
+        const selectedCard = untriedPlayableCards.find(card => card.handIndex === action.handIndex && card.cardId === action.cardId);
+        if (!selectedCard) {
+          this.logger.warn({ action }, 'Strategy selected a card that is not playable, marking as attempted');
+          attemptedCardIndices.add(action.cardId);
+          continue;
+        }
+
+        const playableCardId = selectedCard.cardId;
+        const playableHandIndex = selectedCard.handIndex;
+        const energyCost = selectedCard.energyCost;
+
+        // Mark this card as attempted (by card ID, not hand index)
+        attemptedCardIndices.add(playableCardId);
+
+        this.logger.info(`Selected card ID ${playableCardId} at hand index ${playableHandIndex}, energy cost: ${energyCost}`);
+
+        // Encode action parameters for whoever the card targets
+        const cardDefinition = hand[playableHandIndex]?.definition;
+        const cardTarget = cardDefinition?.target ?? 'enemy';
+        const actionParams = encodeActionParams(
+          cardTarget,
+          playerId,
+          action.targetPlayerId ? BigInt(action.targetPlayerId) : undefined
+        );
+
+        const actionType = cardDefinition?.actionType.toString();
+        if (!actionParams) {
+          this.logger.warn({ cardId: playableCardId, actionType, cardTarget }, 'Strategy did not select a target, skipping card');
+          continue;
+        }
+
+        // Play the card using hand index
+        const actionArgs = [playerId, BigInt(playableHandIndex), actionParams] as const;
+        const actionData = encodeFunctionData({
           abi: BattleABI as Abi,
-          functionName: 'endTurn',
-          args: [playerId]
+          functionName: 'action',
+          args: actionArgs
         });
 
+        // Cards used to always be sent with an enemy's player ID, other encodings have not been checked
+        // against how the deck logic decodes them, so they are simulated before they are relayed
+        if (cardTarget === 'none' || cardTarget === 'self') {
+          try {
+            await publicClient.simulateContract({
+              account: account.address,
+              address: this.config.gameAddress as `0x${string}`,
+              abi: BattleABI as Abi,
+              functionName: 'action',
+              args: actionArgs
+            });
+          } catch (error: any) {
+            this.logger.warn({ cardId: playableCardId, actionType, cardTarget, actionParams, error: error?.message?.substring(0, 200) }, 'Card was rejected in simulation, skipping card');
+            continue;
+          }
+        }
+
+        const playDetails = {
+          strategy: this.strategy.name,
+          cardId: playableCardId,
+          handIndex: playableHandIndex,
+          cardTarget,
+          targetPlayerId: action.targetPlayerId
+        };
         try {
-          const hash = await forwardTransaction(
-            {
-              to: gameAddress,
-              data: endTurnData,
-              rpcUrl: this.config.ethRpcUrl,
-              relayerUrl: this.config.relayerUrl,
-              env: { ETH_RPC_URL: this.config.ethRpcUrl } as any
-            },
-            walletClient,
-            this.config.erc2771ForwarderAddress as `0x${string}`
-          );
-          this.logger.info({ tx: hash }, 'Ended turn (no playable cards)');
-          await publicClient.waitForTransactionReceipt({ hash });
-          // Update hasEndedTurn flag after successfully ending turn
-          hasEndedTurn = true;
+          const hash = await this.sendTransaction(publicClient, walletClient, actionData);
+          this.recordDecision({ action: 'playCard', turn: currentTurn, details: playDetails, transactionHash: hash });
+
+          this.logger.info({ cardId: playableCardId, handIndex: playableHandIndex, cardTarget, targetPlayer: action.targetPlayerId, tx: hash }, 'Played card');
+        
+          actionsThisTurn++;
+          this.lastActionTime = Date.now();
         } catch (error: any) {
-          if (error.message?.includes('GameHasNotStartedError')) {
-            this.logger.info('Game has ended, cannot end turn');
+          this.recordDecision({ action: 'playCard', turn: currentTurn, details: playDetails, error: error.message?.substring(0, 200) });
+          if (error.message?.includes('CardNotInHandError')) {
+            // This can happen if there's a race condition or state mismatch
+            this.logger.info({
+              playableHandIndex,
+              playableCardId,
+              attemptedIndices: Array.from(attemptedCardIndices)
+            }, 'CardNotInHandError - marking card as attempted and continuing');
+            // Continue to next iteration instead of breaking - this allows us to try other cards
+            // The attempted card is already marked, so we won't try it again
+            continue;
+          } else if (error.message?.includes('MustBeAdjacentToOpponentError')) {
+            // The target moved out of reach or the battlefield changed since the snapshot
+            this.logger.info({ playableCardId, targetPlayer: action.targetPlayerId }, 'MustBeAdjacentToOpponentError - marking card as attempted and continuing');
+            continue;
+          } else if (error.message?.includes('GameHasNotStartedError')) {
+            this.logger.info('Game has ended, stopping card play');
+            break;
+          } else if (error.message?.includes('InsufficientEnergyError')) {
+            this.logger.warn('Insufficient energy for card, this should not happen with proper energy checking');
+            break;
           } else {
+            this.logger.error({ error: error.message || error }, 'Error playing card');
             throw error;
           }
         }
-        break;
+        // The next iteration's state load picks up the new energy and whether the turn has ended
       }
+    } finally {
+      releaseTeamLock?.();
+      // Teammates shouldn't wait on a character that has stopped playing this turn
+      teamCoordinator?.finishTurn(this.config.playerId, currentTurn);
+    }
 
-      // Randomly select a card from the untried playable cards
-      const selectedCard = untriedPlayableCards[Math.floor(Math.random() * untriedPlayableCards.length)];
-      const playableCardId = selectedCard.cardId;
-      const playableHandIndex = selectedCard.handIndex;
-      const energyCost = selectedCard.energyCost;
+    // Turn should be ended by now, either explicitly when no cards could be played
+    // or automatically by the contract when energy is depleted
+    this.logger.info('Turn play completed');
+  }
+  
+  private recordDecision(decision: Omit<JournalDecision, 'operator' | 'playerId'>) {
+    this.config.journal?.recordDecision(this.config.gameAddress, {
+      operator: 'CharacterOperator',
+      playerId: this.config.playerId,
+      ...decision
+    });
+  }
 
-      // Mark this card as attempted (by card ID, not hand index)
-      attemptedCardIndices.add(playableCardId);
+  private getTeamPlan(teamCoordinator: TeamCoordinator, snapshot: TurnSnapshot): TeamPlan {
+    const pendingSetupCards = getPlayableCards(snapshot).filter(isSetupCard).length;
+    teamCoordinator.reportHand(this.config.playerId, snapshot.currentTurn, pendingSetupCards);
+    return teamCoordinator.getPlan(
+      this.config.playerId,
+      snapshot.currentTurn,
+      getTargetableEnemies(snapshot),
+      getActiveEnemies(snapshot)
+    );
+  }
 
-      this.logger.info(`Randomly selected card ID ${playableCardId} at hand index ${playableHandIndex}, energy cost: ${energyCost}`);
-      
-      // Get active enemy players to target
-      const enemyPlayers = await this.getActiveEnemyPlayers();
-      
-      if (enemyPlayers.length === 0) {
-        this.logger.info('No enemy players available');
-        break;
-      }
+  /**
+   * Forwards a transaction and waits for its receipt, feeding the round trip into the latency estimate
+   */
+  private async sendTransaction(publicClient: any, walletClient: any, data: `0x${string}`): Promise<`0x${string}`> {
+    const startedAt = Date.now();
+    const hash = await forwardTransaction(
+      {
+        to: this.config.gameAddress as `0x${string}`,
+        data,
+        rpcUrl: this.config.ethRpcUrl,
+        relayerUrl: this.config.relayerUrl,
+        env: { ETH_RPC_URL: this.config.ethRpcUrl } as any
+      },
+      walletClient,
+      this.config.erc2771ForwarderAddress as `0x${string}`
+    );
+    await publicClient.waitForTransactionReceipt({ hash });
+    this.txLatency.record(Date.now() - startedAt);
+    return hash;
+  }
 
-      // Target random enemy
-      const randomEnemy = enemyPlayers[Math.floor(Math.random() * enemyPlayers.length)];
-      
-      // Encode action parameters
-      const targetPlayerId = BigInt(randomEnemy.playerId);
-      const actionParams = `0x${targetPlayerId.toString(16).padStart(64, '0')}`;
+  private async loadBattleRules(publicClient: any): Promise<BattleRules> {
+    try {
+      return await getBattleRules(publicClient, this.config.gameAddress);
+    } catch (error: any) {
+      this.logger.warn({ error: error?.message || error }, `Could not read battle rules, assuming a hand size of ${DEFAULT_DRAW_COUNT} without adjacency`);
+      return { drawCount: DEFAULT_DRAW_COUNT, maxTeamSize: 0n, startingLocation: 0n, enforceAdjacency: false };
+    }
+  }
 
-      // Play the card using hand index
-      const actionData = encodeFunctionData({
-        abi: BattleABI as Abi,
-        functionName: 'action',
-        args: [playerId, BigInt(playableHandIndex), actionParams]
-      });
+  /**
+   * Chain time minus local time, block timestamps can drift from the local clock
+   */
+  private async getClockOffsetMs(publicClient: any): Promise<number> {
+    try {
+      const block = await publicClient.getBlock();
+      return Number(block.timestamp) * 1000 - Date.now();
+    } catch (error: any) {
+      this.logger.warn({ error: error?.message || error }, 'Could not read latest block, assuming no clock offset');
+      return 0;
+    }
+  }
 
-      try {
-        const hash = await forwardTransaction(
-          {
-            to: gameAddress,
-            data: actionData,
-            rpcUrl: this.config.ethRpcUrl,
-            relayerUrl: this.config.relayerUrl,
-            env: { ETH_RPC_URL: this.config.ethRpcUrl } as any
-          },
-          walletClient,
-          this.config.erc2771ForwarderAddress as `0x${string}`
-        );
+  private getTurnBudget(state: TurnState, clockOffsetMs: number): TurnBudget {
+    return computeTurnBudget({
+      turnEndsAt: state.turnEndsAt,
+      turnTimerEnabled: state.turnTimerEnabled,
+      nowMs: Date.now() + clockOffsetMs,
+      txEstimateMs: this.txLatency.estimateMs()
+    });
+  }
 
-        this.logger.info({ cardId: playableCardId, handIndex: playableHandIndex, targetPlayer: randomEnemy.playerId, tx: hash }, 'Played card');
-        
-        await publicClient.waitForTransactionReceipt({ hash });
-        
-        // Get updated energy
-        const updatedStats = await publicClient.readContract({
-          address: gameAddress,
-          abi: BattleABI as Abi,
-          functionName: 'getPlayerStats',
-          args: [playerId]
-        }) as any;
-        
-        const updatedStatsBytes = updatedStats.stats as string;
-        currentEnergy = getPlayerEnergy(updatedStatsBytes);
-        
-        actionsThisTurn++;
-        this.logger.info({ energy: currentEnergy, handSize: handCards.length }, 'Updated energy');
-        
-        this.lastActionTime = Date.now();
-        
-        // Sleep for 1 second after successfully playing an action
-        this.logger.info('Sleeping for 1 second after action...');
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      } catch (error: any) {
-        if (error.message?.includes('CardNotInHandError')) {
-          // This can happen if there's a race condition or state mismatch
-          this.logger.info({
-            playableHandIndex,
-            playableCardId,
-            attemptedIndices: Array.from(attemptedCardIndices)
-          }, 'CardNotInHandError - marking card as attempted and continuing');
-          // Continue to next iteration instead of breaking - this allows us to try other cards
-          // The attempted card is already marked, so we won't try it again
-          continue;
-        } else if (error.message?.includes('GameHasNotStartedError')) {
-          this.logger.info('Game has ended, stopping card play');
-          break;
-        } else if (error.message?.includes('InsufficientEnergyError')) {
-          this.logger.warn('Insufficient energy for card, this should not happen with proper energy checking');
-          break;
-        } else {
-          this.logger.error({ error: error.message || error }, 'Error playing card');
-          throw error;
-        }
+  // Piles are followed across turns, so the tracker lives as long as the operator
+  private getDeckTracker(drawCount: bigint): DeckTracker {
+    if (!this.deckTracker) {
+      this.deckTracker = new DeckTracker(Number(drawCount));
+    }
+    return this.deckTracker;
+  }
+
+  // The loader caches the deck manager address and deck ID, so it lives as long as the operator
+  private getTurnStateLoader(publicClient: any): TurnStateLoader {
+    if (!this.turnStateLoader) {
+      this.turnStateLoader = new TurnStateLoader(publicClient, this.config.gameAddress, BigInt(this.config.playerId));
+    }
+    return this.turnStateLoader;
+  }
+
+  /**
+   * Returns the last turn our hand was drawn for. PlayerHandDrawn events are authoritative; the
+   * indexer is only asked when no draw has been observed yet, e.g. right after the operator started.
+   */
+  private async getLastTurnHandDrawn(): Promise<bigint | undefined> {
+    const observed = this.playerTurnTracker.getLastTurnHandDrawn(this.config.playerId);
+    if (observed !== undefined) {
+      return observed;
+    }
+
+    try {
+      const thisPlayer = (await this.getBattlePlayers()).find(p => p.playerId === this.config.playerId);
+      if (thisPlayer?.lastTurnHandDrawn) {
+        const lastTurnHandDrawn = BigInt(thisPlayer.lastTurnHandDrawn);
+        this.playerTurnTracker.recordHandDrawn(this.config.playerId, lastTurnHandDrawn);
+        return lastTurnHandDrawn;
       }
-      
-      // Check if turn has ended after playing card
-      hasEndedTurn = await publicClient.readContract({
-        address: gameAddress,
-        abi: BattleABI as Abi,
-        functionName: 'playerEndedTurn',
-        args: [playerId, currentTurn]
-      }) as boolean;
+    } catch (error: any) {
+      this.logger.warn({ error: error.message }, 'Could not get lastTurnHandDrawn from GraphQL');
     }
+    return undefined;
+  }
 
-    // Turn should be ended by now, either explicitly when no cards could be played
-    // or automatically by the contract when energy is depleted
-    this.logger.info('Turn play completed');
+  /**
+   * Reads the standard deck logic's card definitions before the first turn, so the log scan is not
+   * part of a turn's deadline. A failed read is retried by the catalog after its back-off.
+   */
+  private async preloadCardCatalog() {
+    const publicClient = createPublicClient({
+      chain: arbitrum,
+      transport: createAuthenticatedHttpTransport(this.config.ethRpcUrl, { ETH_RPC_URL: this.config.ethRpcUrl })
+    });
+    await getCardCatalog(publicClient, CONTRACT_ADDRESSES.STANDARD_DECK_LOGIC).load();
   }
-  
+
   private async getBattlePlayers(): Promise<BattlePlayer[]> {
     const graphqlClient = createGraphQLClient({ GRAPHQL_URL: this.config.graphqlUrl });
     const result = await graphqlClient.query<{ battlePlayers: { items: BattlePlayer[] } }>(GraphQLQueries.getBattlePlayers, {
@@ -615,12 +758,94 @@ export class CharacterOperator {
     return result.battlePlayers.items;
   }
 
-  private async getActiveEnemyPlayers(): Promise<BattlePlayer[]> {
-    const graphqlClient = createGraphQLClient({ GRAPHQL_URL: this.config.graphqlUrl });
-    const result = await graphqlClient.query<{ battlePlayers: { items: BattlePlayer[] } }>(GraphQLQueries.getActiveEnemyPlayers, {
-      battleId: this.config.gameAddress.toLowerCase(),
-      isTeamA: this.config.teamA
+  private async getCardDefinition(
+    publicClient: any,
+    playerDeckManagerAddress: `0x${string}`,
+    deckId: bigint,
+    cardId: number
+  ): Promise<CardDefinition | undefined> {
+    const key = `${deckId}-${cardId}`;
+    const cached = this.cardDefinitions.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const card = await publicClient.readContract({
+        address: playerDeckManagerAddress,
+        abi: PlayerDeckManagerABI as Abi,
+        functionName: 'getCard',
+        args: [deckId, BigInt(cardId)]
+      }) as { deck: `0x${string}`, actionType: bigint };
+
+      const deckKey = card.deck.toLowerCase();
+      let deckLogicAddress = this.deckLogicAddresses.get(deckKey);
+      if (!deckLogicAddress) {
+        const deckConfigurationAddress = await publicClient.readContract({
+          address: this.config.gameAddress as `0x${string}`,
+          abi: BattleABI as Abi,
+          functionName: 'deckConfiguration'
+        }) as `0x${string}`;
+
+        deckLogicAddress = await publicClient.readContract({
+          address: deckConfigurationAddress,
+          abi: DeckConfigurationABI as Abi,
+          functionName: 'logicForDeck',
+          args: [card.deck]
+        }) as string;
+        this.deckLogicAddresses.set(deckKey, deckLogicAddress);
+      }
+
+      // Reading the events can take a while, so a turn never waits for them, see preloadCardCatalog
+      const definition = await getCardCatalog(publicClient, deckLogicAddress).getByActionType(BigInt(card.actionType), false);
+      // Fallbacks are looked up again, the catalog may have read the events by the next turn
+      if (definition.effectsKnown) {
+        this.cardDefinitions.set(key, definition);
+      }
+      return definition;
+    } catch (error: any) {
+      this.logger.warn({ error: error?.message || error, cardId }, 'Could not look up card definition');
+      return undefined;
+    }
+  }
+
+  private buildTurnSnapshot(
+    state: TurnState,
+    battlePlayers: BattlePlayer[],
+    hand: HandCard[],
+    budget: TurnBudget,
+    enforceAdjacency: boolean
+  ): TurnSnapshot {
+    // Stats, locations and adjacency were read with the turn state
+    const players: PlayerSnapshot[] = battlePlayers.map(player => {
+      const chainState = state.players.get(player.playerId);
+      const stats = chainState?.stats ?? decodePlayerStats('0x');
+      const location = chainState?.location;
+      const needsAdjacency = enforceAdjacency && player.teamA !== this.config.teamA;
+
+      return {
+        playerId: player.playerId,
+        teamA: player.teamA,
+        // The indexer can lag behind eliminations, so treat a player without health as eliminated
+        eliminated: player.eliminated || (chainState?.stats !== undefined && stats[PlayerStatType.HEALTH] === 0n),
+        stats,
+        location: location ? [location[0], location[1]] : undefined,
+        // A failed read counts as out of reach, targeting it would most likely revert
+        adjacent: needsAdjacency ? chainState?.adjacent === true : undefined
+      };
     });
-    return result.battlePlayers.items;
+
+    return {
+      gameAddress: this.config.gameAddress,
+      playerId: this.config.playerId,
+      teamA: this.config.teamA,
+      currentTurn: state.currentTurn,
+      energy: state.energy,
+      hand,
+      players,
+      turnEndsAt: state.turnEndsAt,
+      budget,
+      battlefield: buildBattlefield(players, enforceAdjacency)
+    };
   }
 }
@@ -0,0 +1,148 @@
+/**
+ * Card IDs in each of a player's piles, as in PlayerDeckManager
+ */
+export interface DeckPiles {
+  drawPile: number[];
+  hand: number[];
+  discardPile: number[];
+  exhausted: number[];
+}
+
+/**
+ * What a strategy knows about the player's deck
+ */
+export interface DeckOutlook extends DeckPiles {
+  // Cards drawn at the start of every turn
+  drawCount: number;
+  // Chance of each card in the deck being in next turn's hand, by card ID
+  nextTurnDrawOdds: Map<number, number>;
+}
+
+export interface TurnDeckHistory {
+  turn: bigint;
+  // Cards in the hand when the turn was first seen
+  drawn: number[];
+  // Cards that left the hand during the turn
+  played: number[];
+}
+
+// Probability that none of `successes` cards are among `draws` cards drawn from `population`
+function probabilityOfNone(population: number, successes: number, draws: number): number {
+  if (successes <= 0 || draws <= 0) return 1;
+  if (draws > population - successes) return 0;
+  let probability = 1;
+  for (let i = 0; i < draws; i++) {
+    probability *= (population - successes - i) / (population - i);
+  }
+  return probability;
+}
+
+/**
+ * Probability that at least one of the given cards is in next turn's hand.
+ *
+ * At the start of a turn the hand is discarded and drawCount cards are drawn from the draw pile.
+ * When the draw pile runs out, the whole draw pile is drawn and the discard pile (now including the
+ * old hand) is reshuffled to draw the rest. Exhausted cards are never drawn.
+ * @param piles - The player's piles at the end of the current turn
+ * @param drawCount - Cards drawn per turn
+ * @param cardIds - The cards of interest
+ * @returns A probability between 0 and 1
+ */
+export function getNextTurnDrawProbability(piles: DeckPiles, drawCount: number, cardIds: number[]): number {
+  const wanted = new Set(cardIds);
+  const inDrawPile = piles.drawPile.filter(cardId => wanted.has(cardId)).length;
+
+  if (piles.drawPile.length >= drawCount) {
+    return 1 - probabilityOfNone(piles.drawPile.length, inDrawPile, drawCount);
+  }
+
+  // Everything left in the draw pile is drawn before the reshuffle
+  if (inDrawPile > 0) {
+    return 1;
+  }
+
+  const reshuffled = [...piles.discardPile, ...piles.hand];
+  const inReshuffled = reshuffled.filter(cardId => wanted.has(cardId)).length;
+  const remainingDraws = Math.min(drawCount - piles.drawPile.length, reshuffled.length);
+  return 1 - probabilityOfNone(reshuffled.length, inReshuffled, remainingDraws);
+}
+
+/**
+ * Follows one player's piles across turns.
+ *
+ * Fed with the pile state the operator reads every iteration, it remembers which cards were drawn
+ * and played each turn and works out the odds of drawing each card next turn.
+ */
+export class DeckTracker {
+  private drawCount: number;
+  private piles: DeckPiles = { drawPile: [], hand: [], discardPile: [], exhausted: [] };
+  private history: TurnDeckHistory[] = [];
+  private maxHistory: number;
+
+  constructor(drawCount: number, maxHistory: number = 20) {
+    this.drawCount = drawCount;
+    this.maxHistory = maxHistory;
+  }
+
+  update(turn: bigint, piles: DeckPiles): void {
+    let current = this.history[this.history.length - 1];
+    if (!current || current.turn !== turn) {
+      current = { turn, drawn: [...piles.hand], played: [] };
+      this.history.push(current);
+      if (this.history.length > this.maxHistory) {
+        this.history.shift();
+      }
+    } else {
+      // Cards that were in hand last time but are gone now have been played
+      const stillInHand = new Set(piles.hand);
+      for (const cardId of this.piles.hand) {
+        if (!stillInHand.has(cardId) && !current.played.includes(cardId)) {
+          current.played.push(cardId);
+        }
+      }
+      // Cards drawn mid-turn, e.g. by a draw effect
+      for (const cardId of piles.hand) {
+        if (!current.drawn.includes(cardId)) {
+          current.drawn.push(cardId);
+        }
+      }
+    }
+
+    this.piles = {
+      drawPile: [...piles.drawPile],
+      hand: [...piles.hand],
+      discardPile: [...piles.discardPile],
+      exhausted: [...piles.exhausted]
+    };
+  }
+
+  getPiles(): DeckPiles {
+    return this.piles;
+  }
+
+  getHistory(turn: bigint): TurnDeckHistory | undefined {
+    return this.history.find(entry => entry.turn === turn);
+  }
+
+  /**
+   * Probability that at least one of the given cards is in next turn's hand
+   */
+  getDrawProbability(cardIds: number[]): number {
+    return getNextTurnDrawProbability(this.piles, this.drawCount, cardIds);
+  }
+
+  getOutlook(): DeckOutlook {
+    return buildDeckOutlook(this.piles, this.drawCount);
+  }
+}
+
+/**
+ * Builds the outlook strategies see from a player's piles
+ */
+export function buildDeckOutlook(piles: DeckPiles, drawCount: number): DeckOutlook {
+  const nextTurnDrawOdds = new Map<number, number>();
+  for (const cardId of [...piles.drawPile, ...piles.hand, ...piles.discardPile]) {
+    nextTurnDrawOdds.set(cardId, getNextTurnDrawProbability(piles, drawCount, [cardId]));
+  }
+  return { ...piles, drawCount, nextTurnDrawOdds };
+}
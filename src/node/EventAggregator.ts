@@ -30,6 +30,8 @@ export class EventAggregator {
   private registrations: Map<string, EventRegistration> = new Map();
   private unwatchFunctions: Map<string, () => void> = new Map();
   private isRunning: boolean = false;
+  // Keeps IDs unique when several operators subscribe to the same event in the same millisecond
+  private subscriptionCount: number = 0;
   private lastHealthCheck: number = 0;
   private isReconnecting: boolean = false;
   private websocketErrors: number = 0;
@@ -98,7 +100,7 @@ export class EventAggregator {
   }
 
   subscribe(subscription: EventSubscription): () => void {
-    const subscriptionId = `${subscription.eventName}-${subscription.address || 'global'}-${Date.now()}`;
+    const subscriptionId = `${subscription.eventName}-${subscription.address || 'global'}-${Date.now()}-${++this.subscriptionCount}`;
     
     this.logger.info(`Subscribing to ${subscription.eventName} on ${subscription.address || 'all addresses'}`);
 
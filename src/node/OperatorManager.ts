@@ -7,7 +7,17 @@ import { CharacterOperator } from "./CharacterOperator";
 import { BattleOperator } from "./BattleOperator";
 import { ActOperator } from "./ActOperator";
 import { EventAggregator } from "./EventAggregator";
+import { BattleStatePoller } from "./BattleStatePoller";
+import { BattleJournal } from "./BattleJournal";
+import { BattleWatchdog } from "./BattleWatchdog";
+import { TeamCoordinator } from "./TeamCoordinator";
+import { BattleJoiner, type AutoJoinCharacter } from "./BattleJoiner";
+import type { TargetingPolicy } from "./strategies";
 import { createLogger } from "../utils/logger";
+import { createAlertSink } from "../utils/alerts";
+import type { MapSourceKind } from "../utils/mapSources";
+import type { HousekeepingMode, HousekeepingRule } from "../utils/partyHousekeeping";
+import { createRandomnessProvider, type RandomnessMode, type RandomnessProvider } from "../utils/randomness";
 import type { Logger } from "pino";
 
 export interface OperatorManagerConfig {
@@ -18,14 +28,52 @@ export interface OperatorManagerConfig {
   operatorPrivateKey: string;
   relayerUrl: string;
   erc2771ForwarderAddress: string;
+  defaultStrategy?: string; // Card play strategy used when a character has no explicit strategy
+  characterStrategies?: Record<string, string>; // Character address -> card play strategy name
+  defaultTargetingPolicy?: TargetingPolicy; // Targeting policy used when a character has no explicit policy
+  characterTargetingPolicies?: Record<string, TargetingPolicy>; // Character address -> targeting policy
+  autoJoinCharacters?: AutoJoinCharacter[]; // Characters joined to battles waiting for players, disabled when empty
+  autoJoinDeckId?: bigint; // Deck auto-joined characters play with
+  autoJoinHealth?: number; // Starting health of auto-joined characters
+  autoJoinEnergy?: number; // Starting energy of auto-joined characters
+  randomnessMode?: RandomnessMode; // How startGame and nextTurn random numbers are drawn. Default: crypto
+  randomnessAuditFile?: string; // JSONL file hash chain commitments and reveals are written to
+  randomnessStateDir?: string; // Directory hash chain seeds and positions are kept in, one file per battle. Default: randomness-state
+  journalDir?: string; // Directory battle timelines are written to. Default: journal
+  stuckTurnMultiple?: number; // Turn durations without a new turn before a battle is flagged as stuck. Default: 3
+  alertWebhookUrl?: string; // Alerts are POSTed here, they are only logged without one
+  mapSource?: MapSourceKind; // Where act maps are loaded from. Default: raf
+  mapDirectory?: string; // Root of the directory and actFile map sources
+  mapCacheDir?: string; // Directory accepted act maps are cached in. Default: map-cache
+  mapRefreshIntervalMs?: number; // How often act maps are checked for changes. Default: 300000
+  battleRoomMonsterSlots?: number; // Monster slots of the deployed BattleRoomData. Default: those of the bundled BattleRoom ABI
+  housekeepingMode?: HousekeepingMode; // Whether party housekeeping calls are only reported or sent. Default: dryRun
+  housekeepingRules?: HousekeepingRule[]; // Party housekeeping rules applied. Default: all
+  housekeepingIntervalMs?: number; // How often act parties are housekept. Default: 600000
+  staleCreatedPartyMs?: number; // How long after creation a CREATED party is cancelled. Default: 86400000
+  goalGraceMs?: number; // How long a party may sit in a completed goal room before it is ended. Default: 3600000
+  housekeepingMaxParties?: number; // Ended parties whose battles are read per housekeeping run. Default: 100
+  housekeepingStateDir?: string; // Directory act parties with nothing left to clean up are kept in. Default: housekeeping
+  rafApiUrl?: string;
+  rafApiUsername?: string;
+  rafApiPassword?: string;
 }
 
+// How long an act whose map source configuration was rejected waits before it is tried again
+const MAP_RETRY_MS = 300000;
+
 export class OperatorManager {
   private config: OperatorManagerConfig;
   private characterOperators: Map<string, CharacterOperator> = new Map();
   private battleOperators: Map<string, BattleOperator> = new Map();
   private actOperators: Map<string, ActOperator> = new Map();
+  private teamCoordinators: Map<string, TeamCoordinator> = new Map(); // `${battle}-${team}` -> coordinator
   private eventAggregator: EventAggregator;
+  private statePoller: BattleStatePoller;
+  private journal: BattleJournal;
+  private watchdog: BattleWatchdog;
+  private battleJoiner?: BattleJoiner;
+  private randomness: RandomnessProvider;
   private intervalId?: NodeJS.Timeout;
   private isRunning: boolean = false;
   private logger: Logger;
@@ -33,6 +81,39 @@ export class OperatorManager {
   constructor(config: OperatorManagerConfig) {
     this.config = config;
     this.eventAggregator = new EventAggregator(config);
+    this.statePoller = new BattleStatePoller(config);
+    this.journal = new BattleJournal({
+      directory: config.journalDir ?? 'journal',
+      eventAggregator: this.eventAggregator,
+      publicClient: createPublicClient({
+        chain: arbitrum,
+        transport: createAuthenticatedHttpTransport(config.ethRpcUrl, { ETH_RPC_URL: config.ethRpcUrl })
+      })
+    });
+    this.watchdog = new BattleWatchdog({
+      statePoller: this.statePoller,
+      alertSink: createAlertSink(config.alertWebhookUrl),
+      turnMultiple: config.stuckTurnMultiple
+    });
+    this.randomness = createRandomnessProvider(config.randomnessMode, {
+      auditLogPath: config.randomnessAuditFile,
+      stateDir: config.randomnessStateDir ?? 'randomness-state',
+      // Commitments are journaled before the battle's first value is used
+      onCommit: (battleAddress, commitment, length) => this.journal.recordDecision(battleAddress, {
+        operator: 'BattleOperator',
+        action: 'commitRandomness',
+        details: { commitment, length }
+      })
+    });
+    if (config.autoJoinCharacters?.length) {
+      this.battleJoiner = new BattleJoiner({
+        ...config,
+        characters: config.autoJoinCharacters,
+        deckId: config.autoJoinDeckId,
+        health: config.autoJoinHealth,
+        energy: config.autoJoinEnergy
+      });
+    }
     this.logger = createLogger({ operator: 'OperatorManager' });
   }
 
@@ -110,6 +191,8 @@ export class OperatorManager {
               this.characterOperators.delete(operatorKey);
             }
           }
+          this.removeTeamCoordinators(battle.id);
+          this.journal.untrack(battle.id);
           continue;
         }
         
@@ -133,10 +216,15 @@ export class OperatorManager {
               gameAddress: battle.id,
               playerId: player.playerId,
               teamA: player.teamA,
-              eventAggregator: this.eventAggregator
+              eventAggregator: this.eventAggregator,
+              teamCoordinator: this.getTeamCoordinator(battle.id, player.teamA),
+              journal: this.journal,
+              strategy: this.getStrategyForCharacter(player.character.id),
+              targetingPolicy: this.getTargetingPolicyForCharacter(player.character.id)
             });
 
             this.characterOperators.set(operatorKey, operator);
+            this.journal.track(battle.id);
             operator.start();
             this.logger.info(`Started CharacterOperator for ${operatorKey} (${player.character.name})`);
           } else {
@@ -157,6 +245,33 @@ export class OperatorManager {
     }
   }
 
+  /**
+   * Returns the coordinator shared by our characters on one team in one battle
+   */
+  private getTeamCoordinator(gameAddress: string, teamA: boolean): TeamCoordinator {
+    const key = `${gameAddress.toLowerCase()}-${teamA ? 'A' : 'B'}`;
+    let coordinator = this.teamCoordinators.get(key);
+    if (!coordinator) {
+      coordinator = new TeamCoordinator({ gameAddress, teamA });
+      this.teamCoordinators.set(key, coordinator);
+    }
+    return coordinator;
+  }
+
+  private removeTeamCoordinators(gameAddress: string) {
+    for (const team of ['A', 'B']) {
+      this.teamCoordinators.delete(`${gameAddress.toLowerCase()}-${team}`);
+    }
+  }
+
+  private getStrategyForCharacter(characterId: string): string | undefined {
+    return this.config.characterStrategies?.[characterId.toLowerCase()] ?? this.config.defaultStrategy;
+  }
+
+  private getTargetingPolicyForCharacter(characterId: string): TargetingPolicy | undefined {
+    return this.config.characterTargetingPolicies?.[characterId.toLowerCase()] ?? this.config.defaultTargetingPolicy;
+  }
+
   private async checkBattleOperators() {
     this.logger.debug("Checking battle operators...");
     try {
@@ -205,12 +320,16 @@ export class OperatorManager {
           existingOperator.stop();
           this.battleOperators.delete(battle.id.toLowerCase());
         }
+        this.journal.untrack(battle.id);
+        this.watchdog.unwatch(battle.id);
+        this.randomness.close(battle.id);
       }
       
-      return gameState === 2;
+      // Battles waiting for players (gameState 1) are operated too, so they get started
+      return gameState === 1 || gameState === 2;
     });
 
-    this.logger.info(`Found ${activeBattles.length} active battles (gameState == 2)`);
+    this.logger.info(`Found ${activeBattles.length} waiting or active battles (gameState 1 or 2)`);
 
     for (const battle of activeBattles) {
       const battleAddress = battle.id.toLowerCase();
@@ -225,12 +344,19 @@ export class OperatorManager {
         operator = new BattleOperator({
           ...this.config,
           gameAddress: battleAddress,
-          eventAggregator: this.eventAggregator
+          eventAggregator: this.eventAggregator,
+          randomness: this.randomness,
+          statePoller: this.statePoller,
+          journal: this.journal
         });
 
         this.battleOperators.set(battleAddress, operator);
+        this.journal.track(battleAddress);
+        this.watchdog.watch(battleAddress);
         operator.start();
         this.logger.info(`Started BattleOperator for ${battleAddress}`);
+      } else if (this.watchdog.isStuck(battleAddress)) {
+        this.logger.warn(`BattleOperator running for ${battleAddress}, but its turn is stuck`);
       } else {
         this.logger.info(`BattleOperator running for ${battleAddress}`);
       }
@@ -256,6 +382,12 @@ export class OperatorManager {
       const actAddress = act.address.toLowerCase();
       let operator = this.actOperators.get(actAddress);
 
+      const mapRejectedAt = operator?.getMapRejectedAt();
+      if (mapRejectedAt && Date.now() - mapRejectedAt < MAP_RETRY_MS) {
+        this.logger.warn(`ActOperator ${actAddress} has no usable map source, trying again later`);
+        continue;
+      }
+
       if (!operator || !operator.isAlive()) {
         if (operator) {
           this.logger.info(`ActOperator ${actAddress} is dead, restarting...`);
@@ -284,7 +416,23 @@ export class OperatorManager {
     }
   }
 
+  private async checkBattleJoins() {
+    if (!this.battleJoiner) return;
+
+    this.logger.debug("Checking battles waiting for players...");
+    try {
+      await this.battleJoiner.checkOpenBattles();
+    } catch (error: any) {
+      if (error.message?.includes('GraphQL endpoint unavailable')) {
+        this.logger.error("GraphQL endpoint is not available. Please ensure the indexer is running.");
+      } else {
+        this.logger.error("Error checking battles to join:", error);
+      }
+    }
+  }
+
   private async checkAndStartBots(): Promise<void> {
+    await this.checkBattleJoins();
     await this.checkCharacterOperators();
     await this.checkBattleOperators();
     await this.checkActOperators();
@@ -303,6 +451,9 @@ export class OperatorManager {
     this.eventAggregator.start();
     this.logger.info("Started EventAggregator");
 
+    // Start the poller shared by all BattleOperators
+    this.statePoller.start();
+
     // Initial check
     try {
       await this.checkAndStartBots();
@@ -342,6 +493,7 @@ export class OperatorManager {
       operator.stop();
     }
     this.characterOperators.clear();
+    this.teamCoordinators.clear();
 
     for (const [key, operator] of this.battleOperators) {
       this.logger.info(`Stopping BattleOperator ${key}`);
@@ -355,6 +507,10 @@ export class OperatorManager {
     }
     this.actOperators.clear();
 
+    this.watchdog.stop();
+    this.statePoller.stop();
+    await this.journal.flush();
+
     // Stop the event aggregator
     this.eventAggregator.stop();
     this.logger.info("Stopped EventAggregator");
@@ -369,14 +525,43 @@ export class OperatorManager {
       })),
       battleOperators: Array.from(this.battleOperators.entries()).map(([key, op]) => ({
         key,
-        alive: op.isAlive()
+        alive: op.isAlive(),
+        stuck: this.watchdog.isStuck(key)
       })),
       actOperators: Array.from(this.actOperators.entries()).map(([key, op]) => ({
         key,
-        alive: op.isAlive()
+        alive: op.isAlive(),
+        mapValid: op.getMapReport()?.valid,
+        mapErrors: op.getMapReport()?.errors.map(error => error.message),
+        mapHash: op.getMapHash(),
+        rejectedMapHash: op.getRejectedMapHash(),
+        housekeeping: op.getHousekeepingReport()
+      })),
+      teamCoordinators: Array.from(this.teamCoordinators.entries()).map(([key, coordinator]) => ({
+        key,
+        members: coordinator.getMemberCount()
       })),
       eventAggregator: {
         alive: this.eventAggregator.isAlive()
+      },
+      journal: {
+        battles: this.journal.getTrackedCount()
+      },
+      statePoller: {
+        alive: this.statePoller.isAlive(),
+        battles: this.statePoller.getBattleCount(),
+        lastBlockNumber: this.statePoller.getLastBlockNumber()?.toString()
+      },
+      watchdog: {
+        battles: this.watchdog.getWatchedCount(),
+        stuckBattles: this.watchdog.getStuckBattles()
+      },
+      randomness: {
+        mode: this.randomness.mode
+      },
+      autoJoin: {
+        enabled: !!this.battleJoiner,
+        characters: this.config.autoJoinCharacters?.length ?? 0
       }
     };
   }
@@ -0,0 +1,94 @@
+/**
+ * A card play seen through PlayerActionEvent
+ */
+export interface ObservedAction {
+  card: bigint;
+  params: `0x${string}`;
+  transactionHash?: string;
+  blockNumber?: bigint;
+}
+
+interface PlayerTurnRecord {
+  lastTurnHandDrawn?: bigint;
+  // Actions since the hand was last drawn
+  actions: ObservedAction[];
+}
+
+/**
+ * Per-player hand and turn state for one battle, built from Battle events.
+ *
+ * PlayerHandDrawn tells us which turn each player's hand was last drawn for without waiting for the
+ * indexer, and PlayerActionEvent records the cards played since. A late log for an older turn
+ * never overwrites a newer one.
+ */
+export class PlayerTurnTracker {
+  private players: Map<string, PlayerTurnRecord> = new Map();
+
+  /**
+   * Handles PlayerHandDrawn logs
+   */
+  handleHandDrawnLogs(logs: any[]): void {
+    for (const log of logs) {
+      const playerId = log.args?.playerId;
+      const turn = log.args?.turn;
+      if (playerId === undefined || turn === undefined) continue;
+      this.recordHandDrawn(BigInt(playerId).toString(), BigInt(turn));
+    }
+  }
+
+  /**
+   * Handles PlayerActionEvent logs
+   */
+  handleActionLogs(logs: any[]): void {
+    for (const log of logs) {
+      const playerId = log.args?.playerId;
+      if (playerId === undefined) continue;
+      this.recordAction(BigInt(playerId).toString(), {
+        card: BigInt(log.args.card ?? 0),
+        params: log.args.cardActionParams ?? '0x',
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber !== undefined && log.blockNumber !== null ? BigInt(log.blockNumber) : undefined
+      });
+    }
+  }
+
+  recordHandDrawn(playerId: string, turn: bigint): void {
+    const record = this.getRecord(playerId);
+    if (record.lastTurnHandDrawn !== undefined && record.lastTurnHandDrawn >= turn) {
+      return;
+    }
+    record.lastTurnHandDrawn = turn;
+    record.actions = [];
+  }
+
+  recordAction(playerId: string, action: ObservedAction): void {
+    const record = this.getRecord(playerId);
+    if (action.transactionHash && record.actions.some(existing => existing.transactionHash === action.transactionHash)) {
+      return;
+    }
+    record.actions.push(action);
+  }
+
+  /**
+   * Returns the last turn the player's hand was drawn for, undefined when no draw has been observed
+   */
+  getLastTurnHandDrawn(playerId: string): bigint | undefined {
+    return this.players.get(playerId)?.lastTurnHandDrawn;
+  }
+
+  /**
+   * Returns the cards the player has played since their hand was last drawn
+   */
+  getActionsSinceDraw(playerId: string): ObservedAction[] {
+    return this.players.get(playerId)?.actions ?? [];
+  }
+
+  private getRecord(playerId: string): PlayerTurnRecord {
+    let record = this.players.get(playerId);
+    if (!record) {
+      record = { actions: [] };
+      this.players.set(playerId, record);
+    }
+    return record;
+  }
+}
@@ -0,0 +1,178 @@
+import { getEffectiveHp, type PlayerSnapshot, type TeamPlan } from "./strategies";
+import { createLogger } from "../utils/logger";
+import type { Logger } from "pino";
+
+export interface TeamCoordinatorConfig {
+  gameAddress: string;
+  teamA: boolean;
+  maxHoldMs?: number; // Longest a member waits for teammates' setup cards. Default: 15000
+  lockTimeoutMs?: number; // Longest a member waits for its turn to play. Default: 30000
+}
+
+interface MemberState {
+  turn?: bigint;
+  // Playable cards that make the rest of the team's attacks hit harder, e.g. vulnerable
+  pendingSetupCards: number;
+  holdingSince?: number;
+}
+
+/**
+ * Coordinates the characters the bot controls on one team in one battle.
+ *
+ * Members share a focus target so damage is not spread across enemies, attacks are held back
+ * while a teammate still has setup cards to play, and card plays are serialized so two members
+ * never decide on a stale view of the same enemy.
+ */
+export class TeamCoordinator {
+  readonly gameAddress: string;
+  readonly teamA: boolean;
+  private members: Map<string, MemberState> = new Map();
+  private focusTargetId?: string;
+  private lockHolder?: object; // Token of the member playing a card
+  private lockWaiters: Array<{ token: object; grant: () => void }> = [];
+  private maxHoldMs: number;
+  private lockTimeoutMs: number;
+  private logger: Logger;
+
+  constructor(config: TeamCoordinatorConfig) {
+    this.gameAddress = config.gameAddress.toLowerCase();
+    this.teamA = config.teamA;
+    this.maxHoldMs = config.maxHoldMs ?? 15000;
+    this.lockTimeoutMs = config.lockTimeoutMs ?? 30000;
+    this.logger = createLogger({
+      operator: 'TeamCoordinator',
+      gameAddress: this.gameAddress
+    }).child({ team: config.teamA ? 'A' : 'B' });
+  }
+
+  join(playerId: string) {
+    if (!this.members.has(playerId)) {
+      this.members.set(playerId, { pendingSetupCards: 0 });
+      this.logger.info({ playerId, members: this.members.size }, 'Member joined');
+    }
+  }
+
+  leave(playerId: string) {
+    if (this.members.delete(playerId)) {
+      this.logger.info({ playerId, members: this.members.size }, 'Member left');
+    }
+  }
+
+  getMemberCount(): number {
+    return this.members.size;
+  }
+
+  /**
+   * Records how many setup cards a member can still play this turn
+   */
+  reportHand(playerId: string, turn: bigint, pendingSetupCards: number) {
+    const member = this.members.get(playerId);
+    if (!member) return;
+    if (member.turn !== turn) {
+      member.holdingSince = undefined;
+    }
+    member.turn = turn;
+    member.pendingSetupCards = pendingSetupCards;
+  }
+
+  /**
+   * Marks a member as done for the turn, so nobody waits on it
+   */
+  finishTurn(playerId: string, turn: bigint) {
+    this.reportHand(playerId, turn, 0);
+  }
+
+  /**
+   * Works out what a member should do next
+   * @param playerId - The member asking
+   * @param turn - The turn being played
+   * @param targetableEnemies - Enemies the member can reach
+   * @param activeEnemies - All enemies still in the battle
+   */
+  getPlan(playerId: string, turn: bigint, targetableEnemies: PlayerSnapshot[], activeEnemies: PlayerSnapshot[]): TeamPlan {
+    // A lone character keeps its own targeting policy and never waits
+    if (this.members.size < 2) {
+      return { holdAttacks: false };
+    }
+
+    return {
+      focusTargetId: this.getFocusTarget(targetableEnemies, activeEnemies),
+      holdAttacks: this.shouldHoldAttacks(playerId, turn)
+    };
+  }
+
+  /**
+   * Waits until no other member is playing a card and returns the function that releases the lock.
+   * Stops waiting after lockTimeoutMs and takes the lock over, so a stuck teammate cannot stall the
+   * whole team: later members wait on the new holder, and the stuck one's release does nothing.
+   */
+  async acquire(): Promise<() => void> {
+    const token = {};
+    const release = () => this.release(token);
+    if (!this.lockHolder) {
+      this.lockHolder = token;
+      return release;
+    }
+
+    let timeoutId: NodeJS.Timeout | undefined;
+    const granted = await Promise.race([
+      new Promise<boolean>(resolve => { this.lockWaiters.push({ token, grant: () => resolve(true) }); }),
+      new Promise<boolean>(resolve => { timeoutId = setTimeout(() => resolve(false), this.lockTimeoutMs); })
+    ]);
+    clearTimeout(timeoutId);
+
+    if (!granted && this.lockHolder !== token) {
+      this.logger.warn({ lockTimeoutMs: this.lockTimeoutMs }, 'Timed out waiting for a teammate to finish playing, taking over the lock');
+      this.lockWaiters = this.lockWaiters.filter(waiter => waiter.token !== token);
+      this.lockHolder = token;
+    }
+    return release;
+  }
+
+  private release(token: object) {
+    // Holders that were taken over, or release twice, no longer own the lock
+    if (this.lockHolder !== token) return;
+    const next = this.lockWaiters.shift();
+    this.lockHolder = next?.token;
+    next?.grant();
+  }
+
+  private getFocusTarget(targetableEnemies: PlayerSnapshot[], activeEnemies: PlayerSnapshot[]): string | undefined {
+    if (targetableEnemies.some(enemy => enemy.playerId === this.focusTargetId)) {
+      return this.focusTargetId;
+    }
+
+    const closestToElimination = [...targetableEnemies].sort((a, b) => {
+      const difference = getEffectiveHp(a) - getEffectiveHp(b);
+      return difference < 0n ? -1 : difference > 0n ? 1 : Number(BigInt(a.playerId) - BigInt(b.playerId));
+    })[0];
+
+    // Only move the team's focus once the current target is gone, not when it is out of this member's reach
+    const focusStillActive = activeEnemies.some(enemy => enemy.playerId === this.focusTargetId);
+    if (!focusStillActive && closestToElimination) {
+      this.focusTargetId = closestToElimination.playerId;
+      this.logger.info({ focusTargetId: this.focusTargetId }, 'New focus target');
+    }
+    return closestToElimination?.playerId;
+  }
+
+  private shouldHoldAttacks(playerId: string, turn: bigint): boolean {
+    const member = this.members.get(playerId);
+    if (!member) return false;
+
+    const teammatesWithSetup = Array.from(this.members.entries()).some(([id, other]) =>
+      id !== playerId && other.turn === turn && other.pendingSetupCards > 0
+    );
+    if (!teammatesWithSetup) {
+      member.holdingSince = undefined;
+      return false;
+    }
+
+    member.holdingSince ??= Date.now();
+    if (Date.now() - member.holdingSince > this.maxHoldMs) {
+      // Teammates are taking too long, attack anyway rather than waste the turn
+      return false;
+    }
+    return true;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Estimates how long a forwarded transaction takes from submission to receipt.
+ *
+ * Uses the same smoothing as TCP round-trip estimation: an exponential moving
+ * average of the latency plus a multiple of its mean deviation, so a relayer that
+ * is slow or jittery gets a proportionally larger allowance.
+ */
+export class TxLatencyEstimator {
+  private averageMs: number;
+  private deviationMs: number;
+  private samples: number = 0;
+  private readonly alpha: number;
+
+  constructor(initialEstimateMs: number = 4000, alpha: number = 0.25) {
+    this.averageMs = initialEstimateMs;
+    this.deviationMs = initialEstimateMs / 2;
+    this.alpha = alpha;
+  }
+
+  record(latencyMs: number): void {
+    if (this.samples === 0) {
+      // The first real measurement replaces the initial guess
+      this.averageMs = latencyMs;
+      this.deviationMs = latencyMs / 2;
+    } else {
+      this.deviationMs = (1 - this.alpha) * this.deviationMs + this.alpha * Math.abs(latencyMs - this.averageMs);
+      this.averageMs = (1 - this.alpha) * this.averageMs + this.alpha * latencyMs;
+    }
+    this.samples++;
+  }
+
+  /**
+   * Pessimistic estimate of the next transaction's latency in milliseconds
+   */
+  estimateMs(): number {
+    return Math.ceil(this.averageMs + 2 * this.deviationMs);
+  }
+
+  getSampleCount(): number {
+    return this.samples;
+  }
+}
+
+/**
+ * How much of the current turn is left, as seen by the operator
+ */
+export interface TurnBudget {
+  // Milliseconds until the turn ends, undefined when the battle has no turn timer
+  remainingMs?: number;
+  // Expected time for one more transaction to be mined
+  txEstimateMs: number;
+  // Cards that can still be played while leaving time to end the turn, undefined when unlimited
+  maxActions?: number;
+}
+
+export interface TurnBudgetInput {
+  // Unix timestamp in seconds at which the turn ends, 0 when unknown
+  turnEndsAt: bigint;
+  turnTimerEnabled: boolean;
+  // Chain time in milliseconds, i.e. the local clock corrected for drift from the latest block
+  nowMs: number;
+  txEstimateMs: number;
+  // Extra time kept in reserve on top of the endTurn transaction
+  safetyMarginMs?: number;
+}
+
+/**
+ * Works out how many more cards can be played before endTurn has to be sent.
+ * One transaction's worth of time is always reserved for endTurn itself.
+ */
+export function computeTurnBudget(input: TurnBudgetInput): TurnBudget {
+  const { turnEndsAt, turnTimerEnabled, nowMs, txEstimateMs, safetyMarginMs = 1000 } = input;
+
+  if (!turnTimerEnabled || turnEndsAt === 0n) {
+    return { txEstimateMs };
+  }
+
+  const remainingMs = Number(turnEndsAt) * 1000 - nowMs;
+  const spendableMs = remainingMs - txEstimateMs - safetyMarginMs;
+  const maxActions = spendableMs > 0 && txEstimateMs > 0 ? Math.floor(spendableMs / txEstimateMs) : 0;
+
+  return { remainingMs, txEstimateMs, maxActions };
+}
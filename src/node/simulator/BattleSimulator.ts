@@ -0,0 +1,315 @@
+import { EffectType, type CardDefinition } from "../../utils/cardCatalog";
+import { PlayerStatType } from "../../utils/playerStats";
+import { getPlayableCards, type CardPlayStrategy, type PlayerSnapshot, type TurnSnapshot } from "../strategies";
+import { buildDeckOutlook } from "../DeckTracker";
+import { createSeededRandom } from "./seededRandom";
+
+export interface SimulatedPlayerConfig {
+  playerId: string;
+  teamA: boolean;
+  health: number;
+  deck: CardDefinition[];
+  strategy: CardPlayStrategy;
+  location?: [bigint, bigint];
+}
+
+export interface BattleSimulatorConfig {
+  players: SimulatedPlayerConfig[];
+  seed: number;
+  teamAStarts?: boolean; // Default: true
+  drawCount?: number; // Cards drawn per turn, mirrors Battle.DRAW_COUNT. Default: 5
+  energyPerTurn?: number; // Default: 3
+  turnDuration?: number; // Seconds, only used for the snapshot deadline. Default: 60
+  maxTurns?: number; // The match is a draw after this many turns. Default: 200
+  maxActionsPerTurn?: number; // Guards against strategies that never end their turn. Default: 50
+}
+
+export type SimulationWinner = 'A' | 'B' | 'draw';
+
+export interface SimulationResult {
+  winner: SimulationWinner;
+  turns: number;
+  actions: number;
+}
+
+interface SimulatedPlayer {
+  config: SimulatedPlayerConfig;
+  stats: number[]; // Indexed by PlayerStatType, uint8 like the contract
+  maxHealth: number;
+  eliminated: boolean;
+  endedTurn: boolean;
+  // Card IDs are indices into the deck, like the PlayerDeckManager bit positions
+  drawPile: number[];
+  hand: number[];
+  discardPile: number[];
+  exhaustedCards: number[];
+}
+
+const STAT_COUNT = 30;
+const MAX_STAT = 255;
+
+// Effects that land on the chosen target rather than the player
+const TARGETED_EFFECTS = new Set<number>([EffectType.DAMAGE, EffectType.VULNERABLE, EffectType.WEAK, EffectType.HEAL]);
+
+/**
+ * Deterministic, in-process heuristic model of a Battle, for comparing strategies against each other.
+ *
+ * The turn flow follows the contract: the starting team's players get a fresh hand and energy
+ * (nextTurn + updatePlayerHand), play cards through action, and the turn passes once every active
+ * player has called endTurn. Piles behave like PlayerDeckManager: the hand is discarded and redrawn
+ * each turn and the discard pile is reshuffled into the draw pile when it runs out.
+ *
+ * The combat rules are not the contract's. The Battle and StandardDeckLogic sources are not part of
+ * this repository, so applyEffect uses assumed card game rules, and there is no battlefield, so
+ * adjacency and movement are not modelled. Win rates are only a relative signal between strategies,
+ * not a prediction of on-chain results.
+ */
+export class BattleSimulator {
+  private config: Required<Omit<BattleSimulatorConfig, 'players' | 'seed'>> & Pick<BattleSimulatorConfig, 'seed'>;
+  private random: () => number;
+  private players: SimulatedPlayer[];
+  private currentTurn: number = 0;
+  private teamATurn: boolean = true;
+  private winner?: SimulationWinner;
+  private actions: number = 0;
+
+  constructor(config: BattleSimulatorConfig) {
+    this.config = {
+      seed: config.seed,
+      teamAStarts: config.teamAStarts ?? true,
+      drawCount: config.drawCount ?? 5,
+      energyPerTurn: config.energyPerTurn ?? 3,
+      turnDuration: config.turnDuration ?? 60,
+      maxTurns: config.maxTurns ?? 200,
+      maxActionsPerTurn: config.maxActionsPerTurn ?? 50
+    };
+    this.random = createSeededRandom(config.seed);
+    this.players = config.players.map(playerConfig => {
+      const stats = new Array(STAT_COUNT).fill(0);
+      stats[PlayerStatType.HEALTH] = Math.min(playerConfig.health, MAX_STAT);
+      return {
+        config: playerConfig,
+        stats,
+        maxHealth: stats[PlayerStatType.HEALTH],
+        eliminated: false,
+        endedTurn: false,
+        drawPile: playerConfig.deck.map((_, cardId) => cardId),
+        hand: [],
+        discardPile: [],
+        exhaustedCards: []
+      };
+    });
+  }
+
+  async run(): Promise<SimulationResult> {
+    this.startGame();
+
+    while (!this.winner && this.currentTurn <= this.config.maxTurns) {
+      for (const player of this.getActivePlayers(this.teamATurn)) {
+        await this.playPlayerTurn(player);
+        if (this.winner) break;
+      }
+      if (!this.winner) {
+        this.nextTurn();
+      }
+    }
+
+    return {
+      winner: this.winner ?? 'draw',
+      turns: Math.min(this.currentTurn, this.config.maxTurns),
+      actions: this.actions
+    };
+  }
+
+  private startGame() {
+    if (this.getActivePlayers(true).length === 0 || this.getActivePlayers(false).length === 0) {
+      throw new Error('BothTeamsMustHavePlayersError');
+    }
+    this.teamATurn = this.config.teamAStarts;
+    this.currentTurn = 1;
+    this.beginTurn();
+  }
+
+  private nextTurn() {
+    // Assumed rule: debuffs tick down at the end of the affected team's turn
+    for (const player of this.getActivePlayers(this.teamATurn)) {
+      player.stats[PlayerStatType.VULNERABLE] = Math.max(0, player.stats[PlayerStatType.VULNERABLE] - 1);
+      player.stats[PlayerStatType.WEAK] = Math.max(0, player.stats[PlayerStatType.WEAK] - 1);
+    }
+    this.teamATurn = !this.teamATurn;
+    this.currentTurn++;
+    this.beginTurn();
+  }
+
+  private beginTurn() {
+    for (const player of this.getActivePlayers(this.teamATurn)) {
+      // Assumed rule: block only lasts until the player's next turn
+      player.stats[PlayerStatType.BLOCK] = 0;
+      player.stats[PlayerStatType.ENERGY] = this.config.energyPerTurn;
+      player.endedTurn = false;
+      this.updatePlayerHand(player);
+    }
+  }
+
+  private updatePlayerHand(player: SimulatedPlayer) {
+    player.discardPile.push(...player.hand);
+    player.hand = [];
+    this.drawCards(player, this.config.drawCount);
+  }
+
+  private drawCards(player: SimulatedPlayer, count: number) {
+    for (let i = 0; i < count; i++) {
+      if (player.drawPile.length === 0) {
+        if (player.discardPile.length === 0) break;
+        player.drawPile = player.discardPile;
+        player.discardPile = [];
+      }
+      const [cardId] = player.drawPile.splice(Math.floor(this.random() * player.drawPile.length), 1);
+      player.hand.push(cardId);
+    }
+    // Hands are bitflags on chain, so hand indices follow card ID order
+    player.hand.sort((a, b) => a - b);
+  }
+
+  private async playPlayerTurn(player: SimulatedPlayer) {
+    const attemptedCardIds = new Set<number>();
+
+    for (let i = 0; i < this.config.maxActionsPerTurn && !player.eliminated && !this.winner; i++) {
+      const snapshot = this.getSnapshot(player, attemptedCardIds);
+      if (getPlayableCards(snapshot).length === 0) break;
+
+      const action = await player.config.strategy.chooseAction(snapshot);
+      if (action.type === 'endTurn') break;
+
+      // Like the operator, a card that fails is not tried again this turn
+      attemptedCardIds.add(action.cardId);
+      this.action(player, action.handIndex, action.targetPlayerId);
+    }
+
+    player.endedTurn = true;
+  }
+
+  /**
+   * Plays a card. Returns false where the contract would revert.
+   */
+  private action(player: SimulatedPlayer, handIndex: number, targetPlayerId?: string): boolean {
+    const cardId = player.hand[handIndex];
+    if (cardId === undefined) return false;
+
+    const definition = player.config.deck[cardId];
+    if (player.stats[PlayerStatType.ENERGY] < definition.energy) return false;
+
+    let target: SimulatedPlayer | undefined;
+    if (definition.target === 'self') {
+      target = player;
+    } else if (definition.target === 'enemy' || definition.target === 'ally') {
+      target = this.players.find(candidate => candidate.config.playerId === targetPlayerId && !candidate.eliminated);
+      if (!target) return false;
+      const sameTeam = target.config.teamA === player.config.teamA;
+      if ((definition.target === 'enemy') === sameTeam) return false;
+    }
+
+    player.stats[PlayerStatType.ENERGY] -= definition.energy;
+    player.hand.splice(handIndex, 1);
+    // discardType 0 puts the card back in the discard pile, anything else exhausts it
+    if (definition.discardType === 0) {
+      player.discardPile.push(cardId);
+    } else {
+      player.exhaustedCards.push(cardId);
+    }
+
+    for (const effect of definition.effects) {
+      this.applyEffect(player, TARGETED_EFFECTS.has(effect.effectType) && target ? target : player, effect.effectType, effect.amount);
+    }
+
+    this.actions++;
+    this.checkWinner();
+    return true;
+  }
+
+  // Assumed rules, not taken from the contract: strength adds to damage, weak scales it by 3/4,
+  // vulnerable by 3/2 and block absorbs it first
+  private applyEffect(source: SimulatedPlayer, target: SimulatedPlayer, effectType: number, amount: number) {
+    const stats = target.stats;
+    switch (effectType) {
+      case EffectType.DAMAGE: {
+        let damage = amount + source.stats[PlayerStatType.STRENGTH];
+        if (source.stats[PlayerStatType.WEAK] > 0) damage = Math.floor((damage * 3) / 4);
+        if (stats[PlayerStatType.VULNERABLE] > 0) damage = Math.floor((damage * 3) / 2);
+        const blocked = Math.min(stats[PlayerStatType.BLOCK], damage);
+        stats[PlayerStatType.BLOCK] -= blocked;
+        stats[PlayerStatType.HEALTH] = Math.max(0, stats[PlayerStatType.HEALTH] - (damage - blocked));
+        if (stats[PlayerStatType.HEALTH] === 0) {
+          target.eliminated = true;
+        }
+        break;
+      }
+      case EffectType.BLOCK:
+        stats[PlayerStatType.BLOCK] = Math.min(MAX_STAT, stats[PlayerStatType.BLOCK] + amount);
+        break;
+      case EffectType.HEAL:
+        stats[PlayerStatType.HEALTH] = Math.min(target.maxHealth, stats[PlayerStatType.HEALTH] + amount);
+        break;
+      case EffectType.VULNERABLE:
+        stats[PlayerStatType.VULNERABLE] = Math.min(MAX_STAT, stats[PlayerStatType.VULNERABLE] + amount);
+        break;
+      case EffectType.WEAK:
+        stats[PlayerStatType.WEAK] = Math.min(MAX_STAT, stats[PlayerStatType.WEAK] + amount);
+        break;
+      case EffectType.STRENGTH:
+        stats[PlayerStatType.STRENGTH] = Math.min(MAX_STAT, stats[PlayerStatType.STRENGTH] + amount);
+        break;
+      case EffectType.ENERGY:
+        stats[PlayerStatType.ENERGY] = Math.min(MAX_STAT, stats[PlayerStatType.ENERGY] + amount);
+        break;
+      case EffectType.DRAW:
+        this.drawCards(target, amount);
+        break;
+    }
+  }
+
+  private checkWinner() {
+    if (this.getActivePlayers(false).length === 0) {
+      this.winner = 'A';
+    } else if (this.getActivePlayers(true).length === 0) {
+      this.winner = 'B';
+    }
+  }
+
+  private getActivePlayers(teamA: boolean): SimulatedPlayer[] {
+    return this.players.filter(player => player.config.teamA === teamA && !player.eliminated);
+  }
+
+  private getSnapshot(player: SimulatedPlayer, attemptedCardIds: Set<number>): TurnSnapshot {
+    const players: PlayerSnapshot[] = this.players.map(other => ({
+      playerId: other.config.playerId,
+      teamA: other.config.teamA,
+      eliminated: other.eliminated,
+      stats: other.stats.map(stat => BigInt(stat)),
+      location: other.config.location
+    }));
+
+    return {
+      gameAddress: 'simulator',
+      playerId: player.config.playerId,
+      teamA: player.config.teamA,
+      currentTurn: BigInt(this.currentTurn),
+      energy: BigInt(player.stats[PlayerStatType.ENERGY]),
+      hand: player.hand.map((cardId, handIndex) => ({
+        handIndex,
+        cardId,
+        energyCost: BigInt(player.config.deck[cardId].energy),
+        attempted: attemptedCardIds.has(cardId),
+        definition: player.config.deck[cardId]
+      })),
+      players,
+      turnEndsAt: BigInt(this.currentTurn * this.config.turnDuration),
+      deck: buildDeckOutlook({
+        drawPile: player.drawPile,
+        hand: player.hand,
+        discardPile: player.discardPile,
+        exhausted: player.exhaustedCards
+      }, this.config.drawCount)
+    };
+  }
+}
@@ -0,0 +1,3 @@
+export { BattleSimulator, type BattleSimulatorConfig, type SimulatedPlayerConfig, type SimulationResult, type SimulationWinner } from "./BattleSimulator";
+export * from "./runMatches";
+export { createSeededRandom, deriveSeed } from "./seededRandom";
@@ -0,0 +1,165 @@
+import { decodeActionDefinition, EffectType, type CardDefinition } from "../../utils/cardCatalog";
+import { createCardPlayStrategy, type TargetingPolicy } from "../strategies";
+import { BattleSimulator } from "./BattleSimulator";
+import { createSeededRandom, deriveSeed } from "./seededRandom";
+
+// Card as written in a scenario file, effect types may be numbers or EffectType names
+export interface ScenarioCard {
+  name?: string;
+  energy: number;
+  discardType?: number;
+  effects: { effectType: number | string; amount: number }[];
+}
+
+export interface ScenarioPlayer {
+  health: number;
+  deck: ScenarioCard[];
+  location?: [number, number];
+}
+
+export interface SimulationScenario {
+  drawCount?: number;
+  energyPerTurn?: number;
+  maxTurns?: number;
+  teamA: ScenarioPlayer[];
+  teamB: ScenarioPlayer[];
+}
+
+export interface StrategySpec {
+  name: string;
+  targeting?: TargetingPolicy;
+}
+
+export interface RunMatchesOptions {
+  scenario: SimulationScenario;
+  strategyA: StrategySpec;
+  strategyB: StrategySpec;
+  matches: number;
+  seed: number;
+}
+
+export interface MatchReport {
+  strategyA: string;
+  strategyB: string;
+  matches: number;
+  winsA: number;
+  winsB: number;
+  draws: number;
+  winRateA: number;
+  winRateB: number;
+  averageTurns: number;
+}
+
+function starterCard(name: string, energy: number, effects: ScenarioCard['effects']): ScenarioCard {
+  return { name, energy, effects };
+}
+
+const STARTER_DECK: ScenarioCard[] = [
+  ...Array(5).fill(starterCard('Strike', 1, [{ effectType: 'DAMAGE', amount: 6 }])),
+  ...Array(4).fill(starterCard('Defend', 1, [{ effectType: 'BLOCK', amount: 5 }])),
+  starterCard('Bash', 2, [{ effectType: 'DAMAGE', amount: 8 }, { effectType: 'VULNERABLE', amount: 2 }])
+];
+
+/**
+ * One character against one monster, both with a basic starter deck
+ */
+export const DEFAULT_SCENARIO: SimulationScenario = {
+  teamA: [{ health: 30, deck: STARTER_DECK }],
+  teamB: [{ health: 30, deck: STARTER_DECK }]
+};
+
+function parseEffectType(effectType: number | string): number {
+  if (typeof effectType === 'number') return effectType;
+  const value = EffectType[effectType.toUpperCase() as keyof typeof EffectType];
+  if (value === undefined) {
+    throw new Error(`Unknown effect type "${effectType}" in scenario`);
+  }
+  return value;
+}
+
+export function scenarioDeckToDefinitions(deck: ScenarioCard[]): CardDefinition[] {
+  // Scenario effects are named by EffectType, so their numbering holds in the simulator whether or not it matches the contract
+  return deck.map((card, index) => decodeActionDefinition(BigInt(index), {
+    energy: card.energy,
+    discardType: card.discardType ?? 0,
+    effects: card.effects.map(effect => ({ effectType: parseEffectType(effect.effectType), amount: effect.amount }))
+  }, card.name, true));
+}
+
+function describeStrategy(spec: StrategySpec): string {
+  return spec.targeting ? `${spec.name} (${spec.targeting})` : spec.name;
+}
+
+/**
+ * Plays seeded matches between two strategies. Strategy A always controls team A;
+ * the starting team alternates between matches so neither side gets the first move every time.
+ */
+export async function runMatches(options: RunMatchesOptions): Promise<MatchReport> {
+  const { scenario, strategyA, strategyB, matches, seed } = options;
+  const deckA = scenario.teamA.map(player => scenarioDeckToDefinitions(player.deck));
+  const deckB = scenario.teamB.map(player => scenarioDeckToDefinitions(player.deck));
+
+  let winsA = 0;
+  let winsB = 0;
+  let draws = 0;
+  let totalTurns = 0;
+
+  for (let match = 0; match < matches; match++) {
+    const matchSeed = deriveSeed(seed, match);
+    const team = (players: ScenarioPlayer[], decks: CardDefinition[][], teamA: boolean, spec: StrategySpec, offset: number) =>
+      players.map((player, index) => ({
+        playerId: (offset + index + 1).toString(),
+        teamA,
+        health: player.health,
+        deck: decks[index],
+        location: player.location ? [BigInt(player.location[0]), BigInt(player.location[1])] as [bigint, bigint] : undefined,
+        // Every player gets a fresh strategy with its own random stream
+        strategy: createCardPlayStrategy(spec.name, {
+          targeting: spec.targeting,
+          random: createSeededRandom(deriveSeed(matchSeed, offset + index + 1))
+        })
+      }));
+
+    const simulator = new BattleSimulator({
+      seed: matchSeed,
+      teamAStarts: match % 2 === 0,
+      drawCount: scenario.drawCount,
+      energyPerTurn: scenario.energyPerTurn,
+      maxTurns: scenario.maxTurns,
+      players: [
+        ...team(scenario.teamA, deckA, true, strategyA, 0),
+        ...team(scenario.teamB, deckB, false, strategyB, scenario.teamA.length)
+      ]
+    });
+
+    const result = await simulator.run();
+    totalTurns += result.turns;
+    if (result.winner === 'A') winsA++;
+    else if (result.winner === 'B') winsB++;
+    else draws++;
+  }
+
+  return {
+    strategyA: describeStrategy(strategyA),
+    strategyB: describeStrategy(strategyB),
+    matches,
+    winsA,
+    winsB,
+    draws,
+    winRateA: matches > 0 ? winsA / matches : 0,
+    winRateB: matches > 0 ? winsB / matches : 0,
+    averageTurns: matches > 0 ? totalTurns / matches : 0
+  };
+}
+
+export function formatMatchReport(report: MatchReport): string {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+  return [
+    'Heuristic model, not the Battle contract\'s combat rules: compare strategies, do not read as on-chain win rates',
+    `Matches: ${report.matches}`,
+    `Team A - ${report.strategyA}: ${report.winsA} wins (${percent(report.winRateA)})`,
+    `Team B - ${report.strategyB}: ${report.winsB} wins (${percent(report.winRateB)})`,
+    `Draws: ${report.draws}`,
+    `Average turns: ${report.averageTurns.toFixed(1)}`
+  ].join('\n');
+}
@@ -0,0 +1,22 @@
+/**
+ * Creates a deterministic random number generator (mulberry32)
+ * @param seed - Any 32-bit integer seed
+ * @returns A function returning values in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derives an independent seed for a sub-stream, e.g. one per match or per strategy
+ */
+export function deriveSeed(seed: number, stream: number): number {
+  return Math.floor(createSeededRandom((seed ^ Math.imul(stream + 1, 0x9e3779b1)) >>> 0)() * 4294967296);
+}
@@ -0,0 +1,194 @@
+import { EffectType, type CardDefinition } from "../../utils/cardCatalog";
+import type { DeckOutlook } from "../DeckTracker";
+import type { TurnBudget } from "../TurnBudget";
+
+/**
+ * Types shared by every card-play strategy.
+ *
+ * A strategy receives a read-only snapshot of the battle at the moment the
+ * CharacterOperator needs a decision and answers with the next action to take.
+ * Strategies never talk to the chain themselves, which keeps them easy to test
+ * and lets teams swap in their own AI without touching the operator loop.
+ */
+
+/**
+ * A card currently in the player's hand
+ */
+export interface HandCard {
+  handIndex: number;
+  cardId: number;
+  energyCost: bigint;
+  // True when the operator already tried this card during the current turn
+  attempted: boolean;
+  // What the card does, when it could be looked up in the card catalog
+  definition?: CardDefinition;
+}
+
+/**
+ * A player taking part in the battle, as seen at snapshot time
+ */
+export interface PlayerSnapshot {
+  playerId: string;
+  teamA: boolean;
+  eliminated: boolean;
+  // Decoded stats indexed by PlayerStatType
+  stats: bigint[];
+  // [x, y] location on the battlefield, when known
+  location?: [bigint, bigint];
+  // Whether the player is adjacent to the acting player, only read when the battle enforces adjacency
+  adjacent?: boolean;
+}
+
+/**
+ * Who stands where, keyed by locationKey
+ */
+export interface Battlefield {
+  // When true, action reverts with MustBeAdjacentToOpponentError for enemies that are not adjacent
+  enforceAdjacency: boolean;
+  occupants: Map<string, string>;
+}
+
+/**
+ * Everything a strategy knows about the current turn
+ */
+export interface TurnSnapshot {
+  gameAddress: string;
+  playerId: string;
+  teamA: boolean;
+  currentTurn: bigint;
+  energy: bigint;
+  hand: HandCard[];
+  players: PlayerSnapshot[];
+  // Unix timestamp (seconds) at which the current turn ends
+  turnEndsAt: bigint;
+  // Time left to act, strategies should favour their best cards when maxActions is low
+  budget?: TurnBudget;
+  // Player positions, undefined when they could not be read
+  battlefield?: Battlefield;
+  // Instructions from the team coordinator when the bot controls several characters on this team
+  team?: TeamPlan;
+  // The player's piles and the odds of drawing each card next turn, when known
+  deck?: DeckOutlook;
+}
+
+/**
+ * What the team coordinator wants a member to do
+ */
+export interface TeamPlan {
+  // The enemy the whole team is attacking
+  focusTargetId?: string;
+  // True while a teammate still has setup cards to play, only setup and non-attack cards should be played
+  holdAttacks: boolean;
+}
+
+export type TurnAction =
+  | { type: 'playCard'; handIndex: number; cardId: number; targetPlayerId?: string }
+  | { type: 'endTurn' };
+
+export interface CardPlayStrategy {
+  readonly name: string;
+  chooseAction(snapshot: TurnSnapshot): TurnAction | Promise<TurnAction>;
+}
+
+/**
+ * Returns the cards in hand that can be afforded and have not been attempted this turn
+ */
+export function getPlayableCards(snapshot: TurnSnapshot): HandCard[] {
+  return snapshot.hand.filter(card => !card.attempted && card.energyCost <= snapshot.energy);
+}
+
+/**
+ * Returns the players on our own team that are still in the battle, including ourselves
+ */
+export function getActiveAllies(snapshot: TurnSnapshot): PlayerSnapshot[] {
+  return snapshot.players.filter(player => player.teamA === snapshot.teamA && !player.eliminated);
+}
+
+/**
+ * Returns the players on the opposing team that are still in the battle
+ */
+export function getActiveEnemies(snapshot: TurnSnapshot): PlayerSnapshot[] {
+  return snapshot.players.filter(player => player.teamA !== snapshot.teamA && !player.eliminated);
+}
+
+/**
+ * Returns the active enemies a card can actually be played on, i.e. the adjacent ones when adjacency is enforced
+ */
+export function getTargetableEnemies(snapshot: TurnSnapshot): PlayerSnapshot[] {
+  const enemies = getActiveEnemies(snapshot);
+  if (!snapshot.battlefield?.enforceAdjacency) {
+    return enemies;
+  }
+  return enemies.filter(enemy => enemy.adjacent === true);
+}
+
+export function locationKey(x: bigint, y: bigint): string {
+  return `${x},${y}`;
+}
+
+/**
+ * Returns the ID of the player standing at a location, if any
+ */
+export function getPlayerAt(battlefield: Battlefield, x: bigint, y: bigint): string | undefined {
+  return battlefield.occupants.get(locationKey(x, y));
+}
+
+/**
+ * Builds the battlefield from the players' locations
+ */
+export function buildBattlefield(players: PlayerSnapshot[], enforceAdjacency: boolean): Battlefield {
+  const occupants = new Map<string, string>();
+  for (const player of players) {
+    if (player.location && !player.eliminated) {
+      occupants.set(locationKey(player.location[0], player.location[1]), player.playerId);
+    }
+  }
+  return { enforceAdjacency, occupants };
+}
+
+// Rough worth of one point of each effect, stacking debuffs and buffs outlast a single hit
+const EFFECT_WEIGHTS: Record<number, number> = {
+  [EffectType.DAMAGE]: 1,
+  [EffectType.BLOCK]: 1,
+  [EffectType.HEAL]: 1,
+  [EffectType.VULNERABLE]: 3,
+  [EffectType.WEAK]: 3,
+  [EffectType.STRENGTH]: 3,
+  [EffectType.ENERGY]: 4,
+  [EffectType.DRAW]: 4
+};
+
+/**
+ * Heuristic value of a card, used to pick the best cards when there is not enough time to play them all.
+ * Cards without a known definition are worth 0.
+ */
+export function getCardValue(card: HandCard): number {
+  return (card.definition?.effects ?? []).reduce(
+    (total, effect) => total + (EFFECT_WEIGHTS[effect.effectType] ?? 0) * effect.amount,
+    0
+  );
+}
+
+/**
+ * Setup cards make the attacks that follow hit harder, so they should be played first
+ */
+export function isSetupCard(card: HandCard): boolean {
+  return (card.definition?.effects ?? []).some(effect =>
+    effect.effectType === EffectType.VULNERABLE || effect.effectType === EffectType.STRENGTH
+  );
+}
+
+/**
+ * Returns true for cards that attack an enemy without setting anything up
+ */
+export function isPlainAttack(card: HandCard): boolean {
+  return (card.definition?.target ?? 'enemy') === 'enemy' && !isSetupCard(card);
+}
+
+/**
+ * Returns true when the turn budget allows fewer plays than there are playable cards
+ */
+export function isBudgetConstrained(snapshot: TurnSnapshot): boolean {
+  const maxActions = snapshot.budget?.maxActions;
+  return maxActions !== undefined && maxActions < getPlayableCards(snapshot).length;
+}
@@ -0,0 +1,93 @@
+import { getActiveAllies, getActiveEnemies, getCardValue, getPlayableCards, getTargetableEnemies, isBudgetConstrained, isPlainAttack, isSetupCard, type CardPlayStrategy, type HandCard, type TurnAction, type TurnSnapshot } from "./CardPlayStrategy";
+import { TargetSelector, getEffectiveHp, type TargetingPolicy } from "./targeting";
+
+export interface RandomStrategyOptions {
+  // Source of randomness in [0, 1), defaults to Math.random
+  random?: () => number;
+  // How the target is picked, defaults to a random active enemy
+  targeting?: TargetingPolicy;
+}
+
+/**
+ * Plays a random affordable card against an active enemy chosen by the targeting policy.
+ * With the default random targeting this is the policy the bot has always used.
+ * When the turn is about to run out it plays the most valuable card instead.
+ * Enemies out of reach are never targeted when the battle enforces adjacency.
+ * With a team plan it plays setup cards first, holds attacks when asked and hits the team's focus target.
+ */
+export class RandomStrategy implements CardPlayStrategy {
+  readonly name = 'random';
+  private random: () => number;
+  private targetSelector: TargetSelector;
+
+  constructor(options: RandomStrategyOptions = {}) {
+    this.random = options.random ?? Math.random;
+    this.targetSelector = new TargetSelector(options.targeting, this.random);
+  }
+
+  chooseAction(snapshot: TurnSnapshot): TurnAction {
+    const targetableEnemies = getTargetableEnemies(snapshot);
+    // Attacks are only playable while an enemy is in reach
+    let playableCards = getPlayableCards(snapshot).filter(card =>
+      (card.definition?.target ?? 'enemy') !== 'enemy' || targetableEnemies.length > 0
+    );
+
+    if (playableCards.length === 0 || getActiveEnemies(snapshot).length === 0) {
+      return { type: 'endTurn' };
+    }
+
+    if (snapshot.team) {
+      playableCards = this.sequenceForTeam(playableCards, snapshot.team.holdAttacks);
+    }
+
+    const card = isBudgetConstrained(snapshot)
+      ? this.getMostValuableCard(playableCards)
+      : playableCards[Math.floor(this.random() * playableCards.length)];
+
+    return {
+      type: 'playCard',
+      handIndex: card.handIndex,
+      cardId: card.cardId,
+      targetPlayerId: this.selectTarget(card, snapshot)
+    };
+  }
+
+  // Setup cards go first, and attacks wait while a teammate is still setting up
+  private sequenceForTeam(cards: HandCard[], holdAttacks: boolean): HandCard[] {
+    const setupCards = cards.filter(isSetupCard);
+    if (setupCards.length > 0) {
+      return setupCards;
+    }
+    const withoutAttacks = cards.filter(card => !isPlainAttack(card));
+    return holdAttacks && withoutAttacks.length > 0 ? withoutAttacks : cards;
+  }
+
+  // Highest value first, cheaper cards win ties so more of them fit in the remaining energy
+  private getMostValuableCard(cards: HandCard[]): HandCard {
+    return [...cards].sort((a, b) =>
+      getCardValue(b) - getCardValue(a) || (a.energyCost < b.energyCost ? -1 : a.energyCost > b.energyCost ? 1 : 0) || a.handIndex - b.handIndex
+    )[0];
+  }
+
+  private selectTarget(card: HandCard, snapshot: TurnSnapshot): string | undefined {
+    switch (card.definition?.target ?? 'enemy') {
+      case 'enemy': {
+        const enemies = getTargetableEnemies(snapshot);
+        const focusTarget = enemies.find(enemy => enemy.playerId === snapshot.team?.focusTargetId);
+        return focusTarget?.playerId ?? this.targetSelector.select(enemies)?.playerId;
+      }
+      case 'ally': {
+        // Support the teammate closest to elimination
+        const allies = [...getActiveAllies(snapshot)].sort((a, b) => {
+          const difference = getEffectiveHp(a) - getEffectiveHp(b);
+          return difference < 0n ? -1 : difference > 0n ? 1 : 0;
+        });
+        return allies[0]?.playerId ?? snapshot.playerId;
+      }
+      case 'self':
+        return snapshot.playerId;
+      case 'none':
+        return undefined;
+    }
+  }
+}
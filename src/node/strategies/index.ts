@@ -0,0 +1,47 @@
+import type { CardPlayStrategy } from "./CardPlayStrategy";
+import { RandomStrategy } from "./RandomStrategy";
+import type { TargetingPolicy } from "./targeting";
+
+export * from "./CardPlayStrategy";
+export * from "./targeting";
+export { RandomStrategy } from "./RandomStrategy";
+
+export interface CardPlayStrategyOptions {
+  targeting?: TargetingPolicy;
+  // Source of randomness in [0, 1), the simulator passes a seeded one for reproducible matches
+  random?: () => number;
+}
+
+export type CardPlayStrategyFactory = (options: CardPlayStrategyOptions) => CardPlayStrategy;
+
+export const DEFAULT_CARD_PLAY_STRATEGY = 'random';
+
+const strategyFactories: Map<string, CardPlayStrategyFactory> = new Map([
+  ['random', options => new RandomStrategy({ targeting: options.targeting, random: options.random })]
+]);
+
+/**
+ * Registers a strategy so it can be selected by name in the configuration
+ */
+export function registerCardPlayStrategy(name: string, factory: CardPlayStrategyFactory): void {
+  strategyFactories.set(name.toLowerCase(), factory);
+}
+
+export function getCardPlayStrategyNames(): string[] {
+  return Array.from(strategyFactories.keys());
+}
+
+/**
+ * Creates a new strategy instance by name. Each CharacterOperator gets its own instance
+ * so strategies are free to keep per-character state.
+ */
+export function createCardPlayStrategy(
+  name: string = DEFAULT_CARD_PLAY_STRATEGY,
+  options: CardPlayStrategyOptions = {}
+): CardPlayStrategy {
+  const factory = strategyFactories.get(name.toLowerCase());
+  if (!factory) {
+    throw new Error(`Unknown card play strategy "${name}". Available strategies: ${getCardPlayStrategyNames().join(', ')}`);
+  }
+  return factory(options);
+}
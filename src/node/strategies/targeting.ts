@@ -0,0 +1,84 @@
+import { PlayerStatType } from "../../utils/playerStats";
+import type { PlayerSnapshot } from "./CardPlayStrategy";
+
+/**
+ * How a strategy picks which enemy to hit:
+ * - random: any active enemy
+ * - lowestEffectiveHp: the enemy with the least health + block
+ * - mostVulnerable: the enemy with the most stacks of vulnerable
+ * - highestThreat: the enemy with the most strength
+ * - focusFire: keep hitting the same enemy until it is eliminated
+ */
+export type TargetingPolicy = 'random' | 'lowestEffectiveHp' | 'mostVulnerable' | 'highestThreat' | 'focusFire';
+
+export const TARGETING_POLICIES: TargetingPolicy[] = ['random', 'lowestEffectiveHp', 'mostVulnerable', 'highestThreat', 'focusFire'];
+
+export const DEFAULT_TARGETING_POLICY: TargetingPolicy = 'random';
+
+export function isTargetingPolicy(value: string): value is TargetingPolicy {
+  return (TARGETING_POLICIES as string[]).includes(value);
+}
+
+/**
+ * Health plus block, i.e. the damage needed to eliminate the player
+ */
+export function getEffectiveHp(player: PlayerSnapshot): bigint {
+  return (player.stats[PlayerStatType.HEALTH] ?? 0n) + (player.stats[PlayerStatType.BLOCK] ?? 0n);
+}
+
+function compareBigInt(a: bigint, b: bigint): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// Lowest effective HP first, then lowest player ID so selection is deterministic
+function compareByEffectiveHp(a: PlayerSnapshot, b: PlayerSnapshot): number {
+  return compareBigInt(getEffectiveHp(a), getEffectiveHp(b)) || compareBigInt(BigInt(a.playerId), BigInt(b.playerId));
+}
+
+// Highest value of the given stat first, ties broken by effective HP
+function byHighestStat(stat: PlayerStatType) {
+  return (a: PlayerSnapshot, b: PlayerSnapshot): number =>
+    compareBigInt(b.stats[stat] ?? 0n, a.stats[stat] ?? 0n) || compareByEffectiveHp(a, b);
+}
+
+/**
+ * Picks targets according to a TargetingPolicy. Instances are stateful for the focusFire
+ * policy, so each character should use its own selector.
+ */
+export class TargetSelector {
+  readonly policy: TargetingPolicy;
+  private random: () => number;
+  private focusTargetId?: string;
+
+  constructor(policy: TargetingPolicy = DEFAULT_TARGETING_POLICY, random: () => number = Math.random) {
+    this.policy = policy;
+    this.random = random;
+  }
+
+  select(candidates: PlayerSnapshot[]): PlayerSnapshot | undefined {
+    if (candidates.length === 0) {
+      return undefined;
+    }
+
+    switch (this.policy) {
+      case 'random':
+        return candidates[Math.floor(this.random() * candidates.length)];
+      case 'lowestEffectiveHp':
+        return [...candidates].sort(compareByEffectiveHp)[0];
+      case 'mostVulnerable':
+        return [...candidates].sort(byHighestStat(PlayerStatType.VULNERABLE))[0];
+      case 'highestThreat':
+        return [...candidates].sort(byHighestStat(PlayerStatType.STRENGTH))[0];
+      case 'focusFire': {
+        const focusTarget = candidates.find(candidate => candidate.playerId === this.focusTargetId);
+        if (focusTarget) {
+          return focusTarget;
+        }
+        // Previous target is gone, pick the enemy closest to elimination
+        const nextTarget = [...candidates].sort(compareByEffectiveHp)[0];
+        this.focusTargetId = nextTarget.playerId;
+        return nextTarget;
+      }
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * The room types the Act contract ships with, more can be handled by registering them in roomTypes
+ */
+export enum RoomType {
+  NULL = 0,
+  BATTLE = 1,
+  GOAL = 2
+}
+
+/**
+ * The monsters of a BATTLE room, MonsterRegistry indices named like the BattleRoomData fields.
+ * Elite rooms list a second and third monster.
+ */
+export interface MonsterRoomData {
+  monsterIndex1: number;
+  monsterIndex2?: number;
+  monsterIndex3?: number;
+  [field: `monsterIndex${number}`]: number | undefined;
+}
+
+/**
+ * One room of an act's map.json, a flat array of these
+ */
+export interface MapRoom {
+  id: number;
+  roomType: number; // A registered room type, see RoomType for the built-in ones
+  roomData: Record<string, any> | null; // Parsed by the room type's handler, MonsterRoomData for BATTLE rooms
+  nextRooms: number[]; // Array of up to MAX_DOORS room IDs, with 0 meaning no connection
+}
+
+/**
+ * @param room - A room of the map
+ * @returns The room IDs its doors lead to, without empty doors
+ */
+export function getDoors(room: Pick<MapRoom, 'nextRooms'>): number[] {
+  return (room.nextRooms ?? []).filter(roomId => roomId !== 0);
+}
+
+/**
+ * @param roomData - A room's roomData
+ * @returns The monsters the room lists by slot, monsterIndex1 being slot 1, in slot order
+ */
+export function getMonsterSlots(roomData: MapRoom['roomData']): { slot: number; monsterIndex: number }[] {
+  return Object.entries(roomData ?? {})
+    .map(([field, monsterIndex]) => ({ slot: Number(/^monsterIndex(\d+)$/.exec(field)?.[1]), monsterIndex }))
+    .filter((entry): entry is { slot: number; monsterIndex: number } =>
+      entry.slot > 0 && entry.monsterIndex !== undefined && entry.monsterIndex !== null)
+    .sort((a, b) => a.slot - b.slot);
+}
+
+/**
+ * @param roomData - A room's roomData
+ * @returns The MonsterRegistry indices of the room's monsters, in slot order
+ */
+export function getRoomMonsters(roomData: MapRoom['roomData']): number[] {
+  return getMonsterSlots(roomData).map(({ monsterIndex }) => monsterIndex);
+}
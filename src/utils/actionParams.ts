@@ -0,0 +1,33 @@
+import type { CardTarget } from './cardCatalog';
+
+/**
+ * Encodes a player ID as the 32-byte word the deck logic expects
+ * @param playerId - The player to target
+ * @returns The ABI encoded player ID
+ */
+export function encodePlayerIdParam(playerId: bigint): `0x${string}` {
+  return `0x${playerId.toString(16).padStart(64, '0')}`;
+}
+
+/**
+ * Builds the cardActionParams for Battle.action based on who the card targets
+ * @param target - Who the card is played on
+ * @param selfPlayerId - The player playing the card
+ * @param targetPlayerId - The chosen enemy or ally, required for enemy and ally cards
+ * @returns The encoded params, or undefined when a required target is missing
+ */
+export function encodeActionParams(
+  target: CardTarget,
+  selfPlayerId: bigint,
+  targetPlayerId?: bigint
+): `0x${string}` | undefined {
+  switch (target) {
+    case 'none':
+      return '0x';
+    case 'self':
+      return encodePlayerIdParam(selfPlayerId);
+    case 'enemy':
+    case 'ally':
+      return targetPlayerId === undefined ? undefined : encodePlayerIdParam(targetPlayerId);
+  }
+}
@@ -0,0 +1,69 @@
+import { createLogger } from './logger';
+
+const logger = createLogger({ operator: 'Alerts' });
+
+/**
+ * Something an operator of the bot should look at
+ */
+export interface Alert {
+  kind: 'stuckBattle' | 'battleRecovered';
+  message: string;
+  battleAddress?: string;
+  details?: Record<string, unknown>;
+  raisedAt: number;
+}
+
+/**
+ * Where alerts are delivered. Sinks must not throw, a failed delivery is only logged.
+ */
+export interface AlertSink {
+  readonly name: string;
+  send(alert: Alert): Promise<void>;
+}
+
+/**
+ * Writes alerts to the log at warn level
+ */
+export class LogAlertSink implements AlertSink {
+  readonly name = 'log';
+
+  async send(alert: Alert): Promise<void> {
+    logger.warn({ ...alert }, alert.message);
+  }
+}
+
+/**
+ * POSTs each alert as JSON to a webhook, e.g. a Slack or Discord incoming webhook.
+ * The message is also sent as `text` and `content` so chat webhooks render it as is.
+ */
+export class WebhookAlertSink implements AlertSink {
+  readonly name = 'webhook';
+
+  constructor(private url: string) {}
+
+  async send(alert: Alert): Promise<void> {
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...alert, text: alert.message, content: alert.message }, (_key, value) =>
+          typeof value === 'bigint' ? value.toString() : value
+        ),
+      });
+      if (!response.ok) {
+        logger.error({ status: response.status, kind: alert.kind, battleAddress: alert.battleAddress }, 'Alert webhook rejected the alert');
+      }
+    } catch (error: any) {
+      logger.error({ error: error?.message || error, kind: alert.kind, battleAddress: alert.battleAddress }, 'Could not send alert to webhook');
+    }
+  }
+}
+
+/**
+ * @param webhookUrl - Alerts are POSTed here when set, otherwise they are logged
+ */
+export function createAlertSink(webhookUrl?: string): AlertSink {
+  return webhookUrl ? new WebhookAlertSink(webhookUrl) : new LogAlertSink();
+}
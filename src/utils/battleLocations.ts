@@ -0,0 +1,67 @@
+/**
+ * Mirrors the Battle contract's TeamColumn enum, the x coordinate of every location
+ */
+export enum TeamColumn {
+  A = 0,
+  B = 1
+}
+
+export interface BattleLocation {
+  x: TeamColumn;
+  y: bigint;
+}
+
+/**
+ * A player already in the battle, located with Battle.playerLocations
+ */
+export interface LocatedPlayer {
+  teamA: boolean;
+  x: bigint;
+  y: bigint;
+}
+
+/**
+ * Returns the column a team's players join in
+ * @param teamA - Whether the player joins team A
+ * @returns The team's column
+ */
+export function getTeamColumn(teamA: boolean): TeamColumn {
+  return teamA ? TeamColumn.A : TeamColumn.B;
+}
+
+/**
+ * Lists the locations a new player may join a team at, best first.
+ *
+ * The first player of a team must join at STARTING_LOCATION (FirstPlayerMustBeAtStartingLocationError),
+ * later players must join beside a teammate (StartingLocationMustBeBesideTeammateError) and no two
+ * players may share a location (LocationIsOccupiedError). Locations closest to STARTING_LOCATION come
+ * first so teams stay compact.
+ * @param teamA - Whether the player joins team A
+ * @param startingLocation - The battle's STARTING_LOCATION row
+ * @param players - Players already in the battle
+ * @returns Legal join locations, empty when there is none
+ */
+export function getJoinLocationCandidates(teamA: boolean, startingLocation: bigint, players: LocatedPlayer[]): BattleLocation[] {
+  const x = getTeamColumn(teamA);
+  const occupied = new Set(players.map(player => `${player.x}-${player.y}`));
+  const teammateRows = players.filter(player => player.teamA === teamA).map(player => player.y);
+
+  if (teammateRows.length === 0) {
+    return occupied.has(`${x}-${startingLocation}`) ? [] : [{ x, y: startingLocation }];
+  }
+
+  const rows = new Set<bigint>();
+  for (const row of teammateRows) {
+    if (row > 0n) rows.add(row - 1n);
+    rows.add(row + 1n);
+  }
+
+  const distance = (row: bigint) => row > startingLocation ? row - startingLocation : startingLocation - row;
+  return Array.from(rows)
+    .filter(row => !occupied.has(`${x}-${row}`))
+    .sort((a, b) => {
+      const difference = distance(a) - distance(b);
+      return difference !== 0n ? (difference < 0n ? -1 : 1) : (a < b ? -1 : 1);
+    })
+    .map(y => ({ x, y }));
+}
@@ -0,0 +1,64 @@
+import { encodeAbiParameters, type Hex } from 'viem';
+import BattleRoomABI from '../contracts/abis/BattleRoom.json';
+
+/**
+ * One field of the BattleRoomData struct the BattleRoom contract decodes a BATTLE room's roomData into
+ */
+export interface BattleRoomDataField {
+  name: string;
+  type: string;
+}
+
+/**
+ * Reads the BattleRoomData layout from a BattleRoom ABI.
+ *
+ * The struct is not a function input, so it is taken from the BattleCreated event that logs it.
+ * Its fields must all be monster slots, monsterIndex1, monsterIndex2, ... in that order.
+ * @param abi - A BattleRoom ABI. Default: the bundled one, which may lag behind the deployed contract
+ * @returns The struct's fields in encoding order
+ * @throws When the ABI has no BattleRoomData or it has fields other than monster slots
+ */
+export function getBattleRoomDataLayout(abi: readonly any[] = BattleRoomABI): BattleRoomDataField[] {
+  const battleCreated = abi.find(item => item.type === 'event' && item.name === 'BattleCreated');
+  const data = battleCreated?.inputs?.find((input: any) => input.internalType === 'struct BattleRoomData');
+  if (!data?.components?.length) {
+    throw new Error('BattleRoom ABI has no BattleRoomData struct');
+  }
+
+  const fields: BattleRoomDataField[] = data.components.map((component: any) => ({ name: component.name, type: component.type }));
+  fields.forEach((field, index) => {
+    if (field.name !== `monsterIndex${index + 1}` || !/^uint\d+$/.test(field.type)) {
+      throw new Error(`Unsupported BattleRoomData field ${field.type} ${field.name}, expected monsterIndex${index + 1}`);
+    }
+  });
+  return fields;
+}
+
+/**
+ * Builds the BattleRoomData layout of a BattleRoom deployment with the given number of monster
+ * slots, for deployments whose struct differs from the bundled ABI's
+ * @param monsterSlots - Fields of the deployed struct, monsterIndex1 to monsterIndex<monsterSlots>
+ * @param type - Type of each slot. Default: that of the bundled ABI's monsterIndex1
+ * @throws When monsterSlots is not a positive integer
+ */
+export function createBattleRoomDataLayout(monsterSlots: number, type: string = getBattleRoomDataLayout()[0].type): BattleRoomDataField[] {
+  if (!Number.isInteger(monsterSlots) || monsterSlots < 1) {
+    throw new Error(`Invalid number of BattleRoomData monster slots: ${monsterSlots}`);
+  }
+  return Array.from({ length: monsterSlots }, (_, index) => ({ name: `monsterIndex${index + 1}`, type }));
+}
+
+/**
+ * ABI-encodes a BATTLE room's roomData in the given layout. BattleRoomData only has static
+ * fields, so its encoding is that of the fields one after another.
+ * @param monsterIndices - MonsterRegistry indices of the room's monsters, in slot order
+ * @param layout - The BattleRoomData layout of the BattleRoom deployment
+ * @returns The encoded roomData, slots the room does not use are 0
+ * @throws When the room has more monsters than the layout has slots
+ */
+export function encodeBattleRoomData(monsterIndices: number[], layout: BattleRoomDataField[]): Hex {
+  if (monsterIndices.length > layout.length) {
+    throw new Error(`Room has ${monsterIndices.length} monsters, BattleRoomData only has ${layout.length} slots`);
+  }
+  return encodeAbiParameters(layout, layout.map((_, index) => BigInt(monsterIndices[index] ?? 0)));
+}
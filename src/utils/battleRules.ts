@@ -0,0 +1,76 @@
+import type { Abi } from 'viem';
+import BattleABI from '../contracts/abis/Battle.json';
+
+/**
+ * Hand size used before the battle's rules could be read, matches the deployed battles
+ */
+export const DEFAULT_DRAW_COUNT = 5n;
+
+/**
+ * Rules fixed when a Battle is deployed
+ */
+export interface BattleRules {
+  // Cards drawn into the hand at the start of every turn
+  drawCount: bigint;
+  maxTeamSize: bigint;
+  // Location the first player of each team must join at
+  startingLocation: bigint;
+  // Whether cards may only target adjacent players
+  enforceAdjacency: boolean;
+}
+
+/**
+ * Reads a battle's rules in one multicall
+ * @param publicClient - Viem public client
+ * @param battleAddress - The Battle contract
+ * @returns The battle's rules
+ */
+export async function readBattleRules(publicClient: any, battleAddress: string): Promise<BattleRules> {
+  const call = (functionName: string) => ({
+    address: battleAddress as `0x${string}`,
+    abi: BattleABI as Abi,
+    functionName
+  });
+
+  const [drawCount, maxTeamSize, startingLocation, enforceAdjacency] = await publicClient.multicall({
+    allowFailure: false,
+    contracts: [call('DRAW_COUNT'), call('MAX_TEAM_SIZE'), call('STARTING_LOCATION'), call('enforceAdjacency')]
+  }) as [bigint, bigint, bigint, boolean];
+
+  return { drawCount, maxTeamSize, startingLocation, enforceAdjacency };
+}
+
+const battleRules: Map<string, Promise<BattleRules>> = new Map();
+
+/**
+ * Returns the rules for a battle, reading them from the chain only once per battle
+ * @param publicClient - Viem public client
+ * @param battleAddress - The Battle contract
+ * @returns The battle's rules
+ */
+export function getBattleRules(publicClient: any, battleAddress: string): Promise<BattleRules> {
+  const key = battleAddress.toLowerCase();
+  let rules = battleRules.get(key);
+  if (!rules) {
+    rules = readBattleRules(publicClient, key).catch(error => {
+      // Allow the next lookup to retry
+      battleRules.delete(key);
+      throw error;
+    });
+    battleRules.set(key, rules);
+  }
+  return rules;
+}
+
+/**
+ * Number of cards a player draws at the start of a turn.
+ *
+ * Battle only exposes the battle-wide DRAW_COUNT; neither Battle nor PlayerStatsStorage has a
+ * per-character draw modifier, so every player draws the same number of cards. Extra draws from
+ * card effects happen on chain during the turn and do not affect computeDiscardAndDrawHand.
+ * @param rules - The battle's rules
+ * @returns The hand size to pass to computeDiscardAndDrawHand
+ */
+export function getHandDrawCount(rules: BattleRules): bigint {
+  return rules.drawCount;
+}
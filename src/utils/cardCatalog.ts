@@ -0,0 +1,268 @@
+import type { Abi } from 'viem';
+import StandardDeckABI from '../contracts/abis/StandardDeck.json';
+import StandardDeckLogicABI from '../contracts/abis/StandardDeckLogic.json';
+import { getDeploymentBlock } from './deployments';
+import { createLogger } from './logger';
+import { findDeploymentBlock, getContractEventsInChunks } from './rpc';
+
+const logger = createLogger({ operator: 'CardCatalog' });
+
+// How long lookups fall back to actionDefinitions after reading the events failed, before they are read again
+const LOAD_RETRY_MS = 5 * 60 * 1000;
+
+/**
+ * Assumed numbering of an Effect's effectType.
+ *
+ * The bundled StandardDeckLogic ABI only types effectType as a uint8, and the contract source that
+ * numbers it is not part of this repository, so this numbering has not been checked against the
+ * contract. Until it is, card targets are not derived from it, see EFFECT_TYPES_VERIFIED.
+ */
+export enum EffectType {
+  NONE = 0,
+  DAMAGE = 1,
+  BLOCK = 2,
+  HEAL = 3,
+  VULNERABLE = 4,
+  WEAK = 5,
+  STRENGTH = 6,
+  ENERGY = 7,
+  DRAW = 8
+}
+
+/**
+ * Whether EffectType matches the deployed StandardDeckLogic's numbering. While it is false every
+ * card is played on an enemy with the player ID encoding the bot has always sent, as a wrong guess
+ * would send damage cards with our own ID or no target at all. Set it once EffectType is taken from
+ * the contract source.
+ */
+export const EFFECT_TYPES_VERIFIED = false;
+
+/**
+ * Who a card is played on
+ */
+export type CardTarget = 'enemy' | 'ally' | 'self' | 'none';
+
+export interface CardEffect {
+  effectType: number;
+  amount: number;
+}
+
+export interface CardDefinition {
+  actionType: bigint;
+  name?: string;
+  energy: number;
+  discardType: number;
+  effects: CardEffect[];
+  // False when only the energy and discard type could be read, i.e. no ActionDefinitionSet event was found
+  effectsKnown: boolean;
+  target: CardTarget;
+}
+
+// Raw GenericActionDefinition as emitted by ActionDefinitionSet
+export interface RawActionDefinition {
+  energy: number;
+  discardType: number;
+  effects?: readonly { effectType: number; amount: number }[];
+}
+
+const ENEMY_EFFECTS = new Set<number>([EffectType.DAMAGE, EffectType.VULNERABLE, EffectType.WEAK]);
+const ALLY_EFFECTS = new Set<number>([EffectType.HEAL]);
+
+/**
+ * Works out who a card should be played on from its effects:
+ * anything offensive targets an enemy, heals target an ally and other buffs target yourself
+ */
+export function getCardTarget(effects: CardEffect[]): CardTarget {
+  if (effects.length === 0) {
+    return 'none';
+  }
+  if (effects.some(effect => ENEMY_EFFECTS.has(effect.effectType))) {
+    return 'enemy';
+  }
+  if (effects.some(effect => ALLY_EFFECTS.has(effect.effectType))) {
+    return 'ally';
+  }
+  return 'self';
+}
+
+/**
+ * Decodes a raw action definition into a typed card definition.
+ * The contract stores a fixed array of 15 effects, unused slots are NONE.
+ */
+export function decodeActionDefinition(
+  actionType: bigint,
+  raw: RawActionDefinition,
+  name?: string,
+  trustEffectTypes: boolean = EFFECT_TYPES_VERIFIED
+): CardDefinition {
+  const effectsKnown = raw.effects !== undefined;
+  const effects = (raw.effects ?? [])
+    .map(effect => ({ effectType: Number(effect.effectType), amount: Number(effect.amount) }))
+    .filter(effect => effect.effectType !== EffectType.NONE);
+
+  return {
+    actionType,
+    name,
+    energy: Number(raw.energy),
+    discardType: Number(raw.discardType),
+    effects,
+    effectsKnown,
+    // Without effects, or without knowing what they mean, assume an attack like the bot always did
+    target: effectsKnown && trustEffectTypes ? getCardTarget(effects) : 'enemy'
+  };
+}
+
+/**
+ * Returns the total amount of the given effect type on a card
+ */
+export function getEffectAmount(definition: CardDefinition, effectType: EffectType): number {
+  return definition.effects
+    .filter(effect => effect.effectType === effectType)
+    .reduce((total, effect) => total + effect.amount, 0);
+}
+
+/**
+ * Card definitions for a single deck logic contract.
+ *
+ * The public actionDefinitions getter only returns energy and discard type, so the effects
+ * are read from the ActionDefinitionSet events emitted when each definition was set.
+ */
+export class CardCatalog {
+  readonly deckLogicAddress: `0x${string}`;
+  private publicClient: any;
+  private definitions: Map<bigint, CardDefinition> = new Map();
+  private deckAddress?: `0x${string}`;
+  private loading?: Promise<void>;
+  private loaded: boolean = false;
+  private loadFailedAt?: number;
+  private fromBlock?: bigint;
+
+  /**
+   * @param fromBlock - Block to read ActionDefinitionSet events from. Default: the deck logic's block in
+   * deployments.json, or for deck logics not listed there the block its code appeared in
+   */
+  constructor(publicClient: any, deckLogicAddress: string, fromBlock?: bigint) {
+    this.publicClient = publicClient;
+    this.deckLogicAddress = deckLogicAddress.toLowerCase() as `0x${string}`;
+    this.fromBlock = fromBlock ?? getDeploymentBlock(this.deckLogicAddress);
+  }
+
+  /**
+   * Reads the ActionDefinitionSet events once. After a failure they are read again at most every
+   * LOAD_RETRY_MS, lookups meanwhile fall back to actionDefinitions.
+   * @returns Whether the events are loaded
+   */
+  async load(): Promise<boolean> {
+    if (this.loaded) return true;
+    if (this.loadFailedAt !== undefined && Date.now() - this.loadFailedAt < LOAD_RETRY_MS) return false;
+
+    if (!this.loading) {
+      this.loading = this.loadDefinitions()
+        .then(() => {
+          this.loaded = true;
+          this.loadFailedAt = undefined;
+        }, (error: any) => {
+          this.loadFailedAt = Date.now();
+          logger.warn({ deckLogic: this.deckLogicAddress, error: error?.message || error, retryInMs: LOAD_RETRY_MS }, 'Could not load card definitions, only energy and discard type are known until they are read again');
+        })
+        .finally(() => {
+          this.loading = undefined;
+        });
+    }
+    await this.loading;
+    return this.loaded;
+  }
+
+  private async loadDefinitions(): Promise<void> {
+    const latestBlock: bigint = await this.publicClient.getBlockNumber();
+    if (this.fromBlock === undefined) {
+      // Reading from genesis is a range no RPC provider serves, bisecting the code needs an archive RPC
+      this.fromBlock = await findDeploymentBlock(this.publicClient, this.deckLogicAddress, latestBlock);
+      if (this.fromBlock === undefined) {
+        throw new Error(`No contract at deck logic ${this.deckLogicAddress}`);
+      }
+      logger.info({ deckLogic: this.deckLogicAddress, fromBlock: this.fromBlock.toString() }, 'Found deck logic deployment block, add it to deployments.json to skip the search');
+    }
+
+    const logs = await getContractEventsInChunks(this.publicClient, {
+      address: this.deckLogicAddress,
+      abi: StandardDeckLogicABI as Abi,
+      eventName: 'ActionDefinitionSet'
+    }, this.fromBlock, latestBlock);
+
+    // setActionDefinition reverts with DuplicateActionDefinition, so each action type has one event
+    for (const log of logs) {
+      const { actionType, actionDefinition, name } = log.args;
+      this.definitions.set(BigInt(actionType), decodeActionDefinition(BigInt(actionType), actionDefinition, name));
+    }
+
+    logger.info({ deckLogic: this.deckLogicAddress, count: this.definitions.size }, 'Loaded card definitions');
+  }
+
+  /**
+   * Returns the definition for an action type, falling back to actionDefinitions for action types
+   * without an ActionDefinitionSet event and while the events cannot be read
+   * @param waitForEvents - Whether to wait for the events to be read. When false an unloaded catalog
+   * starts reading them in the background and this lookup falls back to actionDefinitions
+   */
+  async getByActionType(actionType: bigint, waitForEvents: boolean = true): Promise<CardDefinition> {
+    if (waitForEvents) {
+      await this.load();
+    } else if (!this.loaded) {
+      void this.load();
+    }
+
+    const cached = this.definitions.get(actionType);
+    if (cached) {
+      return cached;
+    }
+
+    const [energy, discardType] = await this.publicClient.readContract({
+      address: this.deckLogicAddress,
+      abi: StandardDeckLogicABI as Abi,
+      functionName: 'actionDefinitions',
+      args: [actionType]
+    }) as [number, number];
+
+    const definition = decodeActionDefinition(actionType, { energy, discardType });
+    this.definitions.set(actionType, definition);
+    return definition;
+  }
+
+  /**
+   * Returns the definition for a StandardDeck card token
+   */
+  async getByTokenId(tokenId: bigint): Promise<CardDefinition> {
+    if (!this.deckAddress) {
+      this.deckAddress = await this.publicClient.readContract({
+        address: this.deckLogicAddress,
+        abi: StandardDeckLogicABI as Abi,
+        functionName: 'deck'
+      }) as `0x${string}`;
+    }
+
+    const actionType = await this.publicClient.readContract({
+      address: this.deckAddress,
+      abi: StandardDeckABI as Abi,
+      functionName: 'tokenActionType',
+      args: [tokenId]
+    }) as bigint;
+
+    return this.getByActionType(actionType);
+  }
+}
+
+const catalogs: Map<string, CardCatalog> = new Map();
+
+/**
+ * Returns the shared catalog for a deck logic contract, creating it on first use
+ */
+export function getCardCatalog(publicClient: any, deckLogicAddress: string): CardCatalog {
+  const key = deckLogicAddress.toLowerCase();
+  let catalog = catalogs.get(key);
+  if (!catalog) {
+    catalog = new CardCatalog(publicClient, key);
+    catalogs.set(key, catalog);
+  }
+  return catalog;
+}
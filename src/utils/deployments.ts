@@ -8,6 +8,11 @@ export function getContractAddress(contractName: string): string {
   return deployment.contractAddress;
 }
 
+export function getDeploymentBlock(contractAddress: string): bigint | undefined {
+  const deployment = deployments.find(d => d.contractAddress.toLowerCase() === contractAddress.toLowerCase());
+  return deployment ? BigInt(deployment.blockNumber) : undefined;
+}
+
 export const CONTRACT_ADDRESSES = {
   BATTLE: getContractAddress('Battle'),
   STANDARD_DECK: getContractAddress('StandardDeck'),
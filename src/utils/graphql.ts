@@ -261,6 +261,33 @@ export const GraphQLQueries = {
     }
   `,
 
+  getPartiesByActWithState: `
+    query GetPartiesByActWithState($actAddress: String!, $state: String!, $limit: Int, $after: String) {
+      partys(where: { actAddress: $actAddress, state: $state }, limit: $limit, after: $after) {
+        items {
+          id
+          actAddress
+          partyId
+          leader
+          roomId
+          state
+          createdAt
+          startedAt
+          endedAt
+          roomBattles {
+            items {
+              id
+              partyId
+              battleAddress
+              roomId
+              createdAt
+            }
+          }
+        }
+      }
+    }
+  `,
+
   getActRooms: `
     query GetActRooms($actAddress: String!) {
       actRooms(where: { actAddress: $actAddress }) {
@@ -465,6 +492,26 @@ export const GraphQLQueries = {
     }
   `,
 
+  getOpenBattles: `
+    query GetOpenBattles($limit: Int = 100, $after: String) {
+      battles(where: { gameStartedAt: null, winner: null }, limit: $limit, after: $after) {
+        items {
+          id
+          players {
+            items {
+              id
+              playerId
+              teamA
+              character {
+                id
+              }
+            }
+          }
+        }
+      }
+    }
+  `,
+
   getCharactersByOwner: `
     query GetCharactersByOwner($owner: String!, $limit: Int = 100, $after: String) {
       characters(where: { owner: $owner }, limit: $limit, after: $after) {
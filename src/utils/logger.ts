@@ -32,7 +32,16 @@ export type OperatorType =
   | 'EventAggregator'
   | 'GraphQL'
   | 'RPC'
-  | 'Forwarder';
+  | 'Forwarder'
+  | 'CardCatalog'
+  | 'TeamCoordinator'
+  | 'BattleJoiner'
+  | 'Randomness'
+  | 'BattleStatePoller'
+  | 'BattleJournal'
+  | 'BattleWatchdog'
+  | 'Alerts'
+  | 'MapCache';
 
 export interface LoggerContext {
   operator: OperatorType;
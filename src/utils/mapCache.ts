@@ -0,0 +1,70 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { MapRoom } from './actMap';
+import type { MapVersionTag } from './mapSources';
+import { createLogger } from './logger';
+
+const logger = createLogger({ operator: 'MapCache' });
+
+/**
+ * An act's map as last accepted, with what identifies its version
+ */
+export interface CachedMap extends MapVersionTag {
+  actAddress: string;
+  hash: string; // hashMapRooms of the rooms
+  source: string; // Where the map was loaded from
+  fetchedAt: number;
+  rooms: MapRoom[];
+}
+
+/**
+ * @param rooms - A map's rooms
+ * @returns The SHA-256 of the rooms' JSON, identical for identical maps whatever their source or formatting
+ */
+export function hashMapRooms(rooms: MapRoom[]): string {
+  return createHash('sha256').update(JSON.stringify(rooms)).digest('hex');
+}
+
+/**
+ * Keeps the map accepted for each act on disk, one <directory>/<actAddress>.json per act, so a restart
+ * or an unreachable map source does not leave the act without its map
+ */
+export class MapCache {
+  constructor(private directory: string) {}
+
+  getFilePath(actAddress: string): string {
+    return path.join(this.directory, `${actAddress.toLowerCase()}.json`);
+  }
+
+  /**
+   * @returns The cached map, undefined when there is none or it cannot be read
+   */
+  read(actAddress: string): CachedMap | undefined {
+    const filePath = this.getFilePath(actAddress);
+    try {
+      const cached = JSON.parse(fs.readFileSync(filePath, 'utf8')) as CachedMap;
+      if (!Array.isArray(cached.rooms) || hashMapRooms(cached.rooms) !== cached.hash) {
+        logger.warn({ filePath }, 'Ignoring cached map whose rooms do not match its hash');
+        return undefined;
+      }
+      return cached;
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        logger.warn({ error: error?.message || error, filePath }, 'Could not read cached map');
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Replaces an act's cached map, written to a temporary file first so a crash never leaves half a map
+   */
+  async write(map: CachedMap): Promise<void> {
+    const filePath = this.getFilePath(map.actAddress);
+    const temporaryPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(temporaryPath, JSON.stringify(map));
+    await fs.promises.rename(temporaryPath, filePath);
+  }
+}
@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { MapRoom } from './actMap';
+
+export type MapSourceKind = 'raf' | 'directory' | 'actFile';
+
+export const MAP_SOURCE_KINDS: readonly MapSourceKind[] = ['raf', 'directory', 'actFile'];
+
+export function isMapSourceKind(value: string): value is MapSourceKind {
+  return (MAP_SOURCE_KINDS as readonly string[]).includes(value);
+}
+
+/**
+ * Identifies the act a map is loaded for
+ */
+export interface MapLocation {
+  actAddress: string;
+  // Looked up from the indexer when the source needsSeason
+  seasonName?: string;
+  actIndex?: string | number;
+}
+
+/**
+ * Identifies a version of a map, sent back so unchanged maps are not downloaded again
+ */
+export interface MapVersionTag {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * A map as loaded from its source
+ */
+export interface LoadedMap extends MapVersionTag {
+  rooms: MapRoom[];
+}
+
+/**
+ * Where an act's map.json comes from
+ */
+export interface MapSource {
+  readonly kind: MapSourceKind;
+  // Whether load needs the season name and act index of the act
+  readonly needsSeason: boolean;
+  /**
+   * @returns A human readable location of the act's map, for logs
+   */
+  describe(location: MapLocation): string;
+  /**
+   * @param since - Version already held, the map is only loaded when it has changed since
+   * @returns The map, undefined when it has not changed since the given version
+   * @throws When the map cannot be read or is not an array of rooms
+   */
+  load(location: MapLocation, since?: MapVersionTag): Promise<LoadedMap | undefined>;
+}
+
+export interface MapSourceOptions {
+  rafApiUrl?: string;
+  rafApiUsername?: string;
+  rafApiPassword?: string;
+  directory?: string; // Root of the directory and actFile sources
+}
+
+/**
+ * Checks a parsed map.json is a flat array of rooms
+ * @param json - The parsed file or response
+ * @param from - Where it was loaded from, for the error
+ */
+export function parseMapRooms(json: unknown, from: string): MapRoom[] {
+  if (!Array.isArray(json)) {
+    throw new Error(`Map from ${from} is not an array: ${JSON.stringify(json)?.substring(0, 500)}`);
+  }
+  return json as MapRoom[];
+}
+
+function requireSeason(location: MapLocation): { seasonName: string; actIndex: string | number } {
+  if (location.seasonName === undefined || location.actIndex === undefined) {
+    throw new Error(`Season name and act index of act ${location.actAddress} are required`);
+  }
+  return { seasonName: location.seasonName, actIndex: location.actIndex };
+}
+
+// Files are versioned by modification time, like If-Modified-Since
+async function readMapFile(filePath: string, since?: MapVersionTag): Promise<LoadedMap | undefined> {
+  const lastModified = (await fs.promises.stat(filePath)).mtime.toUTCString();
+  if (since?.lastModified === lastModified) return undefined;
+  const contents = await fs.promises.readFile(filePath, 'utf8');
+  return { rooms: parseMapRooms(JSON.parse(contents), filePath), lastModified };
+}
+
+/**
+ * Fetches maps from the hosted RAF API at <url>/season/<seasonName>/act/<actIndex>/map.json with basic auth.
+ * Known versions are sent as If-None-Match and If-Modified-Since, a 304 means the map has not changed.
+ */
+export class RafApiMapSource implements MapSource {
+  readonly kind = 'raf' as const;
+  readonly needsSeason = true;
+
+  constructor(private url: string, private username: string, private password: string) {}
+
+  describe(location: MapLocation): string {
+    const { seasonName, actIndex } = requireSeason(location);
+    return `${this.url}/season/${seasonName}/act/${actIndex}/map.json`;
+  }
+
+  async load(location: MapLocation, since?: MapVersionTag): Promise<LoadedMap | undefined> {
+    const mapUrl = this.describe(location);
+    const auth = btoa(`${this.username}:${this.password}`);
+    const headers: Record<string, string> = {
+      'Authorization': `Basic ${auth}`
+    };
+    if (since?.etag) headers['If-None-Match'] = since.etag;
+    if (since?.lastModified) headers['If-Modified-Since'] = since.lastModified;
+    const response = await fetch(mapUrl, { headers });
+
+    if (response.status === 304) return undefined;
+    if (!response.ok) {
+      throw new Error(`Failed to fetch map: ${response.status} ${response.statusText}`);
+    }
+    return {
+      rooms: parseMapRooms(await response.json(), mapUrl),
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined
+    };
+  }
+}
+
+/**
+ * Reads maps from a local copy of the RAF API layout, <directory>/season/<seasonName>/act/<actIndex>/map.json
+ */
+export class DirectoryMapSource implements MapSource {
+  readonly kind = 'directory' as const;
+  readonly needsSeason = true;
+
+  constructor(private directory: string) {}
+
+  describe(location: MapLocation): string {
+    const { seasonName, actIndex } = requireSeason(location);
+    return path.join(this.directory, 'season', seasonName, 'act', String(actIndex), 'map.json');
+  }
+
+  async load(location: MapLocation, since?: MapVersionTag): Promise<LoadedMap | undefined> {
+    return readMapFile(this.describe(location), since);
+  }
+}
+
+/**
+ * Reads one map per act from <directory>/<actAddress>.json, the address lowercased.
+ * Needs neither the indexer's season data nor the hosted API.
+ */
+export class ActFileMapSource implements MapSource {
+  readonly kind = 'actFile' as const;
+  readonly needsSeason = false;
+
+  constructor(private directory: string) {}
+
+  describe(location: MapLocation): string {
+    return path.join(this.directory, `${location.actAddress.toLowerCase()}.json`);
+  }
+
+  async load(location: MapLocation, since?: MapVersionTag): Promise<LoadedMap | undefined> {
+    return readMapFile(this.describe(location), since);
+  }
+}
+
+/**
+ * @param kind - Which source to create. Default: raf
+ * @param options - The settings of that source
+ * @throws When a setting the source needs is missing
+ */
+export function createMapSource(kind: MapSourceKind = 'raf', options: MapSourceOptions = {}): MapSource {
+  switch (kind) {
+    case 'raf':
+      if (!options.rafApiUrl || !options.rafApiUsername || !options.rafApiPassword) {
+        throw new Error('Missing RAF API configuration. Please set RAF_API_URL, RAF_API_USERNAME, and RAF_API_PASSWORD, or use a local MAP_SOURCE');
+      }
+      return new RafApiMapSource(options.rafApiUrl, options.rafApiUsername, options.rafApiPassword);
+    case 'directory':
+    case 'actFile':
+      if (!options.directory) {
+        throw new Error(`Missing map directory. Please set MAP_DIRECTORY for MAP_SOURCE=${kind}`);
+      }
+      return kind === 'directory' ? new DirectoryMapSource(options.directory) : new ActFileMapSource(options.directory);
+  }
+}
@@ -0,0 +1,183 @@
+import { getDoors, type MapRoom } from './actMap';
+import { getRoomTypeHandler, getRoomTypeName } from './roomTypes';
+
+/**
+ * The act's on-chain limits a map must fit in
+ */
+export interface MapLimits {
+  startingRoomId: number; // Act.STARTING_ROOM_ID
+  maxDoors: number; // Act.MAX_DOORS, the length of a room's nextRooms
+  maxDoorCount: number; // Act.MAX_DOOR_COUNT, how many of those may lead somewhere
+  monsterCount: number; // MonsterRegistry.monsterCount, BATTLE rooms index into its monsters
+  maxMonstersPerRoom: number; // Monster slots of the configured BattleRoomData layout
+}
+
+export type MapIssueCode =
+  | 'invalidRoomId'
+  | 'duplicateRoomId'
+  | 'unknownRoomType'
+  | 'missingNextRooms'
+  | 'tooManyDoors'
+  | 'doorBeyondMaxDoors'
+  | 'unknownNextRoom'
+  | 'selfDoor'
+  | 'duplicateDoor'
+  | 'missingStartingRoom'
+  | 'unreachableGoal'
+  | 'strandingRoom'
+  | 'unreachableRoom';
+
+export interface MapIssue {
+  // Errors can strand a party or make enterRoom revert, warnings cannot
+  severity: 'error' | 'warning';
+  code: MapIssueCode | string; // Room type handlers report codes of their own, like missingMonster
+  roomId?: number;
+  message: string;
+}
+
+export interface MapValidationReport {
+  valid: boolean;
+  roomCount: number;
+  reachableRoomCount: number;
+  goalRoomIds: number[];
+  reachableGoalRoomIds: number[];
+  errors: MapIssue[];
+  warnings: MapIssue[];
+}
+
+const MAX_UINT32 = 0xffffffff;
+
+/**
+ * Checks an act's map before parties are walked through it.
+ *
+ * Every room must be well formed and fit the act's door limits, every door must lead to a room of
+ * the map, every room's type must have a registered handler, which checks the room's data, and a
+ * goal room must be reachable from the starting room. Reachable rooms from which no goal room can be
+ * reached strand the parties entering them, so they are errors too. Rooms no party can reach are only warned about.
+ * @param rooms - The map's rooms
+ * @param limits - The act's limits
+ * @returns A report listing every issue found, valid when there is no error
+ */
+export function validateMap(rooms: MapRoom[], limits: MapLimits): MapValidationReport {
+  const errors: MapIssue[] = [];
+  const warnings: MapIssue[] = [];
+  const error = (code: MapIssue['code'], message: string, roomId?: number) => errors.push({ severity: 'error', code, roomId, message });
+  const warning = (code: MapIssue['code'], message: string, roomId?: number) => warnings.push({ severity: 'warning', code, roomId, message });
+
+  const roomsById = new Map<number, MapRoom>();
+  for (const room of rooms) {
+    if (!Number.isInteger(room.id) || room.id <= 0 || room.id > MAX_UINT32) {
+      error('invalidRoomId', `Room ID ${room.id} is not a uint32 above 0`, room.id);
+      continue;
+    }
+    if (roomsById.has(room.id)) {
+      error('duplicateRoomId', `Room ${room.id} is defined more than once`, room.id);
+      continue;
+    }
+    roomsById.set(room.id, room);
+  }
+
+  for (const room of roomsById.values()) {
+    const handler = getRoomTypeHandler(room.roomType);
+    if (!handler) {
+      error('unknownRoomType', `Room ${room.id} has unknown room type ${room.roomType}`, room.id);
+    } else {
+      for (const issue of handler.validateRoom(room, limits)) {
+        (issue.severity === 'error' ? error : warning)(issue.code, issue.message, room.id);
+      }
+    }
+
+    if (!Array.isArray(room.nextRooms)) {
+      error('missingNextRooms', `Room ${room.id} has no nextRooms array`, room.id);
+      continue;
+    }
+
+    room.nextRooms.slice(limits.maxDoors).forEach((roomId, index) => {
+      if (roomId !== 0) {
+        error('doorBeyondMaxDoors', `Room ${room.id} has a door to room ${roomId} at index ${limits.maxDoors + index}, beyond MAX_DOORS (${limits.maxDoors})`, room.id);
+      }
+    });
+
+    const doors = getDoors(room);
+    if (doors.length > limits.maxDoorCount) {
+      error('tooManyDoors', `Room ${room.id} has ${doors.length} doors, more than MAX_DOOR_COUNT (${limits.maxDoorCount})`, room.id);
+    }
+
+    const seen = new Set<number>();
+    for (const roomId of doors) {
+      if (!roomsById.has(roomId)) {
+        error('unknownNextRoom', `Room ${room.id} has a door to room ${roomId}, which is not in the map`, room.id);
+      } else if (roomId === room.id) {
+        warning('selfDoor', `Room ${room.id} has a door to itself`, room.id);
+      }
+      if (seen.has(roomId)) {
+        warning('duplicateDoor', `Room ${room.id} has more than one door to room ${roomId}`, room.id);
+      }
+      seen.add(roomId);
+    }
+  }
+
+  const goalRoomIds = Array.from(roomsById.values())
+    .filter(room => getRoomTypeHandler(room.roomType)?.isGoal)
+    .map(room => room.id);
+  const reachable = getReachableRoomIds(roomsById, [limits.startingRoomId]);
+  const reachableGoalRoomIds = goalRoomIds.filter(roomId => reachable.has(roomId));
+
+  if (!roomsById.has(limits.startingRoomId)) {
+    error('missingStartingRoom', `Starting room ${limits.startingRoomId} is not in the map`);
+  } else if (reachableGoalRoomIds.length === 0) {
+    error('unreachableGoal', `No goal room can be reached from starting room ${limits.startingRoomId}`);
+  } else {
+    // Rooms a goal room can be reached from, found by walking the doors backwards
+    const reversed = new Map<number, { nextRooms: number[] }>();
+    for (const roomId of roomsById.keys()) {
+      reversed.set(roomId, { nextRooms: [] });
+    }
+    for (const room of roomsById.values()) {
+      for (const roomId of getDoors(room)) {
+        reversed.get(roomId)?.nextRooms.push(room.id);
+      }
+    }
+    const leadsToGoal = getReachableRoomIds(reversed, goalRoomIds);
+    for (const roomId of reachable) {
+      if (!leadsToGoal.has(roomId)) {
+        const room = roomsById.get(roomId)!;
+        error('strandingRoom', `${getRoomTypeName(room.roomType)} room ${roomId} is reachable but no goal room can be reached from it`, roomId);
+      }
+    }
+  }
+
+  for (const roomId of roomsById.keys()) {
+    if (!reachable.has(roomId)) {
+      warning('unreachableRoom', `Room ${roomId} cannot be reached from starting room ${limits.startingRoomId}`, roomId);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    roomCount: roomsById.size,
+    reachableRoomCount: reachable.size,
+    goalRoomIds,
+    reachableGoalRoomIds,
+    errors,
+    warnings
+  };
+}
+
+// Breadth-first walk through the doors, only rooms of the map are visited
+function getReachableRoomIds(roomsById: Map<number, Pick<MapRoom, 'nextRooms'>>, startRoomIds: number[]): Set<number> {
+  const reachable = new Set<number>();
+  const queue = startRoomIds.filter(roomId => roomsById.has(roomId));
+  for (const roomId of queue) reachable.add(roomId);
+
+  while (queue.length > 0) {
+    const room = roomsById.get(queue.shift()!)!;
+    for (const roomId of getDoors(room)) {
+      if (roomsById.has(roomId) && !reachable.has(roomId)) {
+        reachable.add(roomId);
+        queue.push(roomId);
+      }
+    }
+  }
+  return reachable;
+}
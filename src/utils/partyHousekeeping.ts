@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Abi } from 'viem';
+import ActABI from '../contracts/abis/Act.json';
+import BattleRoomABI from '../contracts/abis/BattleRoom.json';
+import { PartyState } from './graphql';
+
+/**
+ * off skips housekeeping, dryRun only reports what would be done, enforce sends the calls
+ */
+export type HousekeepingMode = 'off' | 'dryRun' | 'enforce';
+
+export const HOUSEKEEPING_MODES: HousekeepingMode[] = ['off', 'dryRun', 'enforce'];
+
+export function isHousekeepingMode(value: string): value is HousekeepingMode {
+  return (HOUSEKEEPING_MODES as string[]).includes(value);
+}
+
+/**
+ * - cancelStaleParties: Act.cancelParty for parties still CREATED long after they were created
+ * - endGoalParties: Act.endParty for parties idling in a completed goal room
+ * - cleanupBattles: BattleRoom.cleanupParty for ended parties whose finished battles were never cleaned up
+ */
+export type HousekeepingRule = 'cancelStaleParties' | 'endGoalParties' | 'cleanupBattles';
+
+export const HOUSEKEEPING_RULES: HousekeepingRule[] = ['cancelStaleParties', 'endGoalParties', 'cleanupBattles'];
+
+export function isHousekeepingRule(value: string): value is HousekeepingRule {
+  return (HOUSEKEEPING_RULES as string[]).includes(value);
+}
+
+export interface HousekeepingConfig {
+  rules: HousekeepingRule[];
+  staleCreatedMs: number; // How long after createdAt a CREATED party is cancelled
+  goalGraceMs: number; // How long a party may sit in a completed goal room before it is ended
+}
+
+export const DEFAULT_HOUSEKEEPING_CONFIG: HousekeepingConfig = {
+  rules: HOUSEKEEPING_RULES,
+  staleCreatedMs: 24 * 60 * 60 * 1000,
+  goalGraceMs: 60 * 60 * 1000
+};
+
+/**
+ * What housekeeping knows about one party of the act
+ */
+export interface PartySnapshot {
+  partyId: string;
+  state: PartyState;
+  createdAt: number; // Unix seconds, as indexed
+  goalCompletedSince?: number; // When the party was first seen in a completed goal room, in ms
+  uncleanedRoomIds?: number[]; // Rooms whose finished battles the BattleRoom still holds for the party
+}
+
+export interface HousekeepingAction {
+  rule: HousekeepingRule;
+  partyId: string;
+  contract: 'act' | 'battleRoom';
+  functionName: 'cancelParty' | 'endParty' | 'cleanupParty';
+  roomIds?: number[]; // The rooms cleanupParty frees
+  reason: string;
+}
+
+export interface HousekeepingActionResult extends HousekeepingAction {
+  outcome: 'planned' | 'sent' | 'failed';
+  hash?: string;
+  error?: string;
+}
+
+export interface HousekeepingReport {
+  mode: HousekeepingMode;
+  generatedAt: number;
+  partiesChecked: number;
+  actions: HousekeepingActionResult[];
+}
+
+/**
+ * Decides which parties the enabled rules act on
+ * @param parties - Snapshots of the act's parties
+ * @param config - Enabled rules and their thresholds
+ * @param now - Current time in ms
+ * @returns One action per rule that applies to a party
+ */
+export function planHousekeeping(parties: PartySnapshot[], config: HousekeepingConfig, now: number): HousekeepingAction[] {
+  const enabled = new Set(config.rules);
+  const actions: HousekeepingAction[] = [];
+
+  for (const party of parties) {
+    const state = Number(party.state);
+
+    if (enabled.has('cancelStaleParties') && state === PartyState.CREATED) {
+      const ageMs = now - party.createdAt * 1000;
+      if (ageMs >= config.staleCreatedMs) {
+        actions.push({
+          rule: 'cancelStaleParties',
+          partyId: party.partyId,
+          contract: 'act',
+          functionName: 'cancelParty',
+          reason: `Party has not started ${formatDuration(ageMs)} after it was created`
+        });
+      }
+    }
+
+    if (enabled.has('endGoalParties') && state === PartyState.IN_ROOM && party.goalCompletedSince !== undefined) {
+      const idleMs = now - party.goalCompletedSince;
+      if (idleMs >= config.goalGraceMs) {
+        actions.push({
+          rule: 'endGoalParties',
+          partyId: party.partyId,
+          contract: 'act',
+          functionName: 'endParty',
+          reason: `Party completed a goal room at least ${formatDuration(idleMs)} ago without ending`
+        });
+      }
+    }
+
+    const ended = state === PartyState.ESCAPED || state === PartyState.CANCELLED;
+    if (enabled.has('cleanupBattles') && ended && party.uncleanedRoomIds?.length) {
+      actions.push({
+        rule: 'cleanupBattles',
+        partyId: party.partyId,
+        contract: 'battleRoom',
+        functionName: 'cleanupParty',
+        roomIds: party.uncleanedRoomIds,
+        reason: `Party ended with finished battles in rooms ${party.uncleanedRoomIds.join(', ')} not cleaned up`
+      });
+    }
+  }
+  return actions;
+}
+
+/**
+ * What the BattleRoom holds for one ended party
+ */
+export interface PartyBattleRooms {
+  holdsBattles: boolean; // Whether any of its rooms still has a battle
+  uncleanedRoomIds: number[]; // Rooms whose battles are finished, so cleanupParty may free them
+}
+
+/**
+ * Reads which rooms of ended parties the BattleRoom still holds battles for, all in one multicall
+ * @param parties - Parties with the rooms they fought battles in
+ * @returns By party ID, parties with a failed read are left out and checked again next run
+ */
+export async function readPartyBattleRooms(
+  publicClient: any,
+  battleRoomAddress: `0x${string}`,
+  actAddress: `0x${string}`,
+  parties: { partyId: string; roomIds: number[] }[]
+): Promise<Map<string, PartyBattleRooms>> {
+  const reads = parties.flatMap(({ partyId, roomIds }) => roomIds.map(roomId => ({ partyId, roomId })));
+  const results: any[] = reads.length === 0 ? [] : await publicClient.multicall({
+    contracts: reads.flatMap(({ partyId, roomId }) => ['partyBattles', 'isRoomCompleted'].map(functionName => ({
+      address: battleRoomAddress,
+      abi: BattleRoomABI as Abi,
+      functionName,
+      args: [actAddress, BigInt(partyId), roomId]
+    })))
+  });
+
+  const rooms = new Map<string, PartyBattleRooms>();
+  const failed = new Set<string>();
+  for (const party of parties) {
+    rooms.set(party.partyId, { holdsBattles: false, uncleanedRoomIds: [] });
+  }
+  reads.forEach(({ partyId, roomId }, index) => {
+    const [battle, completed] = [results[index * 2], results[index * 2 + 1]];
+    if (battle.status !== 'success' || completed.status !== 'success') {
+      failed.add(partyId);
+      return;
+    }
+    if (BigInt(battle.result) === 0n) return;
+    const partyRooms = rooms.get(partyId)!;
+    partyRooms.holdsBattles = true;
+    // Battles still being fought cannot be cleaned up yet
+    if (completed.result) partyRooms.uncleanedRoomIds.push(roomId);
+  });
+  for (const partyId of failed) {
+    rooms.delete(partyId);
+  }
+  return rooms;
+}
+
+/**
+ * Reads Act.isRoomCompleted for many parties in one multicall
+ * @returns IDs of the parties whose current room is completed, failed reads count as not completed
+ */
+export async function readCompletedRooms(publicClient: any, actAddress: `0x${string}`, partyIds: string[]): Promise<Set<string>> {
+  if (partyIds.length === 0) return new Set();
+  const results: any[] = await publicClient.multicall({
+    contracts: partyIds.map(partyId => ({
+      address: actAddress,
+      abi: ActABI as Abi,
+      functionName: 'isRoomCompleted',
+      args: [BigInt(partyId)]
+    }))
+  });
+  return new Set(partyIds.filter((_, index) => results[index].status === 'success' && results[index].result === true));
+}
+
+/**
+ * Keeps the ended parties each act's BattleRoom holds no battles for anymore on disk, one
+ * <directory>/<actAddress>.json per act. Ended parties stay ended, so they are never read again,
+ * not even after a restart.
+ */
+export class SettledPartyStore {
+  constructor(private directory: string) {}
+
+  getFilePath(actAddress: string): string {
+    return path.join(this.directory, `${actAddress.toLowerCase()}.json`);
+  }
+
+  /**
+   * @returns The act's settled party IDs, empty when none were stored
+   */
+  read(actAddress: string): Set<string> {
+    try {
+      const { settledParties } = JSON.parse(fs.readFileSync(this.getFilePath(actAddress), 'utf8'));
+      return new Set(settledParties);
+    } catch {
+      return new Set();
+    }
+  }
+
+  /**
+   * Replaces the act's settled parties, written to a temporary file first so a crash never leaves half a file
+   */
+  async write(actAddress: string, settledParties: Set<string>): Promise<void> {
+    const filePath = this.getFilePath(actAddress);
+    const temporaryPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(temporaryPath, JSON.stringify({ settledParties: Array.from(settledParties) }));
+    await fs.promises.rename(temporaryPath, filePath);
+  }
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  return minutes >= 120 ? `${Math.floor(minutes / 60)}h` : `${minutes}m`;
+}
@@ -44,6 +44,29 @@ export function decodePlayerStats(statsBytes: string): bigint[] {
   return stats;
 }
 
+/**
+ * Encodes player stats into the bytes30 layout read by decodePlayerStats
+ * @param stats - Stat values indexed by PlayerStatType, missing stats are 0
+ * @returns The bytes30 hex string
+ */
+export function encodePlayerStats(stats: (bigint | number)[]): `0x${string}` {
+  // The first 2 bytes are padding, leaving room for 28 stats
+  if (stats.length > 28) {
+    throw new Error(`Too many stats: ${stats.length}, at most 28 fit in bytes30`);
+  }
+
+  let hexData = '0000';
+  for (const stat of stats) {
+    const value = BigInt(stat);
+    if (value < 0n || value > 255n) {
+      throw new Error(`Invalid stat value: ${value}, stats are uint8`);
+    }
+    hexData += value.toString(16).padStart(2, '0');
+  }
+
+  return `0x${hexData.padEnd(60, '0')}`;
+}
+
 /**
  * Gets a specific player stat by type
  * @param statsBytes - The bytes30 hex string
@@ -0,0 +1,321 @@
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { keccak256, type Hex } from 'viem';
+import { createLogger } from './logger';
+
+const logger = createLogger({ operator: 'Randomness' });
+
+export type RandomnessMode = 'crypto' | 'hashChain';
+
+export const RANDOMNESS_MODES: readonly RandomnessMode[] = ['crypto', 'hashChain'];
+
+export function isRandomnessMode(value: string): value is RandomnessMode {
+  return (RANDOMNESS_MODES as readonly string[]).includes(value);
+}
+
+/**
+ * What a random number is drawn for, recorded in the audit log
+ */
+export interface RandomnessRequest {
+  battleAddress: string;
+  purpose: 'startGame' | 'nextTurn';
+  turn?: bigint;
+}
+
+/**
+ * Source of the random numbers passed to Battle.startGame and Battle.nextTurn.
+ * They seed getCurrentTurnRandomNumber and therefore every card draw.
+ */
+export interface RandomnessProvider {
+  readonly mode: RandomnessMode;
+  /**
+   * Commits to a battle's values before any of them is drawn, called when the battle is first operated
+   */
+  open(battleAddress: string): void;
+  /**
+   * @returns A uniformly distributed 256-bit value. Providers with commitments hand out the same
+   * value for the same request until it is confirmed, so a failed transaction cannot be redrawn
+   */
+  next(request: RandomnessRequest): bigint;
+  /**
+   * Marks the value last drawn for a battle as used, once the transaction carrying it is mined
+   */
+  confirm(battleAddress: string): void;
+  /**
+   * Forgets a battle that has ended
+   */
+  close(battleAddress: string): void;
+}
+
+/**
+ * One value revealed by a HashChainRandomnessProvider
+ */
+export interface HashChainReveal {
+  battleAddress: string;
+  purpose: RandomnessRequest['purpose'];
+  turn?: string;
+  commitment: Hex;
+  // Position in the chain, counting down to 0
+  index: number;
+  value: Hex;
+  revealedAt: number;
+}
+
+/**
+ * Draws every value from the operating system's CSPRNG
+ */
+export class CryptoRandomnessProvider implements RandomnessProvider {
+  readonly mode = 'crypto' as const;
+
+  open(): void {}
+
+  next(): bigint {
+    return BigInt(`0x${randomBytes(32).toString('hex')}`);
+  }
+
+  confirm(): void {}
+
+  close(): void {}
+}
+
+// A value handed out for a transaction that is not known to be mined yet
+interface HashChainReservation {
+  purpose: RandomnessRequest['purpose'];
+  turn?: string;
+  index: number;
+}
+
+interface HashChain {
+  seed: Hex;
+  commitment: Hex;
+  // values[i + 1] === keccak256(values[i]), values[length - 1] hashes to the commitment
+  values: Hex[];
+  // Next position to hand out, counting down to 0
+  nextIndex: number;
+  reserved?: HashChainReservation;
+}
+
+// What the state file keeps per battle, the values are derived from the seed again on load
+interface PersistedHashChain {
+  seed: Hex;
+  length: number;
+  nextIndex: number;
+  reserved?: HashChainReservation;
+}
+
+export interface HashChainOptions {
+  length?: number; // Values per chain, the next chain is committed when the last value of one is used. Default: 1024
+  auditLogPath?: string; // JSONL file commitments and reveals are appended to
+  stateDir?: string; // Directory with a JSON file per battle holding its chain seed and position, so a restart continues each battle's chain
+  seed?: () => Hex; // Chain seed source, defaults to 32 CSPRNG bytes
+  onCommit?: (battleAddress: string, commitment: Hex, length: number) => void; // Publishes each new commitment
+}
+
+/**
+ * Reveals a pre-committed hash chain per battle.
+ *
+ * A random seed is hashed `length` times and the final hash is published as the battle's commitment
+ * when the battle is opened, before startGame. Values are then used backwards along the chain, so
+ * every value hashes to the one used before it and the first hashes to the commitment. A value only
+ * counts as revealed once its transaction is mined, until then it is handed out again for retries,
+ * so the values on chain have no gaps and failing a transaction does not draw a new one. Once the
+ * commitment is out, the operator cannot choose the values it uses, and anyone holding the audit log
+ * can check each turn's random number with verifyHashChain.
+ */
+export class HashChainRandomnessProvider implements RandomnessProvider {
+  readonly mode = 'hashChain' as const;
+  private chains: Map<string, HashChain> = new Map();
+  private reveals: Map<string, HashChainReveal[]> = new Map();
+  private length: number;
+  private auditLogPath?: string;
+  private stateDir?: string;
+  private seed: () => Hex;
+  private onCommit?: HashChainOptions['onCommit'];
+
+  constructor(options: HashChainOptions = {}) {
+    this.length = options.length ?? 1024;
+    this.auditLogPath = options.auditLogPath;
+    this.stateDir = options.stateDir;
+    this.seed = options.seed ?? (() => `0x${randomBytes(32).toString('hex')}`);
+    this.onCommit = options.onCommit;
+    if (this.length < 1) {
+      throw new Error(`Invalid hash chain length: ${this.length}`);
+    }
+    this.loadState();
+  }
+
+  open(battleAddress: string): void {
+    const key = battleAddress.toLowerCase();
+    if (!this.chains.has(key)) {
+      this.commit(key);
+    }
+  }
+
+  next(request: RandomnessRequest): bigint {
+    const key = request.battleAddress.toLowerCase();
+    let chain = this.chains.get(key);
+    if (!chain) {
+      logger.warn({ battleAddress: key }, 'Battle was not opened before its first value, committing now');
+      chain = this.commit(key);
+    }
+
+    const turn = request.turn?.toString();
+    if (chain.reserved && (chain.reserved.purpose !== request.purpose || chain.reserved.turn !== turn)) {
+      // The battle moved on, so the transaction carrying the reserved value was mined after all
+      logger.warn({ battleAddress: key, reserved: chain.reserved, purpose: request.purpose, turn }, 'Earlier value was never confirmed, assuming its transaction was mined');
+      chain = this.reveal(key, chain);
+    }
+    if (!chain.reserved) {
+      chain.reserved = { purpose: request.purpose, turn, index: chain.nextIndex };
+      this.saveState(key, chain);
+    }
+    return BigInt(chain.values[chain.reserved.index]);
+  }
+
+  confirm(battleAddress: string): void {
+    const key = battleAddress.toLowerCase();
+    const chain = this.chains.get(key);
+    if (chain?.reserved) {
+      this.reveal(key, chain);
+    }
+  }
+
+  close(battleAddress: string): void {
+    const key = battleAddress.toLowerCase();
+    this.reveals.delete(key);
+    if (this.chains.delete(key)) {
+      this.deleteState(key);
+      logger.debug({ battleAddress: key }, 'Dropped hash chain of ended battle');
+    }
+  }
+
+  /**
+   * Returns the current commitment for a battle, undefined before it is opened
+   */
+  getCommitment(battleAddress: string): Hex | undefined {
+    return this.chains.get(battleAddress.toLowerCase())?.commitment;
+  }
+
+  /**
+   * Returns every value revealed for a battle since this process started, oldest first
+   */
+  getReveals(battleAddress: string): HashChainReveal[] {
+    return this.reveals.get(battleAddress.toLowerCase()) ?? [];
+  }
+
+  // Records the reserved value as used and moves along the chain, committing the next chain
+  // straight away when this one is used up
+  private reveal(battleAddress: string, chain: HashChain): HashChain {
+    const { purpose, turn, index } = chain.reserved!;
+    const reveal: HashChainReveal = {
+      battleAddress,
+      purpose,
+      turn,
+      commitment: chain.commitment,
+      index,
+      value: chain.values[index],
+      revealedAt: Date.now()
+    };
+    const reveals = this.reveals.get(battleAddress) ?? [];
+    reveals.push(reveal);
+    this.reveals.set(battleAddress, reveals);
+    this.audit({ type: 'reveal', ...reveal });
+
+    chain.reserved = undefined;
+    chain.nextIndex = index - 1;
+    if (chain.nextIndex < 0) {
+      return this.commit(battleAddress);
+    }
+    this.saveState(battleAddress, chain);
+    return chain;
+  }
+
+  private commit(battleAddress: string): HashChain {
+    const chain = this.buildChain(this.seed(), this.length);
+    this.chains.set(battleAddress, chain);
+    // The seed is on disk before the commitment goes out, so a restart cannot lose the chain
+    this.saveState(battleAddress, chain);
+
+    logger.info({ battleAddress, commitment: chain.commitment, length: this.length }, 'Committed to a new hash chain');
+    this.audit({ type: 'commit', battleAddress, commitment: chain.commitment, length: this.length, committedAt: Date.now() });
+    this.onCommit?.(battleAddress, chain.commitment, this.length);
+    return chain;
+  }
+
+  private buildChain(seed: Hex, length: number, nextIndex = length - 1): HashChain {
+    const values: Hex[] = [seed];
+    for (let i = 1; i < length; i++) {
+      values.push(keccak256(values[i - 1]));
+    }
+    return { seed, commitment: keccak256(values[values.length - 1]), values, nextIndex };
+  }
+
+  private getStatePath(battleAddress: string): string {
+    return path.join(this.stateDir!, `${battleAddress}.json`);
+  }
+
+  private loadState() {
+    if (!this.stateDir || !fs.existsSync(this.stateDir)) return;
+    for (const fileName of fs.readdirSync(this.stateDir)) {
+      if (!fileName.endsWith('.json')) continue;
+      const battleAddress = path.basename(fileName, '.json');
+      const persisted: PersistedHashChain = JSON.parse(fs.readFileSync(path.join(this.stateDir, fileName), 'utf8'));
+      const chain = this.buildChain(persisted.seed, persisted.length, persisted.nextIndex);
+      chain.reserved = persisted.reserved;
+      this.chains.set(battleAddress, chain);
+    }
+    logger.info({ stateDir: this.stateDir, battles: this.chains.size }, 'Loaded hash chains');
+  }
+
+  // Only the changed battle's file is rewritten, aside and renamed so a crash cannot leave half a file
+  private saveState(battleAddress: string, chain: HashChain) {
+    if (!this.stateDir) return;
+    const persisted: PersistedHashChain = { seed: chain.seed, length: chain.values.length, nextIndex: chain.nextIndex, reserved: chain.reserved };
+    const statePath = this.getStatePath(battleAddress);
+    const tempPath = `${statePath}.${process.pid}.tmp`;
+    fs.mkdirSync(this.stateDir, { recursive: true });
+    fs.writeFileSync(tempPath, JSON.stringify(persisted));
+    fs.renameSync(tempPath, statePath);
+  }
+
+  private deleteState(battleAddress: string) {
+    if (!this.stateDir) return;
+    fs.rmSync(this.getStatePath(battleAddress), { force: true });
+  }
+
+  private audit(entry: Record<string, unknown>) {
+    if (!this.auditLogPath) return;
+    try {
+      fs.appendFileSync(this.auditLogPath, `${JSON.stringify(entry)}\n`);
+    } catch (error: any) {
+      logger.error({ error: error?.message || error, auditLogPath: this.auditLogPath }, 'Could not write randomness audit log');
+    }
+  }
+}
+
+/**
+ * Checks that revealed values walk back along a hash chain from its commitment
+ * @param commitment - The published commitment
+ * @param values - Revealed values in the order they were used
+ * @returns Whether every value hashes to the one before it, the first to the commitment
+ */
+export function verifyHashChain(commitment: Hex, values: Hex[]): boolean {
+  let expected = commitment.toLowerCase();
+  for (const value of values) {
+    if (keccak256(value).toLowerCase() !== expected) {
+      return false;
+    }
+    expected = value.toLowerCase();
+  }
+  return true;
+}
+
+/**
+ * Creates the provider selected by RANDOMNESS_MODE
+ * @param mode - Which provider to create. Default: crypto
+ * @param options - Hash chain options, ignored in crypto mode
+ */
+export function createRandomnessProvider(mode: RandomnessMode = 'crypto', options: HashChainOptions = {}): RandomnessProvider {
+  return mode === 'hashChain' ? new HashChainRandomnessProvider(options) : new CryptoRandomnessProvider();
+}
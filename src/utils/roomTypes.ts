@@ -0,0 +1,133 @@
+import type { Hex } from 'viem';
+import { getMonsterSlots, getRoomMonsters, RoomType, type MapRoom } from './actMap';
+import { encodeBattleRoomData, type BattleRoomDataField } from './battleRoomData';
+import type { MapLimits } from './mapValidation';
+
+const MAX_UINT16 = 0xffff;
+
+/**
+ * What a handler needs to encode a room's roomData for the deployed contracts
+ */
+export interface RoomEncodingContext {
+  battleRoomDataLayout: BattleRoomDataField[]; // The configured BattleRoomData layout
+}
+
+/**
+ * An issue a handler finds in one of its rooms, reported with the map's other issues
+ */
+export interface RoomIssue {
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+}
+
+/**
+ * Owns one roomType of the Act contract: how its rooms' roomData is read from map JSON,
+ * checked before the map is accepted and encoded for enterRoom.
+ */
+export interface RoomTypeHandler<TData = unknown> {
+  readonly roomType: number; // uint16 roomType in map.json and the Room struct
+  readonly name: string;
+  readonly isGoal: boolean; // Whether parties finish the act by reaching rooms of this type
+  /**
+   * @param roomData - The room's roomData as found in map.json
+   * @returns The data encodeRoomData takes, parsed once when the map is accepted
+   */
+  parseRoomData(roomData: MapRoom['roomData']): TData;
+  /**
+   * @returns Issues of the room's roomData, only called for rooms of this type
+   */
+  validateRoom(room: MapRoom, limits: MapLimits): RoomIssue[];
+  /**
+   * @returns The roomData bytes the contracts decode for rooms of this type
+   */
+  encodeRoomData(data: TData, context: RoomEncodingContext): Hex;
+  /**
+   * @returns A short summary of the data for logs
+   */
+  describeRoomData(data: TData): string;
+}
+
+/**
+ * Rooms without data, which the contracts pass empty bytes for
+ */
+export function createEmptyRoomTypeHandler(roomType: number, name: string, isGoal = false): RoomTypeHandler<null> {
+  return {
+    roomType,
+    name,
+    isGoal,
+    parseRoomData: () => null,
+    validateRoom: () => [],
+    encodeRoomData: () => '0x',
+    describeRoomData: () => '-'
+  };
+}
+
+/**
+ * BATTLE rooms, whose roomData names MonsterRegistry monsters by BattleRoomData slot
+ */
+export const battleRoomTypeHandler: RoomTypeHandler<number[]> = {
+  roomType: RoomType.BATTLE,
+  name: 'BATTLE',
+  isGoal: false,
+  parseRoomData: roomData => getRoomMonsters(roomData),
+  validateRoom(room, limits) {
+    const issues: RoomIssue[] = [];
+    const error = (code: string, message: string) => issues.push({ severity: 'error', code, message });
+
+    const slots = getMonsterSlots(room.roomData);
+    if (slots[0]?.slot !== 1) {
+      error('missingMonster', `BATTLE room ${room.id} has no monsterIndex1`);
+    }
+    slots.forEach(({ slot }, index) => {
+      if (index > 0 && slot !== slots[index - 1].slot + 1) {
+        error('monsterSlotGap', `BATTLE room ${room.id} sets monsterIndex${slot} without monsterIndex${slots[index - 1].slot + 1}`);
+      }
+    });
+    if (slots.length > 0 && slots[slots.length - 1].slot > limits.maxMonstersPerRoom) {
+      error('tooManyMonsters', `BATTLE room ${room.id} lists monsterIndex${slots[slots.length - 1].slot}, the configured BattleRoomData layout only has ${limits.maxMonstersPerRoom} monster slots`);
+    }
+    for (const { slot, monsterIndex } of slots) {
+      // Slots past the first are 0 when the room does not use them
+      const minimum = slot === 1 ? 0 : 1;
+      if (!Number.isInteger(monsterIndex) || monsterIndex < minimum || monsterIndex > MAX_UINT16 || monsterIndex >= limits.monsterCount) {
+        error('invalidMonsterIndex', `BATTLE room ${room.id} uses monster ${monsterIndex} in monsterIndex${slot}, the MonsterRegistry has ${limits.monsterCount}`);
+      }
+    }
+    return issues;
+  },
+  encodeRoomData: (monsterIndices, context) => encodeBattleRoomData(monsterIndices, context.battleRoomDataLayout),
+  describeRoomData: monsterIndices => `monsters=[${monsterIndices.join(',')}]`
+};
+
+const roomTypeHandlers: Map<number, RoomTypeHandler<any>> = new Map<number, RoomTypeHandler<any>>([
+  [RoomType.NULL, createEmptyRoomTypeHandler(RoomType.NULL, 'NULL')],
+  [RoomType.BATTLE, battleRoomTypeHandler],
+  [RoomType.GOAL, createEmptyRoomTypeHandler(RoomType.GOAL, 'GOAL', true)]
+]);
+
+/**
+ * Registers the handler of a room type so maps may use it, replacing any handler of that type
+ */
+export function registerRoomTypeHandler(handler: RoomTypeHandler<any>): void {
+  roomTypeHandlers.set(handler.roomType, handler);
+}
+
+/**
+ * @returns The handler of a room type, or undefined when maps may not use it
+ */
+export function getRoomTypeHandler(roomType: number): RoomTypeHandler<any> | undefined {
+  return roomTypeHandlers.get(roomType);
+}
+
+export function getRoomTypeNames(): string[] {
+  return Array.from(roomTypeHandlers.values()).map(handler => handler.name);
+}
+
+/**
+ * @param roomType - A room's roomType
+ * @returns The name of its handler, or UNKNOWN when none is registered
+ */
+export function getRoomTypeName(roomType: number): string {
+  return roomTypeHandlers.get(roomType)?.name ?? 'UNKNOWN';
+}
@@ -49,4 +49,68 @@ export function createAuthenticatedWebSocketTransport(url: string, env: AuthConf
       headers
     }
   });
-}
\ No newline at end of file
+}
+
+// Blocks per log request, halved down to MIN_LOG_CHUNK_BLOCKS when the RPC rejects a range
+const LOG_CHUNK_BLOCKS = 100000n;
+const MIN_LOG_CHUNK_BLOCKS = 1000n;
+
+/**
+ * Reads contract events over a block range in chunks, as providers cap the block range of a
+ * single log request. The chunk is halved whenever a range is rejected.
+ * @param publicClient - Client to read the events with
+ * @param request - The getContractEvents request without its block range
+ * @returns The events of every chunk, in block order
+ * @throws When even the smallest chunk is rejected
+ */
+export async function getContractEventsInChunks(
+  publicClient: any,
+  request: Record<string, unknown>,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<any[]> {
+  const logs: any[] = [];
+  let chunkBlocks = LOG_CHUNK_BLOCKS;
+  let start = fromBlock;
+  while (start <= toBlock) {
+    const end = start + chunkBlocks - 1n < toBlock ? start + chunkBlocks - 1n : toBlock;
+    try {
+      logs.push(...await publicClient.getContractEvents({ ...request, fromBlock: start, toBlock: end }));
+      start = end + 1n;
+    } catch (error: any) {
+      if (chunkBlocks <= MIN_LOG_CHUNK_BLOCKS) {
+        throw error;
+      }
+      chunkBlocks /= 2n;
+      logger.debug({ address: request.address, chunkBlocks: chunkBlocks.toString(), error: error.message }, 'Log range rejected, retrying with smaller chunks');
+    }
+  }
+  return logs;
+}
+
+/**
+ * Finds the block a contract was deployed in by bisecting on its code. This reads code at old
+ * blocks, so it needs an archive RPC: a pruned node rejects those reads and the search throws.
+ * @returns The deployment block, undefined when there is no code at the address
+ */
+export async function findDeploymentBlock(publicClient: any, address: `0x${string}`, latestBlock: bigint): Promise<bigint | undefined> {
+  const hasCode = async (blockNumber: bigint) => {
+    const code = await publicClient.getCode({ address, blockNumber });
+    return code !== undefined && code !== '0x';
+  };
+  if (!await hasCode(latestBlock)) {
+    return undefined;
+  }
+
+  let low = 0n;
+  let high = latestBlock;
+  while (low < high) {
+    const middle = (low + high) / 2n;
+    if (await hasCode(middle)) {
+      high = middle;
+    } else {
+      low = middle + 1n;
+    }
+  }
+  return low;
+}
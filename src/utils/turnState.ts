@@ -0,0 +1,257 @@
+import type { Abi } from 'viem';
+import BattleABI from '../contracts/abis/Battle.json';
+import PlayerDeckManagerABI from '../contracts/abis/PlayerDeckManager.json';
+import { cardPileBitsToArray } from './cardPiles';
+import { decodePlayerStats, PlayerStatType } from './playerStats';
+
+export interface PileState {
+  drawPile: `0x${string}`;
+  hand: `0x${string}`;
+  discardPile: `0x${string}`;
+}
+
+/**
+ * Another battle player whose chain state is read along with the turn state
+ */
+export interface PlayerRead {
+  playerId: bigint;
+  // Whether to read isAdjacentPlayer from the loaded player to this one
+  adjacency: boolean;
+}
+
+/**
+ * A battle player's chain state, fields are undefined when their read failed
+ */
+export interface PlayerChainState {
+  stats?: bigint[];
+  location?: readonly bigint[];
+  adjacent?: boolean;
+}
+
+/**
+ * Everything the operator needs to decide its next move, read in a single multicall
+ */
+export interface TurnState {
+  currentTurn: bigint;
+  winner: bigint;
+  isTeamATurn: boolean;
+  turnEndsAt: bigint;
+  turnTimerEnabled: boolean;
+  deckId: bigint;
+  // Undefined while the player's deck has not been created
+  pileState?: PileState;
+  handCards: number[];
+  drawPileCards: number[];
+  discardPileCards: number[];
+  exhaustedCards: number[];
+  // Decoded stats indexed by PlayerStatType
+  stats: bigint[];
+  energy: bigint;
+  // Whether the player ended the current turn. Read for the turn passed to load, and read again
+  // for the current turn when that is a different one
+  hasEndedTurn: boolean;
+  // Energy required for each hand index
+  energyRequirements: Map<number, bigint>;
+  // Chain state of the players passed to load, by player ID
+  players: Map<string, PlayerChainState>;
+}
+
+/**
+ * Loads a character's turn state with one multicall per call.
+ *
+ * The PlayerDeckManager address and the deck ID are cached once known, so steady state
+ * reads are a single round trip. energyRequired is requested for a guessed number of hand
+ * indices, out of range indices simply fail and are ignored.
+ */
+export class TurnStateLoader {
+  private publicClient: any;
+  private gameAddress: `0x${string}`;
+  private playerId: bigint;
+  private playerDeckManagerAddress?: `0x${string}`;
+  private deckId: bigint = 0n;
+
+  constructor(publicClient: any, gameAddress: string, playerId: bigint) {
+    this.publicClient = publicClient;
+    this.gameAddress = gameAddress as `0x${string}`;
+    this.playerId = playerId;
+  }
+
+  /**
+   * @param expectedTurn - Turn to check playerEndedTurn for, usually the turn being played
+   * @param handSizeHint - How many energyRequired values to read up front
+   * @param players - Battle players whose stats, location and adjacency to read in the same multicall
+   * @returns The current turn state
+   */
+  async load(expectedTurn?: bigint, handSizeHint: number = 5, players: PlayerRead[] = []): Promise<TurnState> {
+    if (!this.playerDeckManagerAddress) {
+      this.playerDeckManagerAddress = await this.publicClient.readContract({
+        address: this.gameAddress,
+        abi: BattleABI as Abi,
+        functionName: 'playerDeckManager'
+      }) as `0x${string}`;
+    }
+
+    const battleCall = (functionName: string, args?: unknown[]) => ({
+      address: this.gameAddress,
+      abi: BattleABI as Abi,
+      functionName,
+      ...(args ? { args } : {})
+    });
+
+    const deckIdKnown = this.deckId !== 0n;
+    const energyIndices = Array.from({ length: handSizeHint }, (_, index) => index);
+    const playerCalls = players.map(player => ({
+      playerId: player.playerId,
+      stats: battleCall('getPlayerStats', [player.playerId]),
+      location: battleCall('playerLocations', [player.playerId]),
+      adjacent: player.adjacency ? battleCall('isAdjacentPlayer', [this.playerId, player.playerId]) : undefined
+    }));
+    const contracts = [
+      battleCall('currentTurn'),
+      battleCall('winner'),
+      battleCall('isTeamATurn'),
+      battleCall('currentTurnEndsAt'),
+      battleCall('turnTimerEnabled'),
+      battleCall('getPlayerStats', [this.playerId]),
+      battleCall('playerEndedTurn', [this.playerId, expectedTurn ?? 0n]),
+      // The deck ID never changes once created, so only ask again while it is unset
+      deckIdKnown ? undefined : battleCall('playerDeckIds', [this.playerId]),
+      deckIdKnown ? this.pileStateCall(this.deckId) : undefined,
+      deckIdKnown ? this.exhaustedCardsCall(this.deckId) : undefined,
+      ...playerCalls.flatMap(call => [call.stats, call.location, call.adjacent]),
+      ...energyIndices.map(index => battleCall('energyRequired', [this.playerId, BigInt(index)]))
+    ];
+
+    const calls = contracts.filter(call => call !== undefined);
+    const results: any[] = await this.publicClient.multicall({ contracts: calls, allowFailure: true });
+    const byCall = new Map(calls.map((call, index) => [call, results[index]]));
+    const valueOf = (call: unknown) => {
+      const result = byCall.get(call as any);
+      if (!result || result.status !== 'success') {
+        throw new Error(`Turn state read failed: ${result?.error?.shortMessage || result?.error?.message || 'missing result'}`);
+      }
+      return result.result;
+    };
+    const [
+      currentTurnCall, winnerCall, isTeamATurnCall, turnEndsAtCall, turnTimerEnabledCall,
+      playerStatsCall, playerEndedTurnCall, deckIdCall, pileStateCall, exhaustedCardsCall
+    ] = contracts;
+
+    const currentTurn = valueOf(currentTurnCall) as bigint;
+    const stats = decodePlayerStats((valueOf(playerStatsCall) as { stats: string }).stats);
+
+    if (!deckIdKnown) {
+      this.deckId = valueOf(deckIdCall) as bigint;
+    }
+
+    let pileState: PileState | undefined;
+    let exhaustedCards: number[] = [];
+    if (pileStateCall) {
+      pileState = valueOf(pileStateCall) as PileState;
+      const exhaustedResult = byCall.get(exhaustedCardsCall as any);
+      // Exhausted cards are only informational, a failed read should not stop the turn
+      if (exhaustedResult?.status === 'success') {
+        exhaustedCards = (exhaustedResult.result as readonly bigint[]).map(Number);
+      }
+    } else if (this.deckId !== 0n) {
+      // The deck was created since the last load, nothing can have been exhausted yet
+      pileState = await this.publicClient.readContract(this.pileStateCall(this.deckId)) as PileState;
+    }
+    const pileCards = (bits?: `0x${string}`) => bits ? cardPileBitsToArray(BigInt(bits)) : [];
+    const handCards = pileCards(pileState?.hand);
+
+    const energyRequirements = new Map<number, bigint>();
+    energyIndices.forEach((index, offset) => {
+      const result = results[calls.length - energyIndices.length + offset];
+      if (index < handCards.length && result.status === 'success') {
+        energyRequirements.set(index, BigInt(result.result));
+      }
+    });
+    await this.loadMissingEnergyRequirements(handCards.length, energyRequirements);
+
+    // playerEndedTurn is only meaningful for the turn we asked about
+    let hasEndedTurn = valueOf(playerEndedTurnCall) as boolean;
+    if (expectedTurn === undefined || expectedTurn !== currentTurn) {
+      hasEndedTurn = await this.publicClient.readContract(battleCall('playerEndedTurn', [this.playerId, currentTurn])) as boolean;
+    }
+
+    // Other players' reads are informational, a failed one leaves its field undefined
+    const optionalValueOf = (call: unknown) => {
+      const result = call ? byCall.get(call as any) : undefined;
+      return result?.status === 'success' ? result.result : undefined;
+    };
+    const playerStates = new Map<string, PlayerChainState>();
+    for (const call of playerCalls) {
+      const playerStats = optionalValueOf(call.stats) as { stats: string } | undefined;
+      playerStates.set(call.playerId.toString(), {
+        stats: playerStats ? decodePlayerStats(playerStats.stats) : undefined,
+        location: optionalValueOf(call.location) as readonly bigint[] | undefined,
+        adjacent: optionalValueOf(call.adjacent) as boolean | undefined
+      });
+    }
+
+    return {
+      currentTurn,
+      winner: valueOf(winnerCall) as bigint,
+      isTeamATurn: valueOf(isTeamATurnCall) as boolean,
+      turnEndsAt: valueOf(turnEndsAtCall) as bigint,
+      turnTimerEnabled: valueOf(turnTimerEnabledCall) as boolean,
+      deckId: this.deckId,
+      pileState,
+      handCards,
+      drawPileCards: pileCards(pileState?.drawPile),
+      discardPileCards: pileCards(pileState?.discardPile),
+      exhaustedCards,
+      stats,
+      energy: stats[PlayerStatType.ENERGY],
+      hasEndedTurn,
+      energyRequirements,
+      players: playerStates
+    };
+  }
+
+  getPlayerDeckManagerAddress(): `0x${string}` | undefined {
+    return this.playerDeckManagerAddress;
+  }
+
+  private pileStateCall(deckId: bigint) {
+    return {
+      address: this.playerDeckManagerAddress as `0x${string}`,
+      abi: PlayerDeckManagerABI as Abi,
+      functionName: 'getPileState',
+      args: [deckId]
+    };
+  }
+
+  private exhaustedCardsCall(deckId: bigint) {
+    return {
+      address: this.playerDeckManagerAddress as `0x${string}`,
+      abi: PlayerDeckManagerABI as Abi,
+      functionName: 'getExhaustedCards',
+      args: [deckId]
+    };
+  }
+
+  // Only needed when the hand is larger than the hint, e.g. after a draw effect
+  private async loadMissingEnergyRequirements(handSize: number, energyRequirements: Map<number, bigint>): Promise<void> {
+    const missing = Array.from({ length: handSize }, (_, index) => index).filter(index => !energyRequirements.has(index));
+    if (missing.length === 0) {
+      return;
+    }
+
+    const results: any[] = await this.publicClient.multicall({
+      allowFailure: true,
+      contracts: missing.map(index => ({
+        address: this.gameAddress,
+        abi: BattleABI as Abi,
+        functionName: 'energyRequired',
+        args: [this.playerId, BigInt(index)]
+      }))
+    });
+    missing.forEach((index, offset) => {
+      if (results[offset].status === 'success') {
+        energyRequirements.set(index, BigInt(results[offset].result));
+      }
+    });
+  }
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { BattleJournal, JOURNAL_EVENTS } from '../../src/node/BattleJournal'
+
+const battle = '0x00000000000000000000000000000000000000AA'
+
+function createAggregator() {
+  const handlers = new Map<string, (logs: any[]) => void>()
+  const unsubscribe = vi.fn()
+  return {
+    handlers,
+    unsubscribe,
+    subscribe: vi.fn(({ eventName, onEvent }: { eventName: string; onEvent: (logs: any[]) => void }) => {
+      handlers.set(eventName, onEvent)
+      return unsubscribe
+    })
+  }
+}
+
+describe('BattleJournal', () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'journal-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  const readEntries = (journal: BattleJournal) =>
+    fs.readFileSync(journal.getFilePath(battle), 'utf8').trim().split('\n').map(line => JSON.parse(line))
+
+  it('should subscribe to every lifecycle event once per battle', () => {
+    const aggregator = createAggregator()
+    const journal = new BattleJournal({ directory, eventAggregator: aggregator as any })
+
+    journal.track(battle)
+    journal.track(battle.toLowerCase())
+
+    expect(aggregator.subscribe).toHaveBeenCalledTimes(JOURNAL_EVENTS.length)
+    expect(journal.getTrackedCount()).toBe(1)
+
+    journal.untrack(battle)
+    expect(aggregator.unsubscribe).toHaveBeenCalledTimes(JOURNAL_EVENTS.length)
+    expect(journal.getTrackedCount()).toBe(0)
+  })
+
+  it('should write events and decisions in order with bigints as strings', async () => {
+    const aggregator = createAggregator()
+    const journal = new BattleJournal({ directory, eventAggregator: aggregator as any })
+    journal.track(battle)
+
+    aggregator.handlers.get('GameStartedEvent')!([{
+      args: { startedAt: 100n, teamAStarts: true, turnData: { turn: 1n } },
+      blockNumber: 5n,
+      logIndex: 0,
+      transactionHash: '0xStart'
+    }])
+    journal.recordDecision(battle, { operator: 'CharacterOperator', action: 'endTurn', playerId: '1', turn: 1n, transactionHash: '0xEnd' })
+    await journal.flush()
+
+    const entries = readEntries(journal)
+    expect(entries.map(entry => entry.seq)).toEqual([1, 2])
+    expect(entries[0]).toMatchObject({
+      type: 'event',
+      eventName: 'GameStartedEvent',
+      args: { startedAt: '100', teamAStarts: true, turnData: { turn: '1' } },
+      blockNumber: '5',
+      transactionHash: '0xstart'
+    })
+    expect(entries[0].decisionSeq).toBeUndefined()
+    expect(entries[1]).toMatchObject({ type: 'decision', action: 'endTurn', playerId: '1', turn: '1' })
+  })
+
+  it('should cross-reference the bot\'s transactions from whichever side is journaled second', async () => {
+    const aggregator = createAggregator()
+    const journal = new BattleJournal({ directory, eventAggregator: aggregator as any })
+    journal.track(battle)
+
+    // The receipt arrived before the event
+    journal.recordDecision(battle, { operator: 'CharacterOperator', action: 'playCard', details: { cardId: 3 }, transactionHash: '0xPlay' })
+    aggregator.handlers.get('PlayerActionEvent')!([{ args: { playerId: 1n, card: 3n }, transactionHash: '0xplay' }])
+
+    // The event arrived before the receipt
+    aggregator.handlers.get('NextTurnEvent')!([{ args: { turn: 2n }, transactionHash: '0xNext' }])
+    journal.recordDecision(battle, { operator: 'BattleOperator', action: 'nextTurn', transactionHash: '0xNext' })
+    await journal.flush()
+
+    const [play, action, nextTurn, decision] = readEntries(journal)
+    expect(action.decisionSeq).toBe(play.seq)
+    expect(decision.eventSeqs).toEqual([nextTurn.seq])
+  })
+
+  it('should continue numbering an existing timeline', async () => {
+    const aggregator = createAggregator()
+    const first = new BattleJournal({ directory, eventAggregator: aggregator as any })
+    first.recordDecision(battle, { operator: 'BattleOperator', action: 'startGame' })
+    await first.flush()
+
+    const second = new BattleJournal({ directory, eventAggregator: aggregator as any })
+    second.recordDecision(battle, { operator: 'BattleOperator', action: 'nextTurn' })
+    await second.flush()
+
+    expect(readEntries(second).map(entry => entry.seq)).toEqual([1, 2])
+  })
+})
+
+describe('BattleJournal backfill', () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'journal-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  const readEntries = (journal: BattleJournal) =>
+    fs.readFileSync(journal.getFilePath(battle), 'utf8').trim().split('\n').map(line => JSON.parse(line))
+
+  // The battle was deployed in block 40
+  function createPublicClient(logs: any[]) {
+    return {
+      getBlockNumber: vi.fn().mockResolvedValue(100n),
+      getCode: vi.fn(async ({ blockNumber }: { blockNumber: bigint }) => blockNumber >= 40n ? '0x6080' : undefined),
+      getContractEvents: vi.fn().mockResolvedValue(logs)
+    }
+  }
+
+  it('should journal the events missed since the battle was created in chain order', async () => {
+    const aggregator = createAggregator()
+    const publicClient = createPublicClient([
+      { eventName: 'PlayerJoinedEvent', args: { playerId: 2n }, blockNumber: 41n, logIndex: 3 },
+      { eventName: 'OwnershipTransferred', args: {}, blockNumber: 40n, logIndex: 0 },
+      { eventName: 'PlayerJoinedEvent', args: { playerId: 1n }, blockNumber: 41n, logIndex: 1 },
+      { eventName: 'GameStartedEvent', args: {}, blockNumber: 45n, logIndex: 0 }
+    ])
+    const journal = new BattleJournal({ directory, eventAggregator: aggregator as any, publicClient })
+
+    journal.track(battle)
+    // Arrives live during the backfill, once read from the chain as well
+    aggregator.handlers.get('GameStartedEvent')!([{ args: {}, blockNumber: 45n, logIndex: 0 }])
+    aggregator.handlers.get('NextTurnEvent')!([{ args: { turn: 1n }, blockNumber: 101n, logIndex: 0 }])
+    await journal.waitForBackfill(battle)
+    await journal.flush()
+
+    expect(publicClient.getContractEvents).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 40n, toBlock: 100n }))
+    const entries = readEntries(journal)
+    expect(entries.map(entry => [entry.eventName, entry.blockNumber, entry.backfilled])).toEqual([
+      ['PlayerJoinedEvent', '41', true],
+      ['PlayerJoinedEvent', '41', true],
+      ['GameStartedEvent', '45', true],
+      ['NextTurnEvent', '101', undefined]
+    ])
+    expect(entries[0].args).toEqual({ playerId: '1' })
+  })
+
+  it('should resume from the last journaled block', async () => {
+    const first = new BattleJournal({ directory, eventAggregator: createAggregator() as any })
+    first.recordEvent(battle, 'GameStartedEvent', { args: {}, blockNumber: 60n, logIndex: 2 })
+    await first.flush()
+
+    const publicClient = createPublicClient([
+      { eventName: 'GameStartedEvent', args: {}, blockNumber: 60n, logIndex: 2 },
+      { eventName: 'NextTurnEvent', args: { turn: 2n }, blockNumber: 70n, logIndex: 0 }
+    ])
+    const second = new BattleJournal({ directory, eventAggregator: createAggregator() as any, publicClient })
+    second.track(battle)
+    await second.waitForBackfill(battle)
+    await second.flush()
+
+    expect(publicClient.getCode).not.toHaveBeenCalled()
+    expect(publicClient.getContractEvents).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 60n }))
+    expect(readEntries(second).map(entry => [entry.seq, entry.eventName])).toEqual([[1, 'GameStartedEvent'], [2, 'NextTurnEvent']])
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { getDeadlineCheckDelayMs, getGameStartDecision, type GameStartState } from '../../src/node/BattleOperator'
+
+const lobby = (overrides: Partial<GameStartState> = {}): GameStartState => ({
+  isSufficientPlayers: true,
+  joinDeadlineAt: 1000n,
+  teamACount: 1n,
+  teamBCount: 1n,
+  maxTeamSize: 3n,
+  nowSeconds: 900n,
+  ...overrides
+})
+
+describe('getGameStartDecision', () => {
+  it('should wait while there are not enough players', () => {
+    expect(getGameStartDecision(lobby({ isSufficientPlayers: false, nowSeconds: 2000n })).start).toBe(false)
+  })
+
+  it('should wait for the join deadline while teams have room', () => {
+    expect(getGameStartDecision(lobby())).toEqual({ start: false, reason: 'waiting for the join deadline' })
+  })
+
+  it('should start once the join deadline has passed', () => {
+    expect(getGameStartDecision(lobby({ nowSeconds: 1000n }))).toEqual({ start: true, reason: 'join deadline passed' })
+  })
+
+  it('should start early when both teams are full', () => {
+    expect(getGameStartDecision(lobby({ teamACount: 3n, teamBCount: 3n })).start).toBe(true)
+    expect(getGameStartDecision(lobby({ teamACount: 3n, teamBCount: 2n })).start).toBe(false)
+  })
+
+  it('should start straight away without a join deadline', () => {
+    expect(getGameStartDecision(lobby({ joinDeadlineAt: 0n }))).toEqual({ start: true, reason: 'no join deadline' })
+  })
+
+  it('should not treat unbounded teams as full', () => {
+    expect(getGameStartDecision(lobby({ maxTeamSize: 0n })).start).toBe(false)
+  })
+})
+
+describe('getDeadlineCheckDelayMs', () => {
+  it('should wait until just after the deadline', () => {
+    expect(getDeadlineCheckDelayMs(110n, 100n)).toBe(10500)
+  })
+
+  it('should never wait longer than the safety interval', () => {
+    expect(getDeadlineCheckDelayMs(160n, 100n)).toBe(30000)
+  })
+
+  it('should check again shortly when the deadline has passed', () => {
+    expect(getDeadlineCheckDelayMs(90n, 100n)).toBe(500)
+  })
+})
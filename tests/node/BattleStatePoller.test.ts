@@ -0,0 +1,101 @@
+import { describe, it, expect, vi } from 'vitest'
+import { BattleStatePoller, readBattleStates, type BattleState } from '../../src/node/BattleStatePoller'
+
+const battleA = '0x000000000000000000000000000000000000000a'
+const battleB = '0x000000000000000000000000000000000000000b'
+const battleC = '0x000000000000000000000000000000000000000c'
+
+// Battle C cannot be read, battle B has not started so isTurnOver reverts
+function createMockClient(blockNumbers: bigint[]) {
+  let blockIndex = 0
+  const values: Record<string, unknown> = {
+    isTurnOver: true,
+    getGameState: 2n,
+    winner: 0n,
+    currentTurnEndsAt: 500n,
+    turnTimerEnabled: true,
+    currentTurn: 4n,
+    turnDuration: 60n
+  }
+  return {
+    getBlock: vi.fn(async () => {
+      const number = blockNumbers[Math.min(blockIndex++, blockNumbers.length - 1)]
+      return { number, timestamp: 400n + number }
+    }),
+    multicall: vi.fn(async ({ contracts }: { contracts: { address: string; functionName: string }[] }) =>
+      contracts.map(({ address, functionName }) => {
+        address = address.toLowerCase()
+        if (address === battleC) return { status: 'failure', error: new Error('reverted') }
+        if (address === battleB && functionName === 'isTurnOver') return { status: 'failure', error: new Error('GameHasNotStartedError') }
+        if (address === battleB && functionName === 'getGameState') return { status: 'success', result: 1n }
+        return { status: 'success', result: values[functionName] }
+      })
+    )
+  }
+}
+
+describe('BattleStatePoller', () => {
+  it('should read the state of each battle at one block', async () => {
+    const client = createMockClient([7n])
+    const states = await readBattleStates(client, [battleA, battleB, battleC], { number: 7n, timestamp: 407n })
+
+    expect(client.multicall).toHaveBeenCalledWith(expect.objectContaining({ blockNumber: 7n, allowFailure: true }))
+    expect(states.get(battleA)).toEqual({
+      battleAddress: battleA,
+      isTurnOver: true,
+      gameState: 2n,
+      winner: 0n,
+      turnEndsAt: 500n,
+      turnTimerEnabled: true,
+      currentTurn: 4n,
+      turnDuration: 60n,
+      blockNumber: 7n,
+      blockTimestamp: 407n
+    })
+    expect(states.get(battleB)).toMatchObject({ isTurnOver: false, gameState: 1n })
+    expect(states.has(battleC)).toBe(false)
+  })
+
+  it('should poll in chunks and fan states out to each battle\'s listeners', async () => {
+    const client = createMockClient([7n])
+    const poller = new BattleStatePoller({ ethRpcUrl: 'http://localhost', chunkSize: 2 }, client)
+    const received: Record<string, BattleState[]> = { a: [], b: [] }
+    poller.subscribe(battleA, state => received.a.push(state))
+    poller.subscribe(battleB, state => received.b.push(state))
+    poller.subscribe(battleC, () => { throw new Error('should not be called') })
+
+    await poller.poll()
+
+    expect(client.multicall).toHaveBeenCalledTimes(2)
+    expect(received.a).toHaveLength(1)
+    expect(received.b[0].gameState).toBe(1n)
+    expect(poller.getLastBlockNumber()).toBe(7n)
+  })
+
+  it('should only read again once a new block is produced', async () => {
+    const client = createMockClient([7n, 7n, 8n])
+    const poller = new BattleStatePoller({ ethRpcUrl: 'http://localhost' }, client)
+    const listener = vi.fn()
+    poller.subscribe(battleA, listener)
+
+    await poller.poll()
+    await poller.poll()
+    await poller.poll()
+
+    expect(listener).toHaveBeenCalledTimes(2)
+    expect(listener.mock.calls.map(([state]) => state.blockNumber)).toEqual([7n, 8n])
+  })
+
+  it('should stop polling a battle once its last listener unsubscribes', async () => {
+    const client = createMockClient([7n])
+    const poller = new BattleStatePoller({ ethRpcUrl: 'http://localhost' }, client)
+    const unsubscribe = poller.subscribe(battleA, vi.fn())
+    expect(poller.getBattleCount()).toBe(1)
+
+    unsubscribe()
+    await poller.poll()
+
+    expect(poller.getBattleCount()).toBe(0)
+    expect(client.getBlock).not.toHaveBeenCalled()
+  })
+})
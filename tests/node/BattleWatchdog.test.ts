@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest'
+import { BattleWatchdog } from '../../src/node/BattleWatchdog'
+import type { BattleState } from '../../src/node/BattleStatePoller'
+
+const battle = '0x000000000000000000000000000000000000000a'
+
+const state = (overrides: Partial<BattleState> = {}): BattleState => ({
+  battleAddress: battle,
+  isTurnOver: true,
+  gameState: 2n,
+  winner: 0n,
+  turnEndsAt: 1060n,
+  turnTimerEnabled: true,
+  currentTurn: 4n,
+  turnDuration: 60n,
+  blockNumber: 1n,
+  blockTimestamp: 1000n,
+  ...overrides
+})
+
+function createWatchdog() {
+  const statePoller = { subscribe: vi.fn(() => vi.fn()) }
+  const alertSink = { name: 'test', send: vi.fn(async () => {}) }
+  const watchdog = new BattleWatchdog({ statePoller: statePoller as any, alertSink })
+  watchdog.watch(battle)
+  return { watchdog, statePoller, alertSink }
+}
+
+describe('BattleWatchdog', () => {
+  it('should flag a battle whose turn has lasted three turn durations', () => {
+    const { watchdog, alertSink } = createWatchdog()
+
+    watchdog.observe(state())
+    watchdog.observe(state({ blockTimestamp: 1179n }))
+    expect(watchdog.isStuck(battle)).toBe(false)
+
+    watchdog.observe(state({ blockTimestamp: 1180n }))
+    expect(watchdog.getStuckBattles()).toEqual([expect.objectContaining({ battleAddress: battle, turn: '4', turnStartedAt: '1000', stalledForSeconds: 180 })])
+    expect(alertSink.send).toHaveBeenCalledTimes(1)
+    expect(alertSink.send).toHaveBeenCalledWith(expect.objectContaining({ kind: 'stuckBattle', battleAddress: battle }))
+
+    // Only alerted once while it stays stuck
+    watchdog.observe(state({ blockTimestamp: 1300n }))
+    expect(alertSink.send).toHaveBeenCalledTimes(1)
+    expect(watchdog.getStuckBattles()[0].stalledForSeconds).toBe(300)
+  })
+
+  it('should clear the flag and alert again once the turn advances', () => {
+    const { watchdog, alertSink } = createWatchdog()
+
+    watchdog.observe(state({ blockTimestamp: 1200n }))
+    expect(watchdog.isStuck(battle)).toBe(true)
+
+    watchdog.observe(state({ currentTurn: 5n, blockTimestamp: 1210n, isTurnOver: false }))
+    expect(watchdog.isStuck(battle)).toBe(false)
+    expect(alertSink.send).toHaveBeenLastCalledWith(expect.objectContaining({ kind: 'battleRecovered' }))
+
+    // The new turn's clock starts when it was first seen
+    watchdog.observe(state({ currentTurn: 5n, blockTimestamp: 1380n }))
+    expect(watchdog.isStuck(battle)).toBe(false)
+  })
+
+  it('should only flag battles without a turn timer while their turn is over', () => {
+    const { watchdog } = createWatchdog()
+
+    watchdog.observe(state({ turnTimerEnabled: false, isTurnOver: false, blockTimestamp: 1500n }))
+    expect(watchdog.isStuck(battle)).toBe(false)
+
+    watchdog.observe(state({ turnTimerEnabled: false, isTurnOver: true, blockTimestamp: 1510n }))
+    expect(watchdog.isStuck(battle)).toBe(true)
+  })
+
+  it('should ignore battles that are not active', () => {
+    const { watchdog, alertSink } = createWatchdog()
+
+    watchdog.observe(state({ gameState: 1n, blockTimestamp: 5000n }))
+    watchdog.observe(state({ gameState: 3n, blockTimestamp: 6000n }))
+
+    expect(watchdog.getStuckBattles()).toEqual([])
+    expect(alertSink.send).not.toHaveBeenCalled()
+  })
+
+  it('should stop following a battle when it is unwatched', () => {
+    const { watchdog, statePoller } = createWatchdog()
+    const unsubscribe = statePoller.subscribe.mock.results[0].value
+
+    watchdog.unwatch(battle.toUpperCase())
+
+    expect(unsubscribe).toHaveBeenCalled()
+    expect(watchdog.getWatchedCount()).toBe(0)
+  })
+})
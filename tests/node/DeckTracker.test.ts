@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { DeckTracker, buildDeckOutlook, getNextTurnDrawProbability } from '../../src/node/DeckTracker'
+
+describe('DeckTracker', () => {
+  describe('getNextTurnDrawProbability', () => {
+    it('should use the hypergeometric odds while the draw pile is large enough', () => {
+      const piles = { drawPile: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], hand: [], discardPile: [], exhausted: [] }
+      expect(getNextTurnDrawProbability(piles, 5, [3])).toBeCloseTo(0.5)
+      // 1 - C(8,5)/C(10,5)
+      expect(getNextTurnDrawProbability(piles, 5, [3, 4])).toBeCloseTo(1 - 56 / 252)
+    })
+
+    it('should not draw cards that are in the discard pile before a reshuffle', () => {
+      const piles = { drawPile: [0, 1, 2, 3, 4, 5], hand: [6], discardPile: [7], exhausted: [] }
+      expect(getNextTurnDrawProbability(piles, 5, [7])).toBe(0)
+      expect(getNextTurnDrawProbability(piles, 5, [6])).toBe(0)
+    })
+
+    it('should draw the rest of the draw pile and reshuffle the discard pile with the old hand', () => {
+      const piles = { drawPile: [0, 1], hand: [2, 3], discardPile: [4, 5], exhausted: [6] }
+      expect(getNextTurnDrawProbability(piles, 5, [0])).toBe(1)
+      // 3 draws from the 4 reshuffled cards
+      expect(getNextTurnDrawProbability(piles, 5, [2])).toBeCloseTo(0.75)
+      expect(getNextTurnDrawProbability(piles, 5, [6])).toBe(0)
+    })
+
+    it('should draw every card when the deck is smaller than the hand', () => {
+      const piles = { drawPile: [0], hand: [1], discardPile: [], exhausted: [] }
+      expect(getNextTurnDrawProbability(piles, 5, [1])).toBe(1)
+    })
+  })
+
+  it('should build the odds for every card that can still be drawn', () => {
+    const outlook = buildDeckOutlook({ drawPile: [0, 1], hand: [2], discardPile: [], exhausted: [3] }, 1)
+    expect(outlook.nextTurnDrawOdds).toEqual(new Map([[0, 0.5], [1, 0.5], [2, 0]]))
+    expect(outlook.drawCount).toBe(1)
+  })
+
+  it('should record the cards drawn and played each turn', () => {
+    const tracker = new DeckTracker(3)
+    tracker.update(1n, { drawPile: [3, 4], hand: [0, 1, 2], discardPile: [], exhausted: [] })
+    tracker.update(1n, { drawPile: [3, 4], hand: [1, 2], discardPile: [0], exhausted: [] })
+    tracker.update(1n, { drawPile: [3], hand: [2, 4], discardPile: [0], exhausted: [1] })
+    tracker.update(2n, { drawPile: [], hand: [0, 2, 3], discardPile: [4], exhausted: [1] })
+
+    expect(tracker.getHistory(1n)).toEqual({ turn: 1n, drawn: [0, 1, 2, 4], played: [0, 1] })
+    expect(tracker.getHistory(2n)).toEqual({ turn: 2n, drawn: [0, 2, 3], played: [] })
+    expect(tracker.getPiles().exhausted).toEqual([1])
+    // The draw pile is empty, so the next hand is 3 of the 4 reshuffled discard and hand cards
+    expect(tracker.getDrawProbability([4])).toBeCloseTo(0.75)
+  })
+})
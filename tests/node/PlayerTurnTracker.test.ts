@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest'
+import { PlayerTurnTracker } from '../../src/node/PlayerTurnTracker'
+
+const handDrawn = (playerId: bigint, turn: bigint) => ({ args: { playerId, turn } })
+const action = (playerId: bigint, card: bigint, transactionHash: string) => ({
+  args: { playerId, card, cardActionParams: '0x' },
+  transactionHash,
+  blockNumber: 10n
+})
+
+describe('PlayerTurnTracker', () => {
+  it('should have no observation before any hand is drawn', () => {
+    const tracker = new PlayerTurnTracker()
+    expect(tracker.getLastTurnHandDrawn('1')).toBeUndefined()
+    expect(tracker.getActionsSinceDraw('1')).toEqual([])
+  })
+
+  it('should track the last turn each player drew a hand for', () => {
+    const tracker = new PlayerTurnTracker()
+    tracker.handleHandDrawnLogs([handDrawn(1n, 2n), handDrawn(2n, 3n)])
+    expect(tracker.getLastTurnHandDrawn('1')).toBe(2n)
+    expect(tracker.getLastTurnHandDrawn('2')).toBe(3n)
+  })
+
+  it('should ignore hand draws for older turns', () => {
+    const tracker = new PlayerTurnTracker()
+    tracker.handleHandDrawnLogs([handDrawn(1n, 4n)])
+    tracker.handleHandDrawnLogs([handDrawn(1n, 3n)])
+    expect(tracker.getLastTurnHandDrawn('1')).toBe(4n)
+  })
+
+  it('should record actions since the last draw and reset them on a new draw', () => {
+    const tracker = new PlayerTurnTracker()
+    tracker.handleHandDrawnLogs([handDrawn(1n, 1n)])
+    tracker.handleActionLogs([action(1n, 7n, '0xa'), action(1n, 8n, '0xb')])
+    // The same log delivered twice, e.g. after a resubscribe
+    tracker.handleActionLogs([action(1n, 7n, '0xa')])
+    expect(tracker.getActionsSinceDraw('1').map(a => a.card)).toEqual([7n, 8n])
+
+    tracker.handleHandDrawnLogs([handDrawn(1n, 2n)])
+    expect(tracker.getActionsSinceDraw('1')).toEqual([])
+  })
+
+  it('should skip logs without a player ID', () => {
+    const tracker = new PlayerTurnTracker()
+    tracker.handleHandDrawnLogs([{ args: {} }])
+    tracker.handleActionLogs([{ args: {} }])
+    expect(tracker.getLastTurnHandDrawn('0')).toBeUndefined()
+  })
+})
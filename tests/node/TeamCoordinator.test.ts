@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { TeamCoordinator } from '../../src/node/TeamCoordinator'
+import type { PlayerSnapshot } from '../../src/node/strategies'
+
+function enemy(playerId: string, health: bigint): PlayerSnapshot {
+  return { playerId, teamA: false, eliminated: false, stats: [health, 0n, 0n] }
+}
+
+function makeCoordinator(members: string[], options: { maxHoldMs?: number; lockTimeoutMs?: number } = {}) {
+  const coordinator = new TeamCoordinator({ gameAddress: '0xABC', teamA: true, ...options })
+  members.forEach(member => coordinator.join(member))
+  return coordinator
+}
+
+describe('TeamCoordinator', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should leave a lone character to its own targeting', () => {
+    const coordinator = makeCoordinator(['1'])
+    const enemies = [enemy('7', 20n)]
+    expect(coordinator.getPlan('1', 1n, enemies, enemies)).toEqual({ holdAttacks: false })
+  })
+
+  it('should give every member the same focus target until it is eliminated', () => {
+    const coordinator = makeCoordinator(['1', '2'])
+    const enemies = [enemy('7', 20n), enemy('8', 12n)]
+
+    expect(coordinator.getPlan('1', 1n, enemies, enemies).focusTargetId).toBe('8')
+    // The focus target took damage elsewhere but stays the focus
+    const damaged = [enemy('7', 5n), enemy('8', 12n)]
+    expect(coordinator.getPlan('2', 1n, damaged, damaged).focusTargetId).toBe('8')
+
+    const remaining = [enemy('7', 5n)]
+    expect(coordinator.getPlan('1', 1n, remaining, remaining).focusTargetId).toBe('7')
+  })
+
+  it('should keep the team focus when it is only out of one member\'s reach', () => {
+    const coordinator = makeCoordinator(['1', '2'])
+    const enemies = [enemy('7', 20n), enemy('8', 12n)]
+    coordinator.getPlan('1', 1n, enemies, enemies)
+
+    expect(coordinator.getPlan('2', 1n, [enemies[0]], enemies).focusTargetId).toBe('7')
+    expect(coordinator.getPlan('1', 1n, enemies, enemies).focusTargetId).toBe('8')
+  })
+
+  it('should hold attacks while a teammate has setup cards this turn', () => {
+    const coordinator = makeCoordinator(['1', '2'])
+    const enemies = [enemy('7', 20n)]
+
+    coordinator.reportHand('2', 3n, 1)
+    expect(coordinator.getPlan('1', 3n, enemies, enemies).holdAttacks).toBe(true)
+    // Reports from another turn are stale
+    expect(coordinator.getPlan('1', 4n, enemies, enemies).holdAttacks).toBe(false)
+
+    coordinator.finishTurn('2', 3n)
+    expect(coordinator.getPlan('1', 3n, enemies, enemies).holdAttacks).toBe(false)
+  })
+
+  it('should stop holding attacks after the maximum hold time', () => {
+    vi.useFakeTimers()
+    const coordinator = makeCoordinator(['1', '2'], { maxHoldMs: 5000 })
+    const enemies = [enemy('7', 20n)]
+
+    coordinator.reportHand('2', 3n, 2)
+    expect(coordinator.getPlan('1', 3n, enemies, enemies).holdAttacks).toBe(true)
+    vi.advanceTimersByTime(6000)
+    expect(coordinator.getPlan('1', 3n, enemies, enemies).holdAttacks).toBe(false)
+  })
+
+  it('should not hold attacks for members that left', () => {
+    const coordinator = makeCoordinator(['1', '2', '3'])
+    const enemies = [enemy('7', 20n)]
+
+    coordinator.reportHand('2', 3n, 1)
+    coordinator.leave('2')
+    expect(coordinator.getPlan('1', 3n, enemies, enemies).holdAttacks).toBe(false)
+  })
+
+  it('should serialize card plays between members', async () => {
+    const coordinator = makeCoordinator(['1', '2'])
+    const order: string[] = []
+
+    const play = async (member: string) => {
+      const release = await coordinator.acquire()
+      order.push(`${member} start`)
+      await new Promise(resolve => setTimeout(resolve, 5))
+      order.push(`${member} end`)
+      release()
+    }
+
+    await Promise.all([play('1'), play('2')])
+    expect(order).toEqual(['1 start', '1 end', '2 start', '2 end'])
+  })
+
+  it('should stop waiting for a teammate that never releases the lock', async () => {
+    const coordinator = makeCoordinator(['1', '2'], { lockTimeoutMs: 10 })
+    await coordinator.acquire()
+
+    const release = await coordinator.acquire()
+    expect(release).toBeTypeOf('function')
+  })
+
+  it('should not keep later members waiting on a teammate that timed out the lock', async () => {
+    vi.useFakeTimers()
+    const coordinator = makeCoordinator(['1', '2', '3'], { lockTimeoutMs: 1000 })
+    const releaseStuck = await coordinator.acquire()
+
+    const second = coordinator.acquire()
+    await vi.advanceTimersByTimeAsync(1000)
+    const releaseSecond = await second
+
+    // The next member only waits for the member that took over
+    let thirdAcquired = false
+    const third = coordinator.acquire().then(release => { thirdAcquired = true; return release })
+    releaseStuck()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(thirdAcquired).toBe(false)
+
+    releaseSecond()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(thirdAcquired).toBe(true)
+    const releaseThird = await third
+    releaseThird()
+
+    // Once everyone released, the lock is free right away
+    let fourthAcquired = false
+    coordinator.acquire().then(() => { fourthAcquired = true })
+    await vi.advanceTimersByTimeAsync(0)
+    expect(fourthAcquired).toBe(true)
+  })
+})
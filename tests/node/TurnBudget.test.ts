@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { computeTurnBudget, TxLatencyEstimator } from '../../src/node/TurnBudget'
+
+describe('TxLatencyEstimator', () => {
+  it('should use the initial estimate until a latency is recorded', () => {
+    const estimator = new TxLatencyEstimator(4000)
+    expect(estimator.estimateMs()).toBe(8000)
+    expect(estimator.getSampleCount()).toBe(0)
+  })
+
+  it('should replace the initial guess with the first measurement', () => {
+    const estimator = new TxLatencyEstimator(4000)
+    estimator.record(1000)
+    expect(estimator.estimateMs()).toBe(2000)
+  })
+
+  it('should grow the estimate when latency becomes jittery', () => {
+    const estimator = new TxLatencyEstimator()
+    for (let i = 0; i < 10; i++) estimator.record(1000)
+    const steady = estimator.estimateMs()
+    estimator.record(6000)
+    expect(estimator.estimateMs()).toBeGreaterThan(steady + 2000)
+  })
+})
+
+describe('computeTurnBudget', () => {
+  it('should not limit actions when the turn timer is disabled', () => {
+    const budget = computeTurnBudget({ turnEndsAt: 100n, turnTimerEnabled: false, nowMs: 0, txEstimateMs: 2000 })
+    expect(budget).toEqual({ txEstimateMs: 2000 })
+  })
+
+  it('should not limit actions when the deadline is unknown', () => {
+    const budget = computeTurnBudget({ turnEndsAt: 0n, turnTimerEnabled: true, nowMs: 0, txEstimateMs: 2000 })
+    expect(budget.maxActions).toBeUndefined()
+  })
+
+  it('should reserve time for endTurn and the safety margin', () => {
+    // 20s left, 2s for endTurn, 1s margin leaves 17s for 8 cards
+    const budget = computeTurnBudget({ turnEndsAt: 120n, turnTimerEnabled: true, nowMs: 100_000, txEstimateMs: 2000 })
+    expect(budget).toEqual({ remainingMs: 20_000, txEstimateMs: 2000, maxActions: 8 })
+  })
+
+  it('should allow no actions once only endTurn fits', () => {
+    const budget = computeTurnBudget({ turnEndsAt: 104n, turnTimerEnabled: true, nowMs: 100_000, txEstimateMs: 2000 })
+    expect(budget.maxActions).toBe(0)
+  })
+
+  it('should allow no actions after the deadline', () => {
+    const budget = computeTurnBudget({ turnEndsAt: 100n, turnTimerEnabled: true, nowMs: 105_000, txEstimateMs: 2000 })
+    expect(budget).toEqual({ remainingMs: -5000, txEstimateMs: 2000, maxActions: 0 })
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import {
+  BattleSimulator,
+  DEFAULT_SCENARIO,
+  createSeededRandom,
+  runMatches,
+  scenarioDeckToDefinitions
+} from '../../../src/node/simulator'
+import { RandomStrategy, type CardPlayStrategy } from '../../../src/node/strategies'
+
+const passiveStrategy: CardPlayStrategy = {
+  name: 'passive',
+  chooseAction: () => ({ type: 'endTurn' })
+}
+
+const strikeDeck = scenarioDeckToDefinitions(
+  Array(10).fill({ name: 'Strike', energy: 1, effects: [{ effectType: 'DAMAGE', amount: 6 }] })
+)
+
+describe('BattleSimulator', () => {
+  it('should produce the same result for the same seed', async () => {
+    const first = await runMatches({
+      scenario: DEFAULT_SCENARIO,
+      strategyA: { name: 'random' },
+      strategyB: { name: 'random' },
+      matches: 20,
+      seed: 7
+    })
+    const second = await runMatches({
+      scenario: DEFAULT_SCENARIO,
+      strategyA: { name: 'random' },
+      strategyB: { name: 'random' },
+      matches: 20,
+      seed: 7
+    })
+    expect(second).toEqual(first)
+    expect(first.winsA + first.winsB + first.draws).toBe(20)
+  })
+
+  it('should let an attacking strategy beat a passive one', async () => {
+    const simulator = new BattleSimulator({
+      seed: 1,
+      players: [
+        { playerId: '1', teamA: true, health: 30, deck: strikeDeck, strategy: new RandomStrategy({ random: createSeededRandom(1) }) },
+        { playerId: '2', teamA: false, health: 30, deck: strikeDeck, strategy: passiveStrategy }
+      ]
+    })
+    const result = await simulator.run()
+
+    // 3 energy per turn at 6 damage per strike kills a 30 health monster on team A's second turn
+    expect(result).toEqual({ winner: 'A', turns: 3, actions: 5 })
+  })
+
+  it('should apply vulnerable and block to damage', async () => {
+    const bashDeck = scenarioDeckToDefinitions([
+      { energy: 1, effects: [{ effectType: 'VULNERABLE', amount: 2 }] },
+      { energy: 1, effects: [{ effectType: 'DAMAGE', amount: 10 }] }
+    ])
+    const blockDeck = scenarioDeckToDefinitions([{ energy: 1, effects: [{ effectType: 'BLOCK', amount: 5 }] }])
+    let seenHealth: bigint | undefined
+
+    // Plays vulnerable first, then damage, and records the monster's health on its next turn
+    const scripted: CardPlayStrategy = {
+      name: 'scripted',
+      chooseAction: snapshot => {
+        const monster = snapshot.players.find(p => !p.teamA)!
+        if (snapshot.currentTurn === 4n) {
+          seenHealth = monster.stats[0]
+          return { type: 'endTurn' }
+        }
+        const card = snapshot.hand.find(c => !c.attempted)!
+        return { type: 'playCard', handIndex: card.handIndex, cardId: card.cardId, targetPlayerId: monster.playerId }
+      }
+    }
+    const blocker = new RandomStrategy({ random: createSeededRandom(2) })
+
+    await new BattleSimulator({
+      seed: 3,
+      teamAStarts: false,
+      maxTurns: 4,
+      players: [
+        { playerId: '1', teamA: true, health: 30, deck: bashDeck, strategy: scripted },
+        { playerId: '2', teamA: false, health: 30, deck: blockDeck, strategy: blocker }
+      ]
+    }).run()
+
+    // 10 damage * 1.5 for vulnerable = 15, minus 5 block = 10 damage taken
+    expect(seenHealth).toBe(20n)
+  })
+
+  it('should end in a draw when nobody attacks', async () => {
+    const result = await new BattleSimulator({
+      seed: 1,
+      maxTurns: 10,
+      players: [
+        { playerId: '1', teamA: true, health: 30, deck: strikeDeck, strategy: passiveStrategy },
+        { playerId: '2', teamA: false, health: 30, deck: strikeDeck, strategy: passiveStrategy }
+      ]
+    }).run()
+    expect(result).toEqual({ winner: 'draw', turns: 10, actions: 0 })
+  })
+
+  it('should require players on both teams', async () => {
+    const simulator = new BattleSimulator({
+      seed: 1,
+      players: [{ playerId: '1', teamA: true, health: 30, deck: strikeDeck, strategy: passiveStrategy }]
+    })
+    await expect(simulator.run()).rejects.toThrow('BothTeamsMustHavePlayersError')
+  })
+})
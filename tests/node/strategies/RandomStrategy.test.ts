@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest'
+import {
+  RandomStrategy,
+  buildBattlefield,
+  getPlayerAt,
+  getTargetableEnemies,
+  createCardPlayStrategy,
+  registerCardPlayStrategy,
+  type TurnSnapshot
+} from '../../../src/node/strategies'
+
+function makeSnapshot(overrides: Partial<TurnSnapshot> = {}): TurnSnapshot {
+  return {
+    gameAddress: '0x0000000000000000000000000000000000000001',
+    playerId: '1',
+    teamA: true,
+    currentTurn: 1n,
+    energy: 3n,
+    hand: [
+      { handIndex: 0, cardId: 4, energyCost: 1n, attempted: false },
+      { handIndex: 1, cardId: 7, energyCost: 5n, attempted: false }
+    ],
+    players: [
+      { playerId: '1', teamA: true, eliminated: false, stats: [30n, 3n] },
+      { playerId: '2', teamA: false, eliminated: true, stats: [0n, 0n] },
+      { playerId: '3', teamA: false, eliminated: false, stats: [20n, 3n] }
+    ],
+    turnEndsAt: 0n,
+    ...overrides
+  }
+}
+
+describe('RandomStrategy', () => {
+  it('should play an affordable card against an active enemy', () => {
+    const strategy = new RandomStrategy({ random: () => 0.99 })
+    const action = strategy.chooseAction(makeSnapshot())
+    expect(action).toEqual({ type: 'playCard', handIndex: 0, cardId: 4, targetPlayerId: '3' })
+  })
+
+  it('should skip cards that were already attempted', () => {
+    const strategy = new RandomStrategy({ random: () => 0 })
+    const snapshot = makeSnapshot({
+      energy: 10n,
+      hand: [
+        { handIndex: 0, cardId: 4, energyCost: 1n, attempted: true },
+        { handIndex: 1, cardId: 7, energyCost: 5n, attempted: false }
+      ]
+    })
+    expect(strategy.chooseAction(snapshot)).toMatchObject({ handIndex: 1, cardId: 7 })
+  })
+
+  it('should pick targets based on what the card does', () => {
+    const strategy = new RandomStrategy({ random: () => 0 })
+    const definition = (target: 'enemy' | 'ally' | 'self' | 'none') => ({
+      actionType: 1n, energy: 1, discardType: 0, effects: [], effectsKnown: true, target
+    })
+    const snapshot = (target: 'enemy' | 'ally' | 'self' | 'none') => makeSnapshot({
+      hand: [{ handIndex: 0, cardId: 4, energyCost: 1n, attempted: false, definition: definition(target) }],
+      players: [
+        { playerId: '1', teamA: true, eliminated: false, stats: [30n, 3n] },
+        { playerId: '5', teamA: true, eliminated: false, stats: [8n, 3n] },
+        { playerId: '3', teamA: false, eliminated: false, stats: [20n, 3n] }
+      ]
+    })
+
+    expect(strategy.chooseAction(snapshot('enemy'))).toMatchObject({ targetPlayerId: '3' })
+    expect(strategy.chooseAction(snapshot('ally'))).toMatchObject({ targetPlayerId: '5' })
+    expect(strategy.chooseAction(snapshot('self'))).toMatchObject({ targetPlayerId: '1' })
+    expect(strategy.chooseAction(snapshot('none'))).toMatchObject({ targetPlayerId: undefined })
+  })
+
+  it('should play the most valuable card when the turn budget is tight', () => {
+    const strategy = new RandomStrategy({ random: () => 0 })
+    const card = (handIndex: number, effects: { effectType: number; amount: number }[]) => ({
+      handIndex,
+      cardId: handIndex,
+      energyCost: 1n,
+      attempted: false,
+      definition: { actionType: 1n, energy: 1, discardType: 0, effects, effectsKnown: true, target: 'enemy' as const }
+    })
+    const hand = [card(0, [{ effectType: 1, amount: 6 }]), card(1, [{ effectType: 1, amount: 8 }, { effectType: 4, amount: 2 }])]
+
+    const unlimited = makeSnapshot({ hand, budget: { txEstimateMs: 2000 } })
+    expect(strategy.chooseAction(unlimited)).toMatchObject({ handIndex: 0 })
+
+    const tight = makeSnapshot({ hand, budget: { remainingMs: 6000, txEstimateMs: 2000, maxActions: 1 } })
+    expect(strategy.chooseAction(tight)).toMatchObject({ handIndex: 1 })
+  })
+
+  it('should only target adjacent enemies when adjacency is enforced', () => {
+    const strategy = new RandomStrategy({ random: () => 0 })
+    const players = [
+      { playerId: '1', teamA: true, eliminated: false, stats: [30n, 3n], location: [0n, 0n] as [bigint, bigint] },
+      { playerId: '2', teamA: false, eliminated: false, stats: [5n, 3n], location: [1n, 2n] as [bigint, bigint], adjacent: false },
+      { playerId: '3', teamA: false, eliminated: false, stats: [20n, 3n], location: [1n, 0n] as [bigint, bigint], adjacent: true }
+    ]
+    const snapshot = makeSnapshot({ players, battlefield: buildBattlefield(players, true) })
+
+    expect(getPlayerAt(snapshot.battlefield!, 1n, 2n)).toBe('2')
+    expect(getTargetableEnemies(snapshot).map(enemy => enemy.playerId)).toEqual(['3'])
+    expect(strategy.chooseAction(snapshot)).toMatchObject({ targetPlayerId: '3' })
+  })
+
+  it('should keep playing non-attacks when no enemy is in reach', () => {
+    const strategy = new RandomStrategy({ random: () => 0 })
+    const block = { actionType: 2n, energy: 1, discardType: 0, effects: [{ effectType: 2, amount: 5 }], effectsKnown: true, target: 'self' as const }
+    const players = [
+      { playerId: '1', teamA: true, eliminated: false, stats: [30n, 3n] },
+      { playerId: '3', teamA: false, eliminated: false, stats: [20n, 3n], adjacent: false }
+    ]
+    const snapshot = makeSnapshot({
+      hand: [
+        { handIndex: 0, cardId: 4, energyCost: 1n, attempted: false },
+        { handIndex: 1, cardId: 5, energyCost: 1n, attempted: false, definition: block }
+      ],
+      players,
+      battlefield: buildBattlefield(players, true)
+    })
+
+    expect(strategy.chooseAction(snapshot)).toEqual({ type: 'playCard', handIndex: 1, cardId: 5, targetPlayerId: '1' })
+    expect(strategy.chooseAction({ ...snapshot, hand: snapshot.hand.slice(0, 1) })).toEqual({ type: 'endTurn' })
+  })
+
+  it('should follow the team plan', () => {
+    const strategy = new RandomStrategy({ random: () => 0 })
+    const definition = (effects: { effectType: number; amount: number }[], target: 'enemy' | 'self') => ({
+      actionType: 1n, energy: 1, discardType: 0, effects, effectsKnown: true, target
+    })
+    const strike = { handIndex: 0, cardId: 1, energyCost: 1n, attempted: false, definition: definition([{ effectType: 1, amount: 6 }], 'enemy') }
+    const defend = { handIndex: 1, cardId: 2, energyCost: 1n, attempted: false, definition: definition([{ effectType: 2, amount: 5 }], 'self') }
+    const bash = { handIndex: 2, cardId: 3, energyCost: 1n, attempted: false, definition: definition([{ effectType: 1, amount: 8 }, { effectType: 4, amount: 2 }], 'enemy') }
+    const players = [
+      { playerId: '1', teamA: true, eliminated: false, stats: [30n, 3n] },
+      { playerId: '3', teamA: false, eliminated: false, stats: [5n, 3n] },
+      { playerId: '4', teamA: false, eliminated: false, stats: [20n, 3n] }
+    ]
+
+    // Setup cards go first and hit the focus target
+    const withSetup = makeSnapshot({ hand: [strike, defend, bash], players, team: { focusTargetId: '4', holdAttacks: false } })
+    expect(strategy.chooseAction(withSetup)).toMatchObject({ cardId: 3, targetPlayerId: '4' })
+
+    // Attacks wait while a teammate is setting up
+    const holding = makeSnapshot({ hand: [strike, defend], players, team: { focusTargetId: '4', holdAttacks: true } })
+    expect(strategy.chooseAction(holding)).toMatchObject({ cardId: 2 })
+  })
+
+  it('should end the turn when nothing is affordable', () => {
+    const strategy = new RandomStrategy()
+    expect(strategy.chooseAction(makeSnapshot({ energy: 0n }))).toEqual({ type: 'endTurn' })
+  })
+
+  it('should end the turn when there are no active enemies', () => {
+    const strategy = new RandomStrategy()
+    const snapshot = makeSnapshot({
+      players: [{ playerId: '1', teamA: true, eliminated: false, stats: [30n, 3n] }]
+    })
+    expect(strategy.chooseAction(snapshot)).toEqual({ type: 'endTurn' })
+  })
+})
+
+describe('Card play strategy registry', () => {
+  it('should create the default strategy', () => {
+    expect(createCardPlayStrategy().name).toBe('random')
+  })
+
+  it('should create registered strategies by name', () => {
+    registerCardPlayStrategy('always-end', () => ({
+      name: 'always-end',
+      chooseAction: () => ({ type: 'endTurn' })
+    }))
+    expect(createCardPlayStrategy('Always-End').name).toBe('always-end')
+  })
+
+  it('should throw for unknown strategies', () => {
+    expect(() => createCardPlayStrategy('does-not-exist')).toThrow('Unknown card play strategy')
+  })
+})
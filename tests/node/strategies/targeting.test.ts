@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { TargetSelector, getEffectiveHp, isTargetingPolicy } from '../../../src/node/strategies/targeting'
+import type { PlayerSnapshot } from '../../../src/node/strategies/CardPlayStrategy'
+
+// Stats layout: [HEALTH, ENERGY, BLOCK, VULNERABLE, WEAK, STRENGTH]
+function enemy(playerId: string, health: bigint, block = 0n, vulnerable = 0n, strength = 0n): PlayerSnapshot {
+  return { playerId, teamA: false, eliminated: false, stats: [health, 3n, block, vulnerable, 0n, strength] }
+}
+
+describe('Targeting', () => {
+  const enemies = [
+    enemy('1', 20n, 5n, 0n, 4n),
+    enemy('2', 10n, 8n, 2n, 0n),
+    enemy('3', 12n, 0n, 2n, 1n)
+  ]
+
+  describe('getEffectiveHp', () => {
+    it('should add health and block', () => {
+      expect(getEffectiveHp(enemies[0])).toBe(25n)
+      expect(getEffectiveHp(enemies[2])).toBe(12n)
+    })
+  })
+
+  describe('TargetSelector', () => {
+    it('should return undefined without candidates', () => {
+      expect(new TargetSelector('lowestEffectiveHp').select([])).toBeUndefined()
+    })
+
+    it('should pick the lowest effective HP', () => {
+      expect(new TargetSelector('lowestEffectiveHp').select(enemies)?.playerId).toBe('3')
+    })
+
+    it('should pick the most vulnerable, breaking ties by effective HP', () => {
+      expect(new TargetSelector('mostVulnerable').select(enemies)?.playerId).toBe('3')
+    })
+
+    it('should pick the highest strength threat', () => {
+      expect(new TargetSelector('highestThreat').select(enemies)?.playerId).toBe('1')
+    })
+
+    it('should use the injected random source for random targeting', () => {
+      expect(new TargetSelector('random', () => 0.5).select(enemies)?.playerId).toBe('2')
+    })
+
+    it('should keep focusing the same target until it is gone', () => {
+      const selector = new TargetSelector('focusFire')
+      expect(selector.select(enemies)?.playerId).toBe('3')
+
+      // Target took damage but another enemy is now lower, stay focused
+      const updated = [enemies[0], enemy('2', 1n), enemy('3', 11n)]
+      expect(selector.select(updated)?.playerId).toBe('3')
+
+      // Target eliminated, move on to the weakest remaining enemy
+      expect(selector.select([enemies[0], enemy('2', 1n)])?.playerId).toBe('2')
+    })
+  })
+
+  describe('isTargetingPolicy', () => {
+    it('should accept known policies only', () => {
+      expect(isTargetingPolicy('focusFire')).toBe(true)
+      expect(isTargetingPolicy('nearest')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { encodeActionParams, encodePlayerIdParam } from '../../src/utils/actionParams'
+
+describe('Action Params', () => {
+  describe('encodePlayerIdParam', () => {
+    it('should pad the player ID to 32 bytes', () => {
+      expect(encodePlayerIdParam(5n)).toBe('0x' + '0'.repeat(63) + '5')
+      expect(encodePlayerIdParam(255n)).toBe('0x' + '0'.repeat(62) + 'ff')
+    })
+  })
+
+  describe('encodeActionParams', () => {
+    it('should encode the enemy for enemy cards', () => {
+      expect(encodeActionParams('enemy', 1n, 4n)).toBe(encodePlayerIdParam(4n))
+    })
+
+    it('should encode the ally for ally cards', () => {
+      expect(encodeActionParams('ally', 1n, 2n)).toBe(encodePlayerIdParam(2n))
+    })
+
+    it('should encode our own ID for self cards regardless of the chosen target', () => {
+      expect(encodeActionParams('self', 1n)).toBe(encodePlayerIdParam(1n))
+      expect(encodeActionParams('self', 1n, 4n)).toBe(encodePlayerIdParam(1n))
+    })
+
+    it('should encode empty bytes for untargeted cards', () => {
+      expect(encodeActionParams('none', 1n, 4n)).toBe('0x')
+    })
+
+    it('should return undefined when a required target is missing', () => {
+      expect(encodeActionParams('enemy', 1n)).toBeUndefined()
+      expect(encodeActionParams('ally', 1n)).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { getJoinLocationCandidates, getTeamColumn, TeamColumn } from '../../src/utils/battleLocations'
+
+describe('battleLocations', () => {
+  it('should map teams to their columns', () => {
+    expect(getTeamColumn(true)).toBe(TeamColumn.A)
+    expect(getTeamColumn(false)).toBe(TeamColumn.B)
+  })
+
+  it('should only offer the starting location to the first player of a team', () => {
+    const enemy = { teamA: false, x: 1n, y: 2n }
+    expect(getJoinLocationCandidates(true, 2n, [enemy])).toEqual([{ x: TeamColumn.A, y: 2n }])
+    expect(getJoinLocationCandidates(false, 2n, [])).toEqual([{ x: TeamColumn.B, y: 2n }])
+  })
+
+  it('should offer free locations beside teammates, closest to the starting location first', () => {
+    const players = [
+      { teamA: true, x: 0n, y: 2n },
+      { teamA: true, x: 0n, y: 3n },
+      // Enemies share rows but not the column
+      { teamA: false, x: 1n, y: 1n }
+    ]
+    expect(getJoinLocationCandidates(true, 2n, players)).toEqual([
+      { x: TeamColumn.A, y: 1n },
+      { x: TeamColumn.A, y: 4n }
+    ])
+  })
+
+  it('should never offer negative rows', () => {
+    const players = [{ teamA: false, x: 1n, y: 0n }]
+    expect(getJoinLocationCandidates(false, 0n, players)).toEqual([{ x: TeamColumn.B, y: 1n }])
+  })
+
+  it('should offer nothing when the starting location is taken but the team is empty', () => {
+    const players = [{ teamA: false, x: 0n, y: 0n }]
+    expect(getJoinLocationCandidates(true, 0n, players)).toEqual([])
+  })
+})
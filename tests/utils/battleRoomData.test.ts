@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import { decodeAbiParameters, encodeAbiParameters } from 'viem'
+import { createBattleRoomDataLayout, encodeBattleRoomData, getBattleRoomDataLayout } from '../../src/utils/battleRoomData'
+
+const abiWithLayout = (components: { name: string; type: string }[]) => [{
+  type: 'event',
+  name: 'BattleCreated',
+  inputs: [{ name: 'data', type: 'tuple', internalType: 'struct BattleRoomData', components }]
+}]
+
+const eliteLayout = [
+  { name: 'monsterIndex1', type: 'uint16' },
+  { name: 'monsterIndex2', type: 'uint16' },
+  { name: 'monsterIndex3', type: 'uint16' }
+]
+
+describe('battleRoomData', () => {
+  it('should read the layout of the bundled BattleRoom ABI', () => {
+    expect(getBattleRoomDataLayout()).toEqual([{ name: 'monsterIndex1', type: 'uint16' }])
+  })
+
+  it('should encode single monster rooms as before', () => {
+    expect(encodeBattleRoomData([5], getBattleRoomDataLayout())).toBe(
+      encodeAbiParameters([{ type: 'uint16', name: 'monsterIndex1' }], [5])
+    )
+  })
+
+  it('should encode elite rooms in a layout with more monster slots', () => {
+    const layout = getBattleRoomDataLayout(abiWithLayout(eliteLayout))
+    expect(layout).toEqual(eliteLayout)
+
+    const encoded = encodeBattleRoomData([4, 7], layout)
+    expect(decodeAbiParameters(layout, encoded)).toEqual([4, 7, 0])
+  })
+
+  it('should build the layout of a deployment with more monster slots than the bundled ABI', () => {
+    expect(createBattleRoomDataLayout(3)).toEqual(eliteLayout)
+    expect(() => createBattleRoomDataLayout(0)).toThrow('Invalid number of BattleRoomData monster slots')
+  })
+
+  it('should refuse rooms with more monsters than the layout has slots', () => {
+    expect(() => encodeBattleRoomData([1, 2], getBattleRoomDataLayout())).toThrow('only has 1 slots')
+  })
+
+  it('should refuse layouts it cannot fill', () => {
+    expect(() => getBattleRoomDataLayout([])).toThrow('no BattleRoomData')
+    expect(() => getBattleRoomDataLayout(abiWithLayout([{ name: 'bossHealth', type: 'uint16' }]))).toThrow('Unsupported BattleRoomData field')
+  })
+})
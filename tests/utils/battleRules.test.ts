@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest'
+import { getBattleRules, getHandDrawCount, readBattleRules } from '../../src/utils/battleRules'
+
+function mockClient(drawCount: bigint) {
+  return {
+    multicall: vi.fn(async () => [drawCount, 3n, 7n, true])
+  }
+}
+
+describe('Battle Rules', () => {
+  it('should read the rules from the battle', async () => {
+    const rules = await readBattleRules(mockClient(6n), '0x0000000000000000000000000000000000000001')
+    expect(rules).toEqual({ drawCount: 6n, maxTeamSize: 3n, startingLocation: 7n, enforceAdjacency: true })
+    expect(getHandDrawCount(rules)).toBe(6n)
+  })
+
+  it('should read the rules only once per battle', async () => {
+    const client = mockClient(4n)
+    const address = '0x00000000000000000000000000000000000000AA'
+
+    expect((await getBattleRules(client, address)).drawCount).toBe(4n)
+    expect((await getBattleRules(client, address.toLowerCase())).drawCount).toBe(4n)
+    expect(client.multicall).toHaveBeenCalledTimes(1)
+  })
+
+  it('should retry after a failed read', async () => {
+    const client = mockClient(5n)
+    client.multicall.mockRejectedValueOnce(new Error('rate limited'))
+    const address = '0x00000000000000000000000000000000000000BB'
+
+    await expect(getBattleRules(client, address)).rejects.toThrow('rate limited')
+    expect((await getBattleRules(client, address)).drawCount).toBe(5n)
+  })
+})
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi } from 'vitest'
+import {
+  CardCatalog,
+  EffectType,
+  decodeActionDefinition,
+  getCardCatalog,
+  getCardTarget,
+  getEffectAmount
+} from '../../src/utils/cardCatalog'
+
+// The contract stores 15 effect slots, unused ones are zeroed
+function effectSlots(effects: { effectType: number; amount: number }[]) {
+  return [...effects, ...Array(15 - effects.length).fill({ effectType: 0, amount: 0 })]
+}
+
+describe('Card Catalog', () => {
+  describe('getCardTarget', () => {
+    it('should target enemies for offensive effects', () => {
+      expect(getCardTarget([{ effectType: EffectType.DAMAGE, amount: 6 }])).toBe('enemy')
+      expect(getCardTarget([
+        { effectType: EffectType.BLOCK, amount: 3 },
+        { effectType: EffectType.WEAK, amount: 1 }
+      ])).toBe('enemy')
+    })
+
+    it('should target allies for heals', () => {
+      expect(getCardTarget([{ effectType: EffectType.HEAL, amount: 4 }])).toBe('ally')
+    })
+
+    it('should target self for other buffs', () => {
+      expect(getCardTarget([{ effectType: EffectType.BLOCK, amount: 5 }])).toBe('self')
+      expect(getCardTarget([{ effectType: EffectType.STRENGTH, amount: 1 }])).toBe('self')
+    })
+
+    it('should have no target without effects', () => {
+      expect(getCardTarget([])).toBe('none')
+    })
+  })
+
+  describe('decodeActionDefinition', () => {
+    it('should drop empty effect slots', () => {
+      const definition = decodeActionDefinition(3n, {
+        energy: 1,
+        discardType: 0,
+        effects: effectSlots([{ effectType: EffectType.DAMAGE, amount: 6 }])
+      }, 'Strike')
+
+      expect(definition).toEqual({
+        actionType: 3n,
+        name: 'Strike',
+        energy: 1,
+        discardType: 0,
+        effects: [{ effectType: EffectType.DAMAGE, amount: 6 }],
+        effectsKnown: true,
+        target: 'enemy'
+      })
+    })
+
+    it('should only derive the target from effects once their numbering is verified', () => {
+      const raw = { energy: 1, discardType: 0, effects: effectSlots([{ effectType: EffectType.BLOCK, amount: 5 }]) }
+      expect(decodeActionDefinition(4n, raw).target).toBe('enemy')
+      expect(decodeActionDefinition(4n, raw, 'Defend', true).target).toBe('self')
+    })
+
+    it('should assume an attack when effects are unknown', () => {
+      const definition = decodeActionDefinition(9n, { energy: 2, discardType: 1 })
+      expect(definition.effectsKnown).toBe(false)
+      expect(definition.target).toBe('enemy')
+    })
+  })
+
+  describe('getEffectAmount', () => {
+    it('should sum effects of the same type', () => {
+      const definition = decodeActionDefinition(1n, {
+        energy: 2,
+        discardType: 0,
+        effects: effectSlots([
+          { effectType: EffectType.DAMAGE, amount: 4 },
+          { effectType: EffectType.BLOCK, amount: 2 },
+          { effectType: EffectType.DAMAGE, amount: 4 }
+        ])
+      })
+      expect(getEffectAmount(definition, EffectType.DAMAGE)).toBe(8)
+      expect(getEffectAmount(definition, EffectType.HEAL)).toBe(0)
+    })
+  })
+
+  describe('CardCatalog', () => {
+    function mockClient() {
+      return {
+        getBlockNumber: vi.fn().mockResolvedValue(150n),
+        getContractEvents: vi.fn().mockResolvedValue([
+          {
+            args: {
+              actionType: 1n,
+              actionDefinition: { energy: 1, discardType: 0, effects: effectSlots([{ effectType: EffectType.DAMAGE, amount: 6 }]) },
+              name: 'Strike'
+            }
+          },
+          {
+            args: {
+              actionType: 2n,
+              actionDefinition: { energy: 2, discardType: 0, effects: effectSlots([{ effectType: EffectType.BLOCK, amount: 9 }]) },
+              name: 'Defend'
+            }
+          }
+        ]),
+        readContract: vi.fn().mockImplementation(({ functionName }: { functionName: string }) => {
+          switch (functionName) {
+            case 'actionDefinitions':
+              return Promise.resolve([1, 0])
+            case 'deck':
+              return Promise.resolve('0x00000000000000000000000000000000000000dd')
+            case 'tokenActionType':
+              return Promise.resolve(1n)
+          }
+        })
+      }
+    }
+
+    it('should read definitions from their ActionDefinitionSet events', async () => {
+      const catalog = new CardCatalog(mockClient(), '0x00000000000000000000000000000000000000aa', 100n)
+      expect(await catalog.getByActionType(1n)).toMatchObject({ name: 'Strike', energy: 1, effectsKnown: true })
+      expect(await catalog.getByActionType(2n)).toMatchObject({ name: 'Defend', energy: 2 })
+    })
+
+    it('should only read events once', async () => {
+      const client = mockClient()
+      const catalog = new CardCatalog(client, '0x00000000000000000000000000000000000000aa', 100n)
+      await catalog.getByActionType(1n)
+      await catalog.getByActionType(7n)
+      expect(client.getContractEvents).toHaveBeenCalledTimes(1)
+    })
+
+    it('should fall back to actionDefinitions for unknown action types', async () => {
+      const catalog = new CardCatalog(mockClient(), '0x00000000000000000000000000000000000000aa', 100n)
+      const definition = await catalog.getByActionType(7n)
+      expect(definition).toMatchObject({ actionType: 7n, energy: 1, effectsKnown: false })
+    })
+
+    it('should resolve token IDs through the deck', async () => {
+      const client = mockClient()
+      const catalog = new CardCatalog(client, '0x00000000000000000000000000000000000000aa', 100n)
+      const definition = await catalog.getByTokenId(42n)
+      expect(definition.name).toBe('Strike')
+      expect(client.readContract).toHaveBeenCalledWith(expect.objectContaining({
+        address: '0x00000000000000000000000000000000000000dd',
+        functionName: 'tokenActionType',
+        args: [42n]
+      }))
+    })
+
+    it('should read events in chunks the RPC accepts', async () => {
+      const client = mockClient()
+      client.getBlockNumber.mockResolvedValue(250000n)
+      const events = client.getContractEvents.getMockImplementation()!
+      client.getContractEvents.mockImplementation((request: { fromBlock: bigint; toBlock: bigint }) =>
+        request.toBlock - request.fromBlock >= 50000n ? Promise.reject(new Error('block range too large')) : events(request))
+
+      const catalog = new CardCatalog(client, '0x00000000000000000000000000000000000000aa', 100000n)
+      await catalog.getByActionType(1n)
+
+      const ranges = client.getContractEvents.mock.calls.map(([request]: any[]) => [request.fromBlock, request.toBlock])
+      expect(ranges).toEqual([[100000n, 199999n], [100000n, 149999n], [150000n, 199999n], [200000n, 249999n], [250000n, 250000n]])
+    })
+
+    it('should find the deployment block of a deck logic missing from deployments.json', async () => {
+      const client = {
+        ...mockClient(),
+        getCode: vi.fn(async ({ blockNumber }: { blockNumber: bigint }) => blockNumber >= 120n ? '0x6080' : undefined)
+      }
+      const catalog = new CardCatalog(client, '0x00000000000000000000000000000000000000aa')
+      expect((await catalog.getByActionType(1n)).name).toBe('Strike')
+      expect(client.getContractEvents).toHaveBeenCalledWith(expect.objectContaining({ fromBlock: 120n, toBlock: 150n }))
+    })
+
+    it('should fall back to actionDefinitions and wait before reading failed events again', async () => {
+      vi.useFakeTimers()
+      const client = mockClient()
+      const events = client.getContractEvents.getMockImplementation()!
+      client.getContractEvents.mockRejectedValue(new Error('rpc down'))
+      const catalog = new CardCatalog(client, '0x00000000000000000000000000000000000000aa', 100n)
+
+      expect(await catalog.getByActionType(1n)).toMatchObject({ effectsKnown: false, energy: 1 })
+      const attempts = client.getContractEvents.mock.calls.length
+      await catalog.getByActionType(1n)
+      expect(client.getContractEvents).toHaveBeenCalledTimes(attempts)
+
+      client.getContractEvents.mockImplementation(events)
+      vi.advanceTimersByTime(5 * 60 * 1000)
+      expect(await catalog.getByActionType(1n)).toMatchObject({ name: 'Strike', effectsKnown: true })
+      vi.useRealTimers()
+    })
+
+    it('should not wait for the events when asked not to', async () => {
+      const client = mockClient()
+      const catalog = new CardCatalog(client, '0x00000000000000000000000000000000000000aa', 100n)
+
+      expect(await catalog.getByActionType(1n, false)).toMatchObject({ effectsKnown: false, energy: 1 })
+      expect(await catalog.load()).toBe(true)
+      expect(await catalog.getByActionType(1n, false)).toMatchObject({ name: 'Strike', effectsKnown: true })
+    })
+  })
+
+  describe('getCardCatalog', () => {
+    it('should cache catalogs per deck logic address', () => {
+      const client = { getContractEvents: vi.fn(), readContract: vi.fn() }
+      const first = getCardCatalog(client, '0x00000000000000000000000000000000000000BB')
+      const second = getCardCatalog(client, '0x00000000000000000000000000000000000000bb')
+      expect(first).toBe(second)
+    })
+  })
+})
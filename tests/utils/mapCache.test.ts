@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { hashMapRooms, MapCache, type CachedMap } from '../../src/utils/mapCache'
+
+const rooms = [{ id: 1, roomType: 2, roomData: null, nextRooms: [0, 0, 0, 0, 0, 0] }]
+const actAddress = '0x00000000000000000000000000000000000000ac'
+
+const cachedMap = (): CachedMap => ({
+  actAddress,
+  hash: hashMapRooms(rooms),
+  etag: '"v1"',
+  source: 'test',
+  fetchedAt: 1,
+  rooms
+})
+
+describe('MapCache', () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'map-cache-')), 'nested')
+  })
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(directory), { recursive: true, force: true })
+  })
+
+  it('should hash identical rooms identically', () => {
+    expect(hashMapRooms(rooms)).toBe(hashMapRooms(JSON.parse(JSON.stringify(rooms))))
+    expect(hashMapRooms(rooms)).not.toBe(hashMapRooms([{ ...rooms[0], roomType: 1 }]))
+  })
+
+  it('should write maps atomically and read them back', async () => {
+    const cache = new MapCache(directory)
+    expect(cache.read(actAddress)).toBeUndefined()
+
+    await cache.write(cachedMap())
+
+    expect(cache.read(actAddress.toUpperCase().replace('0X', '0x'))).toEqual(cachedMap())
+    expect(fs.readdirSync(directory)).toEqual([`${actAddress}.json`])
+  })
+
+  it('should ignore cached maps whose rooms do not match their hash', async () => {
+    const cache = new MapCache(directory)
+    await cache.write({ ...cachedMap(), hash: 'tampered' })
+
+    expect(cache.read(actAddress)).toBeUndefined()
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { ActFileMapSource, createMapSource, DirectoryMapSource, RafApiMapSource } from '../../src/utils/mapSources'
+
+const rooms = [{ id: 1, roomType: 2, roomData: null, nextRooms: [0, 0, 0, 0, 0, 0] }]
+const actAddress = '0x00000000000000000000000000000000000000AC'
+
+describe('mapSources', () => {
+  let directory: string
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'maps-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+    vi.unstubAllGlobals()
+  })
+
+  it('should read maps laid out by season and act', async () => {
+    const actDirectory = path.join(directory, 'season', 'alpha', 'act', '2')
+    fs.mkdirSync(actDirectory, { recursive: true })
+    fs.writeFileSync(path.join(actDirectory, 'map.json'), JSON.stringify(rooms))
+
+    const source = new DirectoryMapSource(directory)
+    expect(source.needsSeason).toBe(true)
+    expect((await source.load({ actAddress, seasonName: 'alpha', actIndex: 2 }))?.rooms).toEqual(rooms)
+    await expect(source.load({ actAddress })).rejects.toThrow('Season name and act index')
+  })
+
+  it('should read one map per act address', async () => {
+    fs.writeFileSync(path.join(directory, `${actAddress.toLowerCase()}.json`), JSON.stringify(rooms))
+
+    const source = new ActFileMapSource(directory)
+    expect(source.needsSeason).toBe(false)
+    const loaded = await source.load({ actAddress })
+    expect(loaded?.rooms).toEqual(rooms)
+
+    // Unchanged files are not read again
+    expect(await source.load({ actAddress }, loaded)).toBeUndefined()
+  })
+
+  it('should reject maps that are not an array of rooms', async () => {
+    fs.writeFileSync(path.join(directory, `${actAddress.toLowerCase()}.json`), JSON.stringify({ rooms }))
+    await expect(new ActFileMapSource(directory).load({ actAddress })).rejects.toThrow('is not an array')
+  })
+
+  it('should fetch maps from the RAF API with basic auth', async () => {
+    const fetchMock = vi.fn(async () => ({
+      ok: true,
+      status: 200,
+      headers: new Headers({ etag: '"v1"' }),
+      json: async () => rooms
+    }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const source = new RafApiMapSource('https://raf.example', 'user', 'secret')
+    expect(await source.load({ actAddress, seasonName: 'alpha', actIndex: '2' })).toEqual({ rooms, etag: '"v1"', lastModified: undefined })
+    expect(fetchMock).toHaveBeenCalledWith('https://raf.example/season/alpha/act/2/map.json', {
+      headers: { 'Authorization': `Basic ${btoa('user:secret')}` }
+    })
+  })
+
+  it('should ask the RAF API for the map only if it changed', async () => {
+    const fetchMock = vi.fn(async () => ({ ok: false, status: 304, headers: new Headers() }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const source = new RafApiMapSource('https://raf.example', 'user', 'secret')
+    const since = { etag: '"v1"', lastModified: 'Mon, 19 Oct 2026 00:00:00 GMT' }
+    expect(await source.load({ actAddress, seasonName: 'alpha', actIndex: '2' }, since)).toBeUndefined()
+    expect(fetchMock).toHaveBeenCalledWith(expect.any(String), {
+      headers: expect.objectContaining({ 'If-None-Match': '"v1"', 'If-Modified-Since': since.lastModified })
+    })
+  })
+
+  it('should refuse to create a source without its settings', () => {
+    expect(() => createMapSource('raf', { rafApiUrl: 'https://raf.example' })).toThrow('Missing RAF API configuration')
+    expect(() => createMapSource('actFile')).toThrow('MAP_DIRECTORY')
+    expect(createMapSource('directory', { directory }).kind).toBe('directory')
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest'
+import { RoomType, type MapRoom } from '../../src/utils/actMap'
+import { validateMap, type MapLimits } from '../../src/utils/mapValidation'
+
+const limits: MapLimits = { startingRoomId: 1, maxDoors: 6, maxDoorCount: 3, monsterCount: 4, maxMonstersPerRoom: 3 }
+
+const room = (id: number, roomType: RoomType, nextRooms: number[] = [], monsterIndex1?: number): MapRoom => ({
+  id,
+  roomType,
+  roomData: monsterIndex1 === undefined ? null : { monsterIndex1 },
+  nextRooms
+})
+
+// 1 -> 2 (battle) -> 3 (goal)
+const map = () => [
+  room(1, RoomType.NULL, [2, 0, 0, 0, 0, 0]),
+  room(2, RoomType.BATTLE, [3], 0),
+  room(3, RoomType.GOAL)
+]
+
+const codes = (issues: { code: string }[]) => issues.map(issue => issue.code)
+
+describe('validateMap', () => {
+  it('should accept a map whose goal is reachable', () => {
+    expect(validateMap(map(), limits)).toEqual({
+      valid: true,
+      roomCount: 3,
+      reachableRoomCount: 3,
+      goalRoomIds: [3],
+      reachableGoalRoomIds: [3],
+      errors: [],
+      warnings: []
+    })
+  })
+
+  it('should reject doors to rooms that are not in the map', () => {
+    const rooms = map()
+    rooms[0].nextRooms = [2, 9]
+    const report = validateMap(rooms, limits)
+    expect(report.valid).toBe(false)
+    expect(report.errors).toEqual([expect.objectContaining({ code: 'unknownNextRoom', roomId: 1 })])
+  })
+
+  it('should reject maps without a reachable goal', () => {
+    const rooms = [...map(), room(4, RoomType.GOAL)]
+    rooms[1].nextRooms = [1]
+    expect(codes(validateMap(rooms, limits).errors)).toEqual(['unreachableGoal'])
+    expect(codes(validateMap(map(), { ...limits, startingRoomId: 7 }).errors)).toEqual(['missingStartingRoom'])
+  })
+
+  it('should reject reachable rooms that strand parties', () => {
+    // Room 4 is a dead end
+    const rooms = [...map(), room(4, RoomType.BATTLE, [], 1)]
+    rooms[0].nextRooms = [2, 4]
+    const report = validateMap(rooms, limits)
+    expect(report.errors).toEqual([expect.objectContaining({ code: 'strandingRoom', roomId: 4 })])
+  })
+
+  it('should enforce MAX_DOORS and MAX_DOOR_COUNT', () => {
+    const rooms = [...map(), room(4, RoomType.GOAL), room(5, RoomType.GOAL)]
+    rooms[0].nextRooms = [2, 3, 4, 5]
+    expect(codes(validateMap(rooms, limits).errors)).toEqual(['tooManyDoors'])
+
+    rooms[0].nextRooms = [2, 0, 0, 0, 0, 0, 3]
+    expect(codes(validateMap(rooms, limits).errors)).toEqual(['doorBeyondMaxDoors'])
+  })
+
+  it('should reject BATTLE rooms without a registered monster', () => {
+    const rooms = map()
+    rooms[1].roomData = { monsterIndex1: 4 }
+    expect(codes(validateMap(rooms, limits).errors)).toEqual(['invalidMonsterIndex'])
+
+    rooms[1].roomData = null
+    expect(codes(validateMap(rooms, limits).errors)).toEqual(['missingMonster'])
+  })
+
+  it('should accept elite rooms filling their monster slots in order', () => {
+    const rooms = map()
+    rooms[1].roomData = { monsterIndex1: 0, monsterIndex2: 2, monsterIndex3: 3 }
+    expect(validateMap(rooms, limits).valid).toBe(true)
+
+    rooms[1].roomData = { monsterIndex1: 0, monsterIndex3: 3 }
+    expect(codes(validateMap(rooms, limits).errors)).toEqual(['monsterSlotGap'])
+
+    // 0 marks an empty slot past the first
+    rooms[1].roomData = { monsterIndex1: 0, monsterIndex2: 0 }
+    expect(codes(validateMap(rooms, limits).errors)).toEqual(['invalidMonsterIndex'])
+  })
+
+  it('should reject rooms with more monsters than the BattleRoom takes', () => {
+    const rooms = map()
+    rooms[1].roomData = { monsterIndex1: 0, monsterIndex2: 2 }
+    expect(codes(validateMap(rooms, { ...limits, maxMonstersPerRoom: 1 }).errors)).toEqual(['tooManyMonsters'])
+  })
+
+  it('should reject malformed rooms', () => {
+    const rooms = [...map(), room(2, RoomType.GOAL), room(0, RoomType.NULL), room(4, 7 as RoomType)]
+    rooms[2].nextRooms = undefined as any
+    const report = validateMap(rooms, limits)
+    expect(codes(report.errors)).toEqual(['duplicateRoomId', 'invalidRoomId', 'missingNextRooms', 'unknownRoomType'])
+  })
+
+  it('should only warn about rooms no party can reach', () => {
+    const report = validateMap([...map(), room(4, RoomType.BATTLE, [3], 2)], limits)
+    expect(report.valid).toBe(true)
+    expect(report.warnings).toEqual([expect.objectContaining({ code: 'unreachableRoom', roomId: 4 })])
+  })
+})
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { PartyState } from '../../src/utils/graphql'
+import {
+  DEFAULT_HOUSEKEEPING_CONFIG,
+  planHousekeeping,
+  readCompletedRooms,
+  readPartyBattleRooms,
+  SettledPartyStore,
+  type HousekeepingConfig
+} from '../../src/utils/partyHousekeeping'
+
+const HOUR = 60 * 60 * 1000
+const now = 100 * 24 * HOUR
+const config: HousekeepingConfig = { ...DEFAULT_HOUSEKEEPING_CONFIG, staleCreatedMs: 24 * HOUR, goalGraceMs: HOUR }
+
+const createdAgo = (ms: number) => (now - ms) / 1000
+
+describe('planHousekeeping', () => {
+  it('should cancel parties that never started once they are stale', () => {
+    const actions = planHousekeeping([
+      { partyId: '1', state: PartyState.CREATED, createdAt: createdAgo(25 * HOUR) },
+      { partyId: '2', state: PartyState.CREATED, createdAt: createdAgo(HOUR) }
+    ], config, now)
+
+    expect(actions).toEqual([expect.objectContaining({
+      rule: 'cancelStaleParties',
+      partyId: '1',
+      contract: 'act',
+      functionName: 'cancelParty',
+      reason: 'Party has not started 25h after it was created'
+    })])
+  })
+
+  it('should end parties idling in a completed goal room past the grace period', () => {
+    const actions = planHousekeeping([
+      { partyId: '3', state: PartyState.IN_ROOM, createdAt: createdAgo(2 * HOUR), goalCompletedSince: now - 2 * HOUR },
+      { partyId: '4', state: PartyState.IN_ROOM, createdAt: createdAgo(2 * HOUR), goalCompletedSince: now - 10 * 60 * 1000 },
+      { partyId: '5', state: PartyState.IN_ROOM, createdAt: createdAgo(2 * HOUR) }
+    ], config, now)
+
+    expect(actions.map(action => [action.partyId, action.functionName])).toEqual([['3', 'endParty']])
+  })
+
+  it('should clean up finished battles of ended parties', () => {
+    const actions = planHousekeeping([
+      { partyId: '6', state: PartyState.ESCAPED, createdAt: createdAgo(HOUR), uncleanedRoomIds: [2, 5] },
+      { partyId: '7', state: PartyState.CANCELLED, createdAt: createdAgo(HOUR), uncleanedRoomIds: [] },
+      { partyId: '8', state: PartyState.IN_ROOM, createdAt: createdAgo(HOUR), uncleanedRoomIds: [3] }
+    ], config, now)
+
+    expect(actions).toEqual([expect.objectContaining({
+      rule: 'cleanupBattles',
+      partyId: '6',
+      contract: 'battleRoom',
+      functionName: 'cleanupParty',
+      roomIds: [2, 5]
+    })])
+  })
+
+  it('should only apply the enabled rules', () => {
+    const parties = [
+      { partyId: '1', state: PartyState.CREATED, createdAt: createdAgo(25 * HOUR) },
+      { partyId: '6', state: PartyState.ESCAPED, createdAt: createdAgo(HOUR), uncleanedRoomIds: [2] }
+    ]
+
+    expect(planHousekeeping(parties, { ...config, rules: ['cleanupBattles'] }, now).map(action => action.rule)).toEqual(['cleanupBattles'])
+    expect(planHousekeeping(parties, { ...config, rules: [] }, now)).toEqual([])
+  })
+})
+
+describe('housekeeping reads', () => {
+  const act = '0x00000000000000000000000000000000000000AC'
+  const battleRoom = '0x00000000000000000000000000000000000000BB'
+  const battle = '0x00000000000000000000000000000000000000CC'
+  const noBattle = '0x0000000000000000000000000000000000000000'
+  const success = (result: unknown) => ({ status: 'success', result })
+
+  it('should read the battles of every party room in one multicall', async () => {
+    const publicClient = {
+      multicall: vi.fn().mockResolvedValue([
+        // Party 1: room 3 finished, room 4 still fought
+        success(battle), success(true),
+        success(battle), success(false),
+        // Party 2: already cleaned up
+        success(noBattle), success(false),
+        // Party 3: a read failed
+        { status: 'failure', error: new Error('rpc') }, success(true)
+      ])
+    }
+
+    const rooms = await readPartyBattleRooms(publicClient, battleRoom, act, [
+      { partyId: '1', roomIds: [3, 4] },
+      { partyId: '2', roomIds: [3] },
+      { partyId: '3', roomIds: [5] }
+    ])
+
+    expect(publicClient.multicall).toHaveBeenCalledTimes(1)
+    const { contracts } = publicClient.multicall.mock.calls[0][0]
+    expect(contracts).toHaveLength(8)
+    expect(contracts[0]).toMatchObject({ address: battleRoom, functionName: 'partyBattles', args: [act, 1n, 3] })
+    expect(contracts[1]).toMatchObject({ functionName: 'isRoomCompleted', args: [act, 1n, 3] })
+    expect(rooms).toEqual(new Map([
+      ['1', { holdsBattles: true, uncleanedRoomIds: [3] }],
+      ['2', { holdsBattles: false, uncleanedRoomIds: [] }]
+    ]))
+  })
+
+  it('should find the parties whose room is completed in one multicall', async () => {
+    const publicClient = {
+      multicall: vi.fn().mockResolvedValue([success(true), success(false), { status: 'failure', error: new Error('rpc') }])
+    }
+
+    expect(await readCompletedRooms(publicClient, act, ['1', '2', '3'])).toEqual(new Set(['1']))
+    expect(await readCompletedRooms(publicClient, act, [])).toEqual(new Set())
+    expect(publicClient.multicall).toHaveBeenCalledTimes(1)
+  })
+
+  it('should keep settled parties across restarts', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'housekeeping-'))
+    const store = new SettledPartyStore(directory)
+    expect(store.read(act)).toEqual(new Set())
+
+    await store.write(act, new Set(['1', '2']))
+    expect(new SettledPartyStore(directory).read(act.toLowerCase())).toEqual(new Set(['1', '2']))
+    fs.rmSync(directory, { recursive: true })
+  })
+})
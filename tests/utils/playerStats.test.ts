@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest'
 import { 
   decodePlayerStats, 
+  encodePlayerStats, 
   getPlayerStat, 
   getPlayerEnergy, 
   PlayerStatType 
@@ -145,4 +146,18 @@ describe('PlayerStats Utilities', () => {
       expect(getPlayerStat(productionStats, PlayerStatType.ENERGY)).toBe(3n)
     })
   })
-})
\ No newline at end of file
+
+  describe('encodePlayerStats', () => {
+    it('should encode stats in the layout decodePlayerStats reads', () => {
+      expect(encodePlayerStats([30, 3])).toBe('0x00001e030000000000000000000000000000000000000000000000000000')
+      expect(decodePlayerStats(encodePlayerStats([5n, 10n, 3n, 7n, 255n]))).toEqual(
+        decodePlayerStats('0x0000050a0307ff0000000000000000000000000000000000000000000000')
+      )
+    })
+
+    it('should reject values that do not fit', () => {
+      expect(() => encodePlayerStats([256])).toThrow('Invalid stat value')
+      expect(() => encodePlayerStats(new Array(29).fill(0))).toThrow('Too many stats')
+    })
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { keccak256, toHex, type Hex } from 'viem'
+import {
+  createRandomnessProvider,
+  CryptoRandomnessProvider,
+  HashChainRandomnessProvider,
+  verifyHashChain
+} from '../../src/utils/randomness'
+
+const battle = '0x00000000000000000000000000000000000000AA'
+
+describe('randomness', () => {
+  describe('CryptoRandomnessProvider', () => {
+    it('should produce distinct 256-bit values', () => {
+      const provider = new CryptoRandomnessProvider()
+      const values = Array.from({ length: 20 }, () => provider.next())
+      expect(new Set(values).size).toBe(values.length)
+      for (const value of values) {
+        expect(value >= 0n && value < 2n ** 256n).toBe(true)
+      }
+      // With 20 values, at least one should use the top 64 bits
+      expect(values.some(value => value >= 2n ** 192n)).toBe(true)
+    })
+  })
+
+  describe('HashChainRandomnessProvider', () => {
+    const seed = () => toHex(1n, { size: 32 })
+
+    it('should reveal values that walk back to the commitment', () => {
+      const provider = new HashChainRandomnessProvider({ length: 4, seed })
+      const values = [1n, 2n, 3n].map(turn => {
+        const value = provider.next({ battleAddress: battle, purpose: 'nextTurn', turn })
+        provider.confirm(battle)
+        return value
+      })
+      const commitment = provider.getCommitment(battle)!
+
+      const reveals = provider.getReveals(battle.toLowerCase())
+      expect(reveals.map(reveal => BigInt(reveal.value))).toEqual(values)
+      expect(reveals.map(reveal => reveal.index)).toEqual([3, 2, 1])
+      expect(verifyHashChain(commitment, reveals.map(reveal => reveal.value))).toBe(true)
+      // The last value is the seed hashed length - 1 times
+      expect(keccak256(keccak256(reveals[2].value))).toBe(reveals[0].value)
+    })
+
+    it('should detect values that do not belong to the chain', () => {
+      const provider = new HashChainRandomnessProvider({ length: 4, seed })
+      provider.next({ battleAddress: battle, purpose: 'startGame' })
+      const commitment = provider.getCommitment(battle)!
+      const forged = toHex(2n, { size: 32 }) as Hex
+      expect(verifyHashChain(commitment, [forged])).toBe(false)
+    })
+
+    it('should keep separate chains per battle and commit again when a chain runs out', () => {
+      const provider = new HashChainRandomnessProvider({ length: 2 })
+      provider.open(battle)
+      const first = provider.getCommitment(battle)
+      provider.next({ battleAddress: battle, purpose: 'startGame' })
+      provider.confirm(battle)
+      provider.next({ battleAddress: battle, purpose: 'nextTurn', turn: 1n })
+      provider.confirm(battle)
+      // Committed when the last value was used, before the next one is needed
+      expect(provider.getCommitment(battle)).not.toBe(first)
+
+      provider.next({ battleAddress: '0xbb', purpose: 'startGame' })
+      provider.confirm('0xbb')
+      expect(provider.getReveals('0xbb')).toHaveLength(1)
+      expect(provider.getReveals(battle)).toHaveLength(2)
+    })
+
+    it('should append commitments and reveals to the audit log', () => {
+      const auditLogPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'randomness-')), 'audit.jsonl')
+      const provider = new HashChainRandomnessProvider({ length: 3, auditLogPath })
+      provider.next({ battleAddress: battle, purpose: 'nextTurn', turn: 5n })
+      provider.confirm(battle)
+
+      const entries = fs.readFileSync(auditLogPath, 'utf8').trim().split('\n').map(line => JSON.parse(line))
+      expect(entries.map(entry => entry.type)).toEqual(['commit', 'reveal'])
+      expect(entries[1]).toMatchObject({ turn: '5', purpose: 'nextTurn', commitment: entries[0].commitment })
+      fs.rmSync(path.dirname(auditLogPath), { recursive: true })
+    })
+
+    it('should publish the commitment when the battle is opened', () => {
+      const onCommit = vi.fn()
+      const provider = new HashChainRandomnessProvider({ length: 4, seed, onCommit })
+      provider.open(battle)
+      provider.open(battle)
+
+      expect(onCommit).toHaveBeenCalledTimes(1)
+      expect(onCommit).toHaveBeenCalledWith(battle.toLowerCase(), provider.getCommitment(battle), 4)
+    })
+
+    it('should hand out the same value until it is confirmed', () => {
+      const provider = new HashChainRandomnessProvider({ length: 4, seed })
+      provider.open(battle)
+      const start = { battleAddress: battle, purpose: 'startGame' as const }
+
+      // e.g. the start simulated to BothTeamsMustHavePlayersError, then the relay failed
+      const first = provider.next(start)
+      expect(provider.next(start)).toBe(first)
+      expect(provider.getReveals(battle)).toEqual([])
+
+      provider.confirm(battle)
+      const next = provider.next({ battleAddress: battle, purpose: 'nextTurn', turn: 1n })
+      provider.confirm(battle)
+      expect(verifyHashChain(provider.getCommitment(battle)!, [toHex(first, { size: 32 }), toHex(next, { size: 32 })])).toBe(true)
+    })
+
+    it('should count an unconfirmed value as used once the battle has moved on', () => {
+      const provider = new HashChainRandomnessProvider({ length: 4, seed })
+      provider.open(battle)
+      // The receipt for turn 1 was never seen, but the battle reached turn 2
+      const first = provider.next({ battleAddress: battle, purpose: 'nextTurn', turn: 1n })
+      const second = provider.next({ battleAddress: battle, purpose: 'nextTurn', turn: 2n })
+
+      expect(second).not.toBe(first)
+      expect(provider.getReveals(battle).map(reveal => BigInt(reveal.value))).toEqual([first])
+    })
+
+    it('should continue the committed chain after a restart', () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'randomness-'))
+      const stateDir = path.join(directory, 'state')
+      const first = new HashChainRandomnessProvider({ length: 4, stateDir })
+      first.open(battle)
+      first.next({ battleAddress: battle, purpose: 'startGame' })
+      first.confirm(battle)
+      const reserved = first.next({ battleAddress: battle, purpose: 'nextTurn', turn: 1n })
+      expect(fs.readdirSync(stateDir)).toEqual([`${battle.toLowerCase()}.json`])
+
+      const onCommit = vi.fn()
+      const second = new HashChainRandomnessProvider({ length: 4, stateDir, onCommit })
+      second.open(battle)
+      expect(onCommit).not.toHaveBeenCalled()
+      expect(second.getCommitment(battle)).toBe(first.getCommitment(battle))
+      expect(second.next({ battleAddress: battle, purpose: 'nextTurn', turn: 1n })).toBe(reserved)
+
+      second.close(battle)
+      expect(second.getCommitment(battle)).toBeUndefined()
+      expect(fs.readdirSync(stateDir)).toEqual([])
+      expect(new HashChainRandomnessProvider({ stateDir }).getCommitment(battle)).toBeUndefined()
+      fs.rmSync(directory, { recursive: true })
+    })
+  })
+
+  it('should create the provider for each mode', () => {
+    expect(createRandomnessProvider().mode).toBe('crypto')
+    expect(createRandomnessProvider('hashChain').mode).toBe('hashChain')
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { RoomType, type MapRoom } from '../../src/utils/actMap'
+import { getBattleRoomDataLayout, encodeBattleRoomData } from '../../src/utils/battleRoomData'
+import { validateMap, type MapLimits } from '../../src/utils/mapValidation'
+import {
+  getRoomTypeHandler,
+  getRoomTypeName,
+  getRoomTypeNames,
+  registerRoomTypeHandler,
+  type RoomTypeHandler
+} from '../../src/utils/roomTypes'
+
+const REST = 3
+const limits: MapLimits = { startingRoomId: 1, maxDoors: 6, maxDoorCount: 3, monsterCount: 4, maxMonstersPerRoom: 1 }
+const context = { battleRoomDataLayout: getBattleRoomDataLayout() }
+
+// 1 -> 2 (rest) -> 3 (goal)
+const map = (restData: MapRoom['roomData']): MapRoom[] => [
+  { id: 1, roomType: RoomType.NULL, roomData: null, nextRooms: [2] },
+  { id: 2, roomType: REST, roomData: restData, nextRooms: [3] },
+  { id: 3, roomType: RoomType.GOAL, roomData: null, nextRooms: [] }
+]
+
+const restHandler: RoomTypeHandler<number> = {
+  roomType: REST,
+  name: 'REST',
+  isGoal: false,
+  parseRoomData: roomData => Number(roomData?.heal),
+  validateRoom: room => Number.isInteger(room.roomData?.heal)
+    ? []
+    : [{ severity: 'error', code: 'missingHeal', message: `REST room ${room.id} has no heal` }],
+  encodeRoomData: heal => `0x${heal.toString(16).padStart(64, '0')}`,
+  describeRoomData: heal => `heal=${heal}`
+}
+
+describe('roomTypes', () => {
+  it('should handle the built-in room types', () => {
+    expect(getRoomTypeNames().slice(0, 3)).toEqual(['NULL', 'BATTLE', 'GOAL'])
+    expect(getRoomTypeHandler(RoomType.GOAL)?.isGoal).toBe(true)
+    expect(getRoomTypeHandler(RoomType.NULL)?.encodeRoomData(null, context)).toBe('0x')
+
+    const battle = getRoomTypeHandler(RoomType.BATTLE)!
+    const monsters = battle.parseRoomData({ monsterIndex1: 2 })
+    expect(monsters).toEqual([2])
+    expect(battle.encodeRoomData(monsters, context)).toBe(encodeBattleRoomData([2], context.battleRoomDataLayout))
+  })
+
+  it('should report rooms of unregistered types', () => {
+    expect(getRoomTypeName(42)).toBe('UNKNOWN')
+    const rooms = map(null)
+    rooms[1].roomType = 42
+    expect(validateMap(rooms, limits).errors.map(issue => issue.code)).toEqual(['unknownRoomType'])
+  })
+
+  it('should validate and encode registered room types', () => {
+    registerRoomTypeHandler(restHandler)
+    expect(getRoomTypeName(REST)).toBe('REST')
+
+    expect(validateMap(map({ heal: 5 }), limits).valid).toBe(true)
+    expect(validateMap(map({}), limits).errors).toEqual([
+      { severity: 'error', code: 'missingHeal', roomId: 2, message: 'REST room 2 has no heal' }
+    ])
+
+    const handler = getRoomTypeHandler(REST)!
+    expect(handler.encodeRoomData(handler.parseRoomData({ heal: 5 }), context)).toBe(`0x${'0'.repeat(63)}5`)
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest'
+import { TurnStateLoader } from '../../src/utils/turnState'
+
+const GAME = '0x0000000000000000000000000000000000000001'
+const DECK_MANAGER = '0x0000000000000000000000000000000000000002'
+
+// Stats bytes with 2 bytes of padding, then health 30 and energy 3
+const STATS = '0x00001e03' + '00'.repeat(26)
+
+interface ChainState {
+  deckId: bigint
+  hand: bigint
+  energyCosts: number[]
+  endedTurns: bigint[]
+}
+
+function read(chain: ChainState, call: { functionName: string; args?: any[] }): any {
+  switch (call.functionName) {
+    case 'playerDeckManager': return DECK_MANAGER
+    case 'currentTurn': return 4n
+    case 'winner': return 0n
+    case 'isTeamATurn': return true
+    case 'currentTurnEndsAt': return 1000n
+    case 'turnTimerEnabled': return true
+    case 'getPlayerStats': return { teamA: true, turn: 4, stats: STATS }
+    case 'playerEndedTurn': return chain.endedTurns.includes(call.args![1])
+    case 'playerLocations': return [BigInt(call.args![0]), 1n]
+    case 'isAdjacentPlayer': return call.args![1] === 2n
+    case 'playerDeckIds': return chain.deckId
+    case 'getPileState': return { drawPile: '0x0', hand: `0x${chain.hand.toString(16)}`, discardPile: '0x0' }
+    case 'energyRequired': {
+      const cost = chain.energyCosts[Number(call.args![1])]
+      if (cost === undefined) throw new Error('CardNotInHandError')
+      return cost
+    }
+  }
+  throw new Error(`Unexpected call ${call.functionName}`)
+}
+
+function mockClient(chain: ChainState) {
+  return {
+    readContract: vi.fn(async (call: any) => read(chain, call)),
+    multicall: vi.fn(async ({ contracts }: { contracts: any[] }) => contracts.map(call => {
+      try {
+        return { status: 'success', result: read(chain, call) }
+      } catch (error) {
+        return { status: 'failure', error }
+      }
+    }))
+  }
+}
+
+describe('TurnStateLoader', () => {
+  it('should read the turn state in a single multicall once the deck is known', async () => {
+    const chain = { deckId: 9n, hand: 0b1011n, energyCosts: [1, 2, 0], endedTurns: [] }
+    const client = mockClient(chain)
+    const loader = new TurnStateLoader(client, GAME, 1n)
+
+    await loader.load(4n)
+    client.readContract.mockClear()
+    client.multicall.mockClear()
+
+    const state = await loader.load(4n)
+    expect(client.multicall).toHaveBeenCalledTimes(1)
+    expect(client.readContract).not.toHaveBeenCalled()
+    expect(state).toMatchObject({
+      currentTurn: 4n,
+      winner: 0n,
+      isTeamATurn: true,
+      turnEndsAt: 1000n,
+      turnTimerEnabled: true,
+      deckId: 9n,
+      handCards: [0, 1, 3],
+      energy: 3n,
+      hasEndedTurn: false
+    })
+    expect(state.energyRequirements).toEqual(new Map([[0, 1n], [1, 2n], [2, 0n]]))
+  })
+
+  it('should stop asking for the deck ID once it is created', async () => {
+    const chain: ChainState = { deckId: 0n, hand: 0n, energyCosts: [], endedTurns: [] }
+    const client = mockClient(chain)
+    const loader = new TurnStateLoader(client, GAME, 1n)
+
+    expect((await loader.load(4n)).pileState).toBeUndefined()
+
+    chain.deckId = 9n
+    chain.hand = 0b1n
+    chain.energyCosts = [1]
+    expect((await loader.load(4n)).handCards).toEqual([0])
+
+    client.multicall.mockClear()
+    await loader.load(4n)
+    const functionNames = client.multicall.mock.calls[0][0].contracts.map((call: any) => call.functionName)
+    expect(functionNames).not.toContain('playerDeckIds')
+    expect(functionNames).toContain('getPileState')
+  })
+
+  it('should read missing energy requirements when the hand is larger than the hint', async () => {
+    const chain = { deckId: 9n, hand: 0b111n, energyCosts: [1, 1, 2], endedTurns: [] }
+    const loader = new TurnStateLoader(mockClient(chain), GAME, 1n)
+
+    const state = await loader.load(4n, 1)
+    expect(state.energyRequirements).toEqual(new Map([[0, 1n], [1, 1n], [2, 2n]]))
+  })
+
+  it('should check playerEndedTurn for the current turn when a different turn was expected', async () => {
+    const chain: ChainState = { deckId: 9n, hand: 0n, energyCosts: [], endedTurns: [3n, 4n] }
+    const loader = new TurnStateLoader(mockClient(chain), GAME, 1n)
+
+    expect((await loader.load()).hasEndedTurn).toBe(true)
+    chain.endedTurns = [3n]
+    expect((await loader.load(3n)).hasEndedTurn).toBe(false)
+  })
+
+  it('should read other players in the same multicall', async () => {
+    const chain = { deckId: 9n, hand: 0b1n, energyCosts: [1], endedTurns: [] }
+    const client = mockClient(chain)
+    const loader = new TurnStateLoader(client, GAME, 1n)
+    await loader.load(4n)
+    client.readContract.mockClear()
+    client.multicall.mockClear()
+
+    const state = await loader.load(4n, 1, [
+      { playerId: 2n, adjacency: true },
+      { playerId: 3n, adjacency: false }
+    ])
+    expect(client.multicall).toHaveBeenCalledTimes(1)
+    expect(client.readContract).not.toHaveBeenCalled()
+    expect(state.players.get('2')).toEqual({ stats: state.stats, location: [2n, 1n], adjacent: true })
+    expect(state.players.get('3')).toEqual({ stats: state.stats, location: [3n, 1n], adjacent: undefined })
+  })
+})